@@ -0,0 +1,130 @@
+// Bulk-imports campus locations from a CSV, GeoJSON or KML file as drafts.
+//
+//   npm run import:locations -- <file> [--format csv|geojson|kml] [--map field=column ...] [--yes]
+//
+// Without --yes it only prints what would change. Needs SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY in the environment or .env.
+import { readFile } from 'fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { createServer } from 'vite';
+
+dotenv.config();
+
+const USAGE = 'Usage: npm run import:locations -- <file> [--format csv|geojson|kml] [--map field=column ...] [--yes]';
+
+const parseArgs = (args) => {
+  const options = { file: null, format: null, mapping: {}, yes: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--yes') {
+      options.yes = true;
+    } else if (arg === '--format') {
+      options.format = args[++i];
+    } else if (arg === '--map') {
+      const [field, ...column] = (args[++i] ?? '').split('=');
+      options.mapping[field] = column.join('=') || null;
+    } else if (arg === '--help' || arg === '-h') {
+      return null;
+    } else {
+      options.file = arg;
+    }
+  }
+  return options.file ? options : null;
+};
+
+const fetchExisting = async (supabase) => {
+  const [locations, drafts, categories] = await Promise.all([
+    supabase.from('campus_locations').select('*'),
+    supabase.from('campus_location_drafts').select('*'),
+    supabase.from('categories').select('*').order('sort_order')
+  ]);
+  const error = locations.error ?? drafts.error ?? categories.error;
+  if (error) throw error;
+
+  // Compare with the map as it will be once the pending drafts are published, like the admin console does
+  const byId = new Map(locations.data.map(row => [row.id, row]));
+  drafts.data.forEach(draft => byId.set(draft.location_id, draft.deleted ? null : { ...draft, id: draft.location_id }));
+  return {
+    locations: [...byId.values()].filter(Boolean).map(row => ({
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      description: row.description ?? undefined
+    })),
+    categories: categories.data.map(row => ({
+      slug: row.slug,
+      label: row.label,
+      color: row.color,
+      icon: row.icon,
+      sortOrder: row.sort_order,
+      parentSlug: row.parent_slug
+    }))
+  };
+};
+
+const printRow = (row, name) => {
+  console.log(`${String(row.row).padStart(4)}  ${row.action.padEnd(9)}  ${name}`);
+  row.errors.forEach(message => console.log(`        error: ${message}`));
+  row.changes.forEach(change => console.log(`        ${change.field}: ${change.from || '(empty)'} -> ${change.to || '(empty)'}`));
+  row.warnings.forEach(message => console.log(`        warning: ${message}`));
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Vite resolves the TypeScript and the @ alias so the importer shares its parsing with the admin console
+  const vite = await createServer({
+    appType: 'custom',
+    logLevel: 'warn',
+    server: { middlewareMode: true, hmr: false }
+  });
+  try {
+    const importer = await vite.ssrLoadModule('/src/lib/location-import.ts');
+
+    const format = options.format ?? importer.detectImportFormat(options.file);
+    if (!format) throw new Error('Could not tell the file format; pass --format csv, geojson or kml.');
+    const parsed = importer.parseImportFile(await readFile(options.file, 'utf8'), format);
+    const mapping = { ...importer.guessColumnMapping(parsed.columns), ...options.mapping };
+    console.log(`Read ${parsed.records.length} rows from ${options.file}`);
+    importer.IMPORT_FIELDS.forEach(field => console.log(`  ${field.padEnd(11)} <- ${mapping[field] ?? '(not mapped)'}`));
+
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to compare with and write to the database.');
+    }
+    const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false }
+    });
+    const { locations, categories } = await fetchExisting(supabase);
+
+    const rows = importer.planImport(parsed.records, mapping, categories, locations);
+    console.log('');
+    rows.forEach(row => printRow(row, row.values?.name ?? parsed.records[row.row - 1][mapping.name] ?? '(no name)'));
+    const summary = importer.summariseImport(rows);
+    console.log(`\n${summary.create} new, ${summary.update} updated, ${summary.unchanged} unchanged, ${summary.invalid} skipped`);
+
+    const drafts = importer.importDraftRows(rows);
+    if (!options.yes) {
+      console.log('Dry run; pass --yes to save these as drafts.');
+      return;
+    }
+    if (drafts.length > 0) {
+      const { error } = await supabase.from('campus_location_drafts').upsert(drafts, { onConflict: 'location_id' });
+      if (error) throw error;
+    }
+    console.log(`Saved ${drafts.length} drafts. Publish them from the admin console.`);
+  } finally {
+    await vite.close();
+  }
+};
+
+main().catch(error => {
+  console.error(error.message ?? error);
+  process.exitCode = 1;
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import mapboxgl from "mapbox-gl";
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { Input } from '@/components/ui/input';
@@ -6,73 +6,315 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
-import { Search, Navigation, MapPin, Building, Coffee, Home, GraduationCap, Users, Dumbbell, FileText, Share2, Copy } from 'lucide-react';
+import { Search, Navigation, MapPin, Share2, Copy, ListPlus, Route, Box, DoorOpen, ImagePlus, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { renderToStaticMarkup } from 'react-dom/server';
-import Supercluster from 'supercluster';
-
-interface CampusLocation {
-  id: string;
-  name: string;
-  category: string;
-  latitude: number;
-  longitude: number;
-  description?: string;
-}
-
-const categoryColors = {
-  academic: 'hsl(var(--campus-blue))',
-  'student-services': 'hsl(var(--campus-orange))',
-  dining: 'hsl(var(--campus-orange))',
-  housing: 'hsl(var(--campus-green))',
-  recreation: 'hsl(var(--campus-purple))',
-  administrative: 'hsl(var(--campus-blue))',
-  services: 'hsl(var(--campus-green))'
+import { buildCampusGraph, planWalkingRoute, type CampusGraph, type RoutingProfile, type WalkingRoute } from '@/lib/routing';
+import { fetchCampusPaths } from '@/lib/campus-paths';
+import { fetchMapboxRoute } from '@/lib/mapbox-directions';
+import { buildDirections, getRouteProgress, type RouteDirections } from '@/lib/directions';
+import DirectionsPanel, { type TravelTime } from '@/components/DirectionsPanel';
+import { useOffRoute } from '@/hooks/use-off-route';
+import { useOwnLiveShare, useWatchedLiveShare } from '@/hooks/use-live-share';
+import { useMeetup } from '@/hooks/use-meetup';
+import { planItinerary, type Itinerary } from '@/lib/itinerary';
+import ItineraryPanel from '@/components/ItineraryPanel';
+import ExportMenu from '@/components/ExportMenu';
+import LiveShareBanner from '@/components/LiveShareBanner';
+import LiveShareDialog from '@/components/LiveShareDialog';
+import MeetHalfwayPanel, { ANY_CATEGORY } from '@/components/MeetHalfwayPanel';
+import MeetupDialog, { type MeetupDetails } from '@/components/MeetupDialog';
+import MeetupPanel from '@/components/MeetupPanel';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  directionsPath,
+  hasUnsignedSharedPoint,
+  linkKey,
+  parseCategories,
+  parseMapLink,
+  parseShareToken,
+  placePath,
+  withCategories
+} from '@/lib/deep-links';
+import { describeSharedPosition, type SharePrecision } from '@/lib/location-privacy';
+import { suggestMeetingPoints } from '@/lib/meeting-points';
+import {
+  createMeetup,
+  estimateArrivals,
+  formatArrival,
+  loadSavedMeetup,
+  participantColor,
+  saveMeetup,
+  type SavedMeetup
+} from '@/lib/meetups';
+import { liveShareState, loadShareName } from '@/lib/location-sharing';
+import { UNSIGNED_LINK_MESSAGE, checkShareLink, preparePlaceLink, preparedPlaceLink } from '@/lib/share-links';
+import CategoryFilter from '@/components/CategoryFilter';
+import type { CampusBuilding, CampusLocation, LatLng } from '@/types/campus';
+import { haversineDistance, toLngLat } from '@/lib/geo';
+import { categoryAncestry, isInCategories, listCategories, type Category } from '@/lib/categories';
+import { useCategories } from '@/hooks/use-categories';
+import CategoryBadge from '@/components/CategoryBadge';
+import CategoryIcon from '@/components/CategoryIcon';
+import { addCategoryImages } from '@/lib/map-icons';
+import {
+  addLocationLayers,
+  CLUSTER_LAYER_ID,
+  CLUSTER_MAX_ZOOM,
+  LOCATION_LAYER_ID,
+  LOCATIONS_SOURCE_ID,
+  locationsToGeoJSON,
+  setLocationData,
+  type LocationFeatureCollection
+} from '@/lib/location-layers';
+import { createLayerRegistry, type LayerRegistry } from '@/lib/layer-registry';
+import { addRouteLayer, removeRouteLayer } from '@/lib/route-layer';
+import { fetchCampusBuildings } from '@/lib/campus-buildings';
+import {
+  addBuildingLayers,
+  BUILDING_EXTRUSION_LAYER_ID,
+  BUILDING_FILL_LAYER_ID,
+  buildingsToGeoJSON,
+  EXTRUDED_PITCH,
+  setBuildingData,
+  setBuildingsExtruded,
+  type BuildingFeatureCollection
+} from '@/lib/building-layers';
+import {
+  buildingAt,
+  defaultFloor,
+  fetchIndoorData,
+  floorsOfBuilding,
+  INDOOR_MIN_ZOOM,
+  resolveRoom,
+  type IndoorData,
+  type ResolvedRoom
+} from '@/lib/indoor';
+import {
+  addIndoorLayers,
+  ROOM_FILL_LAYER_ID,
+  roomsToGeoJSON,
+  setIndoorView,
+  setRoomData,
+  type IndoorView,
+  type RoomFeatureCollection
+} from '@/lib/indoor-layers';
+import FloorSwitcher from '@/components/FloorSwitcher';
+import { exactVenue, searchVenues, type VenueContext } from '@/lib/venue-search';
+import { arrivalWarning, fetchOpeningHours, getOpenStatus, type LocationHours, type OpenStatus } from '@/lib/opening-hours';
+import OpenStatusBadge from '@/components/OpenStatusBadge';
+import { useNow } from '@/hooks/use-now';
+import { fetchLocationPhotos, type LocationPhoto } from '@/lib/location-photos';
+import PhotoCarousel from '@/components/PhotoCarousel';
+import PhotoUploadDialog from '@/components/PhotoUploadDialog';
+import { useIsAdmin } from '@/hooks/use-auth';
+import { applyDrafts, fetchLocationDrafts, isDraftPreview, setDraftPreview, type LocationDraft } from '@/lib/location-drafts';
+
+const MAP_STYLES = [
+  'mapbox://styles/mapbox/streets-v12',
+  'mapbox://styles/mapbox/satellite-streets-v12',
+  'mapbox://styles/mapbox/dark-v11'
+];
+const DEFAULT_MAP_STYLE = 'mapbox://styles/mapbox/satellite-streets-v12';
+const MAP_STYLE_STORAGE_KEY = 'campus-map-style';
+// A walk to a friend is re-planned once they have moved this far from where the route ends
+const FRIEND_REROUTE_M = 25;
+
+// Fall back to the default if the stored style is missing or no longer offered
+const getStoredMapStyle = () => {
+  const stored = localStorage.getItem(MAP_STYLE_STORAGE_KEY);
+  return stored && MAP_STYLES.includes(stored) ? stored : DEFAULT_MAP_STYLE;
 };
 
-const categoryIcons = {
-  academic: GraduationCap,
-  'student-services': Users,
-  dining: Coffee,
-  housing: Home,
-  recreation: Dumbbell,
-  administrative: Building,
-  services: FileText
-};
-
-// Helper to render Lucide icon as SVG string
-const renderIconSVG = (IconComponent: React.ComponentType<any>) => {
-  if (!IconComponent) return '';
-  // Remove Tailwind className, use width/height directly
-  const svgString = renderToStaticMarkup(
-    <IconComponent width={24} height={24} color="white" stroke="white" fill="none" />
-  );
-  return svgString;
+// A meetup participant's pin: their initial on their colour, hollow when the position is approximate
+const createParticipantElement = (name: string, color: string, approximate: boolean) => {
+  const el = document.createElement('div');
+  el.style.width = '28px';
+  el.style.height = '28px';
+  el.style.borderRadius = '50%';
+  el.style.background = color;
+  el.style.border = `3px ${approximate ? 'dashed' : 'solid'} #fff`;
+  el.style.opacity = approximate ? '0.75' : '1';
+  el.style.boxShadow = '0 2px 8px rgba(0,0,0,0.35)';
+  el.style.display = 'flex';
+  el.style.alignItems = 'center';
+  el.style.justifyContent = 'center';
+  el.style.color = '#fff';
+  el.style.font = '600 13px sans-serif';
+  el.textContent = name.trim().charAt(0).toUpperCase();
+  return el;
 };
 
 const CampusMap = () => {
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const routerLocation = useLocation();
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
-  const markersRef = useRef<mapboxgl.Marker[]>([]);
-  const [locations, setLocations] = useState<CampusLocation[]>([]);
+  const layerRegistryRef = useRef<LayerRegistry | null>(null);
+  const [liveLocations, setLiveLocations] = useState<CampusLocation[]>([]);
   const [selectedLocation, setSelectedLocation] = useState<CampusLocation | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredLocations, setFilteredLocations] = useState<CampusLocation[]>([]);
-  const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [mapboxToken, setMapboxToken] = useState('');
   const [showTokenInput, setShowTokenInput] = useState(false);
   const [loading, setLoading] = useState(true);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const friendMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  // The friend the map has already been fitted to, so live updates do not keep moving the view
+  const fittedFriendRef = useRef<string | null>(null);
+  const meetupMarkersRef = useRef(new Map<string, mapboxgl.Marker>());
+  // The meetup the map has already been fitted to
+  const fittedMeetupRef = useRef<string | null>(null);
   const [showLegend, setShowLegend] = useState(true);
-  const [sharedLocation, setSharedLocation] = useState<{ lat: number; lng: number } | null>(null);
-  const [clusters, setClusters] = useState<any[]>([]);
-  const [supercluster, setSupercluster] = useState<any>(null);
-  const [mapBounds, setMapBounds] = useState<number[]>([]);
-  const [mapStyle, setMapStyle] = useState('mapbox://styles/mapbox/satellite-streets-v12');
+  // Set once the share link in the URL has been verified
+  const [watchedShareId, setWatchedShareId] = useState<string | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  const [showLiveShare, setShowLiveShare] = useState(false);
+  const [showMeetHalfway, setShowMeetHalfway] = useState(false);
+  const [meetCategory, setMeetCategory] = useState(ANY_CATEGORY);
+  const [savedMeetup, setSavedMeetup] = useState<SavedMeetup | null>(loadSavedMeetup);
+  const [meetupDialog, setMeetupDialog] = useState<{ mode: 'create' | 'join'; destination: CampusLocation } | null>(null);
+  const [meetupArrivals, setMeetupArrivals] = useState<Record<string, number | null>>({});
+  const [mapStyle, setMapStyle] = useState(getStoredMapStyle);
   const [showFeedback, setShowFeedback] = useState(false);
   const [feedbackText, setFeedbackText] = useState('');
+  const [campusGraph, setCampusGraph] = useState<CampusGraph | null>(null);
+  const [activeRoute, setActiveRoute] = useState<{
+    route: WalkingRoute;
+    directions: RouteDirections;
+    // Null when walking to a friend's live location, which the route follows as it moves
+    destination: CampusLocation | null;
+    destinationName: string;
+    profile: RoutingProfile;
+  } | null>(null);
+  const [travelTimes, setTravelTimes] = useState<TravelTime[] | null>(null);
+  const [routingProfile, setRoutingProfile] = useState<RoutingProfile>('walking');
+  const [showItinerary, setShowItinerary] = useState(false);
+  const [itineraryStops, setItineraryStops] = useState<CampusLocation[]>([]);
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [optimiseItinerary, setOptimiseItinerary] = useState(false);
+  const [planningItinerary, setPlanningItinerary] = useState(false);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  // Latest data for map event handlers, which are registered once and outlive renders
+  const locationsRef = useRef<CampusLocation[]>([]);
+  const locationDataRef = useRef<LocationFeatureCollection>(locationsToGeoJSON([]));
+  // URL (path + query) whose selection or route has already been applied to the map
+  const appliedLinkRef = useRef<string | null>(null);
+  const [buildings, setBuildings] = useState<CampusBuilding[]>([]);
+  const [show3D, setShow3D] = useState(false);
+  const buildingDataRef = useRef<BuildingFeatureCollection>(buildingsToGeoJSON([]));
+  const show3DRef = useRef(false);
+  const [indoorData, setIndoorData] = useState<IndoorData>({ floors: [], rooms: [] });
+  const [focusedBuildingId, setFocusedBuildingId] = useState<string | null>(null);
+  const [activeFloorId, setActiveFloorId] = useState<string | null>(null);
+  const [selectedRoom, setSelectedRoom] = useState<ResolvedRoom | null>(null);
+  const indoorDataRef = useRef<IndoorData>({ floors: [], rooms: [] });
+  const indoorBuildingsRef = useRef<CampusBuilding[]>([]);
+  const roomDataRef = useRef<RoomFeatureCollection>(roomsToGeoJSON([]));
+  const indoorViewRef = useRef<IndoorView>({ floorId: null, highlightedRoomId: null });
+  const [openingHours, setOpeningHours] = useState<Record<string, LocationHours>>({});
+  const [openNow, setOpenNow] = useState(false);
+  const now = useNow();
+  const [photos, setPhotos] = useState<Record<string, LocationPhoto[]>>({});
+  const [photoUploadLocation, setPhotoUploadLocation] = useState<CampusLocation | null>(null);
+  const isAdmin = useIsAdmin();
+  const { categories, lookup: categoryLookup } = useCategories();
+  const categoriesRef = useRef<Category[]>([]);
+  categoriesRef.current = categories;
+  // Admins can preview the map as it will look once the drafts are published
+  const [previewDrafts, setPreviewDrafts] = useState(isDraftPreview);
+  const [drafts, setDrafts] = useState<LocationDraft[]>([]);
+  const previewing = isAdmin && previewDrafts;
+  const locations = useMemo(
+    () => (previewing ? applyDrafts(liveLocations, drafts) : liveLocations),
+    [previewing, liveLocations, drafts]
+  );
+
+  // Selected categories are read straight from the URL so back/forward restore them
+  const activeCategories = useMemo(
+    () => parseCategories(routerLocation.pathname, routerLocation.search),
+    [routerLocation]
+  );
+  const openStatuses = useMemo(() => {
+    const statuses: Record<string, OpenStatus> = {};
+    locations.forEach(location => {
+      statuses[location.id] = getOpenStatus(openingHours[location.id], now);
+    });
+    return statuses;
+  }, [locations, openingHours, now]);
+  // Category chips and the "Open now" toggle together decide what is shown
+  const passesFilters = useMemo(
+    () => (location: CampusLocation) =>
+      (activeCategories.length === 0 || isInCategories(categoryLookup, location.category, activeCategories)) &&
+      (!openNow || openStatuses[location.id]?.state === 'open'),
+    [activeCategories, categoryLookup, openNow, openStatuses]
+  );
+  const visibleLocations = useMemo(() => locations.filter(passesFilters), [locations, passesFilters]);
+
+  const venueContext = useMemo<VenueContext>(
+    () => ({ floors: indoorData.floors, rooms: indoorData.rooms, buildings, locations, graph: campusGraph }),
+    [indoorData, buildings, locations, campusGraph]
+  );
+  const venueContextRef = useRef(venueContext);
+  venueContextRef.current = venueContext;
+
+  // Search understands timetable venue codes as well as names
+  const venueSearch = useMemo(() => searchVenues(searchQuery, venueContext), [searchQuery, venueContext]);
+  const matchedRooms = venueSearch.rooms.slice(0, 8);
+  const filteredLocations = useMemo(() => venueSearch.locations.filter(passesFilters), [venueSearch, passesFilters]);
+  const { share: ownShare, start: startSharing, stop: stopSharing } = useOwnLiveShare(userLocation, locations);
+  const { share: watchedShare, status: watchedShareStatus } = useWatchedLiveShare(watchedShareId);
+  const { meetup, status: meetupStatus, reload: reloadMeetup } = useMeetup(savedMeetup?.id ?? null);
+  const meetupDestination = useMemo(
+    () => (meetup ? locations.find(location => location.id === meetup.destinationId) ?? null : null),
+    [meetup, locations]
+  );
+  const ownMeetupShareId = meetup && ownShare?.meetupId === meetup.id ? ownShare.id : null;
+  const friend = useMemo(
+    () =>
+      watchedShare?.position
+        ? {
+          key: watchedShare.id,
+          name: watchedShare.displayName,
+          precision: watchedShare.precision,
+          position: watchedShare.position
+        }
+        : null,
+    [watchedShare]
+  );
+
+  // Planning an itinerary clears the directions route, so a directions route is always the newer one
+  const exportableRoute = useMemo(() => {
+    if (activeRoute) return { name: `Route to ${activeRoute.destinationName}`, route: activeRoute.route };
+    if (itinerary?.route) return { name: 'Itinerary', route: itinerary.route };
+    return null;
+  }, [activeRoute, itinerary]);
+  const meetingPoints = useMemo(() => {
+    if (!showMeetHalfway || !userLocation || !friend) return [];
+    return suggestMeetingPoints(campusGraph, [userLocation, friend.position], locations, {
+      profile: routingProfile,
+      filter: meetCategory === ANY_CATEGORY
+        ? undefined
+        : location => isInCategories(categoryLookup, location.category, [meetCategory])
+    });
+  }, [showMeetHalfway, userLocation, friend, campusGraph, locations, routingProfile, meetCategory, categoryLookup]);
+  const categoryCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    const matched = new Set([...venueSearch.locations, ...venueSearch.rooms.map(resolved => resolved.location)]);
+    matched.forEach(location => {
+      // A location counts towards its parent categories too
+      categoryAncestry(categoryLookup, location.category).forEach(slug => {
+        counts[slug] = (counts[slug] ?? 0) + 1;
+      });
+    });
+    return counts;
+  }, [venueSearch, categoryLookup]);
+
+  const focusedFloors = useMemo(
+    () => (focusedBuildingId ? floorsOfBuilding(indoorData.floors, focusedBuildingId) : []),
+    [indoorData, focusedBuildingId]
+  );
+  const reroutingRef = useRef(false);
 
   // Fetch Mapbox token and locations from Supabase
   useEffect(() => {
@@ -95,7 +337,7 @@ const CampusMap = () => {
           .select('*');
         
         if (error) throw error;
-        setLocations(data || []);
+        setLiveLocations(data || []);
       } catch (error) {
         console.error('Error fetching data:', error);
         setShowTokenInput(true);
@@ -107,6 +349,38 @@ const CampusMap = () => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    if (!previewing) {
+      setDrafts([]);
+      return;
+    }
+    fetchLocationDrafts()
+      .then(setDrafts)
+      .catch(error => console.error('Error fetching drafts:', error));
+  }, [previewing]);
+
+  const exitPreview = () => {
+    setDraftPreview(false);
+    setPreviewDrafts(false);
+  };
+
+  // Load the walking-path graph used for offline routing
+  useEffect(() => {
+    fetchCampusPaths().then(paths => {
+      if (paths) {
+        setCampusGraph(buildCampusGraph(paths.nodes, paths.edges));
+      }
+    });
+  }, []);
+
+  // Load building footprints and their indoor floor plans
+  useEffect(() => {
+    fetchCampusBuildings().then(setBuildings);
+    fetchIndoorData().then(setIndoorData);
+    fetchOpeningHours().then(setOpeningHours);
+    fetchLocationPhotos().then(setPhotos);
+  }, []);
+
   // Get user's current location
   useEffect(() => {
     let watchId: number | null = null;
@@ -179,15 +453,59 @@ const CampusMap = () => {
     }
   }, [userLocation, map.current]);
 
-  // Filter locations based on search and category
+  // Track how far along the active route the user is
+  const routeProgress = useMemo(() => {
+    if (!activeRoute || !userLocation) return null;
+    return getRouteProgress(activeRoute.route, activeRoute.directions, userLocation);
+  }, [activeRoute, userLocation]);
+
+  // Apply the place, category or directions named in the URL (also on back/forward)
+  const applyMapLink = () => {
+    const key = linkKey(routerLocation.pathname + routerLocation.search);
+    if (appliedLinkRef.current === key || locations.length === 0) return;
+
+    const link = parseMapLink(routerLocation.pathname, routerLocation.search);
+    if (link.kind !== 'directions' && activeRoute) {
+      clearRoute();
+    }
+
+    if (link.kind === 'place' || link.kind === 'directions') {
+      const place = locations.find(l => l.id === (link.kind === 'place' ? link.id : link.to));
+      if (!place) {
+        appliedLinkRef.current = key;
+        toast({
+          title: "Location Not Found",
+          description: "The linked location does not exist on this map.",
+          duration: 4000
+        });
+        return;
+      }
+      if (selectedLocation?.id !== place.id) {
+        focusLocation(place);
+      }
+
+      if (link.kind === 'directions') {
+        const fromPlace = typeof link.from === 'string' ? locations.find(l => l.id === link.from) : null;
+        const from = fromPlace
+          ? { lat: fromPlace.latitude, lng: fromPlace.longitude }
+          : typeof link.from === 'object' && link.from ? link.from : userLocation;
+        // Wait for the map (and the user's position, if routing from it) before routing
+        if (!mapLoaded || !from) return;
+        setRoutingProfile(link.profile);
+        handleGetDirections(place, link.profile, from);
+      }
+    } else {
+      setSelectedLocation(null);
+    }
+
+    appliedLinkRef.current = key;
+  };
+  // Runs the latest applyMapLink, but only when the URL or what routing needs has changed
+  const applyMapLinkRef = useRef(applyMapLink);
+  applyMapLinkRef.current = applyMapLink;
   useEffect(() => {
-    setFilteredLocations(
-      locations.filter(location =>
-        location.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
-        (!activeCategory || location.category === activeCategory)
-      )
-    );
-  }, [searchQuery, activeCategory, locations]);
+    applyMapLinkRef.current();
+  }, [routerLocation, locations, mapLoaded, userLocation, campusGraph]);
 
   const initializeMap = (token: string) => {
     if (!mapContainer.current || !token) return;
@@ -207,80 +525,82 @@ const CampusMap = () => {
 
     // Add navigation controls
     map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
+    map.current.on('load', () => setMapLoaded(true));
 
-    // Add markers for all locations
-    locations.forEach(location => {
-      // Create marker wrapper
-      const wrapper = document.createElement('div');
-      wrapper.style.display = 'flex';
-      wrapper.style.flexDirection = 'column';
-      wrapper.style.alignItems = 'center';
-
-      // Label (place name)
-      const label = document.createElement('span');
-      label.textContent = location.name;
-      label.style.fontSize = '1rem';
-      label.style.fontWeight = '700';
-      label.style.color = '#222';
-      label.style.background = 'rgba(255,255,255,0.95)';
-      label.style.borderRadius = '10px';
-      label.style.padding = '4px 12px';
-      label.style.marginBottom = '6px';
-      label.style.boxShadow = '0 2px 8px rgba(0,0,0,0.10)';
-      label.style.maxWidth = '140px';
-      label.style.textAlign = 'center';
-      label.style.whiteSpace = 'nowrap';
-      label.style.overflow = 'hidden';
-      label.style.textOverflow = 'ellipsis';
-      label.style.letterSpacing = '0.02em';
+    // Custom layers are wiped by setStyle; the registry adds them back on every style load
+    layerRegistryRef.current = createLayerRegistry(map.current);
+    layerRegistryRef.current.register('buildings', mapInstance => {
+      addBuildingLayers(mapInstance, buildingDataRef.current, show3DRef.current);
+    });
+    layerRegistryRef.current.register('indoor', mapInstance => {
+      addIndoorLayers(mapInstance, roomDataRef.current, indoorViewRef.current);
+    });
+    layerRegistryRef.current.register('locations', async mapInstance => {
+      await addCategoryImages(mapInstance, categoriesRef.current);
+      addLocationLayers(mapInstance, locationDataRef.current);
+    });
 
-      // Blip
-      const blip = document.createElement('div');
-      blip.style.width = '28px';
-      blip.style.height = '28px';
-      blip.style.borderRadius = '50%';
-      blip.style.background = `radial-gradient(circle at 10px 10px, ${categoryColors[location.category as keyof typeof categoryColors]} 70%, #fff 100%)`;
-      blip.style.border = '3px solid #fff';
-      blip.style.boxShadow = `0 2px 8px ${categoryColors[location.category as keyof typeof categoryColors]}`;
-      blip.style.display = 'flex';
-      blip.style.alignItems = 'center';
-      blip.style.justifyContent = 'center';
+    map.current.on('click', LOCATION_LAYER_ID, (e) => {
+      const locationId = e.features?.[0]?.properties?.locationId;
+      const location = locationsRef.current.find(l => l.id === locationId);
+      if (location) handleLocationClick(location);
+    });
 
-      wrapper.appendChild(label);
-      wrapper.appendChild(blip);
-
-      const marker = new mapboxgl.Marker(wrapper)
-        .setLngLat([location.longitude, location.latitude])
-        .addTo(map.current!);
-
-      wrapper.addEventListener('click', () => {
-        setSelectedLocation(location);
-        map.current?.flyTo({
-          center: [location.longitude, location.latitude],
-          zoom: 18,
-          essential: true
-        });
+    map.current.on('click', CLUSTER_LAYER_ID, (e) => {
+      const feature = e.features?.[0];
+      const source = map.current?.getSource(LOCATIONS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+      if (!feature || !source || feature.geometry.type !== 'Point') return;
+      const center = feature.geometry.coordinates as [number, number];
+      source.getClusterExpansionZoom(feature.properties?.cluster_id, (error, expansionZoom) => {
+        if (error || expansionZoom == null) return;
+        map.current?.flyTo({ center, zoom: Math.min(expansionZoom, CLUSTER_MAX_ZOOM) });
       });
+    });
 
-      markersRef.current.push(marker);
+    // Zoomed in over a building with floor plans: show its floors
+    map.current.on('moveend', () => {
+      const mapInstance = map.current;
+      if (!mapInstance) return;
+      const center = mapInstance.getCenter();
+      const building = mapInstance.getZoom() >= INDOOR_MIN_ZOOM
+        ? buildingAt(indoorBuildingsRef.current, { lat: center.lat, lng: center.lng })
+        : null;
+      setFocusedBuildingId(building?.id ?? null);
     });
-  };
 
-  const getIconPath = (iconType: string) => {
-    const paths = {
-      academic: "M22 10v6M2 10l10-5 10 5-10 5z M6 12v5c3 0 5-1 8-1s5 1 8 1v-5",
-      dining: "M18 8h1a4 4 0 0 1 0 8h-1 M2 8h16v9a4 4 0 0 1-4 4H6a4 4 0 0 1-4-4V8z M6 1v3 M10 1v3 M14 1v3",
-      housing: "M3 21h18M5 21V7l8-4v18M9 9v2m0 4v2m4-6v2m0 4v2",
-      recreation: "M6 2v6h.01L8.5 10.5H15A3.5 3.5 0 0 1 11.5 18v.01H9V22h6v-3.99h.01L17.5 15.5H21V2H6z",
-      administrative: "M6 22V4a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v18H6zm4-10v2m0 4v2m4-6v2m0 4v2",
-      services: "M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z M14 2v6h6 M16 13H8 M16 17H8 M10 9H8",
-      'student-services': "M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2 M9 7a4 4 0 1 0 0-8 4 4 0 0 0 0 8z M22 21v-2a4 4 0 0 0-3-3.87 M16 3.13a4 4 0 0 1 0 7.75"
-    };
-    return paths[iconType as keyof typeof paths] || paths.academic;
+    map.current.on('click', ROOM_FILL_LAYER_ID, (e) => {
+      const pinHit = map.current?.queryRenderedFeatures(e.point, { layers: [LOCATION_LAYER_ID, CLUSTER_LAYER_ID] });
+      if (pinHit?.length) return;
+      const roomId = e.features?.[0]?.properties?.roomId;
+      const room = indoorDataRef.current.rooms.find(r => r.id === roomId);
+      const resolved = room && resolveRoom(room, venueContextRef.current);
+      if (resolved) handleRoomSelect(resolved);
+    });
+
+    // Clicking anywhere on a footprint selects the building's location
+    [BUILDING_FILL_LAYER_ID, BUILDING_EXTRUSION_LAYER_ID].forEach(layerId => {
+      map.current?.on('click', layerId, (e) => {
+        const pinHit = map.current?.queryRenderedFeatures(e.point, { layers: [LOCATION_LAYER_ID, CLUSTER_LAYER_ID, ROOM_FILL_LAYER_ID] });
+        if (pinHit?.length) return;
+        const locationId = e.features?.[0]?.properties?.locationId;
+        const location = locationsRef.current.find(l => l.id === locationId);
+        if (location) handleLocationClick(location);
+      });
+    });
+
+    [LOCATION_LAYER_ID, CLUSTER_LAYER_ID, BUILDING_FILL_LAYER_ID, BUILDING_EXTRUSION_LAYER_ID, ROOM_FILL_LAYER_ID].forEach(layerId => {
+      map.current?.on('mouseenter', layerId, () => {
+        if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+      });
+      map.current?.on('mouseleave', layerId, () => {
+        if (map.current) map.current.getCanvas().style.cursor = '';
+      });
+    });
   };
 
-  const handleLocationClick = (location: CampusLocation) => {
+  const focusLocation = (location: CampusLocation) => {
     setSelectedLocation(location);
+    setSelectedRoom(null);
     map.current?.flyTo({
       center: [location.longitude, location.latitude],
       zoom: 18,
@@ -288,6 +608,69 @@ const CampusMap = () => {
     });
   };
 
+  // Navigates within the map while keeping the current category filter in the URL
+  const navigateTo = (path: string, { applied = false } = {}) => {
+    if (applied) {
+      // The map already shows this state, so the URL effect must not re-apply it
+      appliedLinkRef.current = linkKey(path);
+    }
+    navigate(withCategories(path, parseCategories(window.location.pathname, window.location.search)));
+  };
+
+  const handleLocationClick = (location: CampusLocation) => {
+    focusLocation(location);
+    const path = placePath(location.id);
+    if (window.location.pathname !== path) {
+      navigateTo(path, { applied: true });
+    }
+  };
+
+  const handleRoomSelect = (resolved: ResolvedRoom) => {
+    handleLocationClick(resolved.location);
+    setSelectedRoom(resolved);
+    setFocusedBuildingId(resolved.building.id);
+    setActiveFloorId(resolved.floor.id);
+    map.current?.flyTo({
+      center: toLngLat(resolved.center),
+      zoom: 19,
+      essential: true
+    });
+  };
+
+  const selectVenue = (venue: ResolvedRoom | CampusLocation) => {
+    if ('room' in venue) {
+      handleRoomSelect(venue);
+    } else {
+      handleLocationClick(venue);
+    }
+  };
+
+  // Enter jumps to the venue the query names, or else the top result
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    const venue = exactVenue(venueSearch) ?? matchedRooms[0] ?? filteredLocations[0];
+    if (venue) selectVenue(venue);
+  };
+
+  // A venue pasted from a timetable is shown straight away when it is unambiguous
+  const handleSearchPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const venue = exactVenue(searchVenues(e.clipboardData.getData('text'), venueContext));
+    if (venue) selectVenue(venue);
+  };
+
+  const handleCloseLocation = () => {
+    setSelectedLocation(null);
+    setSelectedRoom(null);
+    navigateTo('/', { applied: true });
+  };
+
+  const handleCategoriesChange = (categories: string[]) => {
+    const link = parseMapLink(window.location.pathname, window.location.search);
+    // A /category/:category link becomes a plain filter once the user edits it
+    const path = link.kind === 'category' ? '/' : window.location.pathname + window.location.search;
+    navigate(withCategories(path, categories));
+  };
+
   const handleTokenSubmit = () => {
     if (mapboxToken.trim()) {
       setShowTokenInput(false);
@@ -295,84 +678,117 @@ const CampusMap = () => {
     }
   };
 
-  const drawRoute = (from: { lat: number; lng: number }, to: { lat: number; lng: number }) => {
-    if (!map.current || !mapboxToken) return;
+  // Campus legs are routed locally; Mapbox is only asked for legs that start or end off campus
+  const fetchOffCampusLeg = mapboxToken
+    ? (legFrom: LatLng, legTo: LatLng) => fetchMapboxRoute(mapboxToken, 'walking', legFrom, legTo)
+    : undefined;
 
-    const directionsUrl = `https://api.mapbox.com/directions/v5/mapbox/driving/${from.lng},${from.lat};${to.lng},${to.lat}?geometries=geojson&access_token=${mapboxToken}`;
+  const drawRoute = async (
+    from: LatLng,
+    to: LatLng,
+    { fitToRoute = true, profile = 'walking', toLocationId }: { fitToRoute?: boolean; profile?: RoutingProfile; toLocationId?: string } = {}
+  ): Promise<WalkingRoute | null> => {
+    if (!map.current) return null;
 
-    fetch(directionsUrl)
-      .then(response => response.json())
-      .then(data => {
-        if (data.routes && data.routes[0]) {
-          const route = data.routes[0];
+    let route: WalkingRoute | null = null;
+    try {
+      route = await planWalkingRoute(campusGraph, from, to, { profile, toLocationId, fetchOffCampusLeg });
+    } catch (error) {
+      console.error('Directions error:', error);
+    }
+    if (!route) return null;
 
-          // Remove existing route layer if it exists
-          if (map.current.getLayer('route')) {
-            map.current.removeLayer('route');
-          }
-          if (map.current.getSource('route')) {
-            map.current.removeSource('route');
-          }
+    showRouteOnMap(route, fitToRoute);
+    return route;
+  };
 
-          // Add the route to the map
-          map.current.addSource('route', {
-            type: 'geojson',
-            data: {
-              type: 'Feature',
-              properties: {},
-              geometry: route.geometry
-            }
-          });
+  const showRouteOnMap = (route: WalkingRoute, fitToRoute = true) => {
+    if (!map.current) return;
 
-          map.current.addLayer({
-            id: 'route',
-            type: 'line',
-            source: 'route',
-            layout: {
-              'line-join': 'round',
-              'line-cap': 'round'
-            },
-            paint: {
-              'line-color': '#3b82f6', // Tailwind blue
-              'line-width': 6,
-              'line-opacity': 0.8
-            }
-          });
+    // Registered so the line is redrawn after a style switch
+    layerRegistryRef.current?.register('route', mapInstance => addRouteLayer(mapInstance, route.coordinates));
 
-          // Fit the map to show the entire route
-          const coordinates = route.geometry.coordinates;
-          const bounds = coordinates.reduce((bounds: any, coord: any) => {
-            return bounds.extend(coord);
-          }, new mapboxgl.LngLatBounds(coordinates[0], coordinates[0]));
+    // Fit the map to show the entire route
+    if (fitToRoute) {
+      const coordinates = route.coordinates;
+      const bounds = coordinates.reduce((bounds, coord) => {
+        return bounds.extend(coord);
+      }, new mapboxgl.LngLatBounds(coordinates[0], coordinates[0]));
 
-          map.current.fitBounds(bounds, {
-            padding: 50
-          });
-        }
-      })
-      .catch(error => {
-        console.error('Directions error:', error);
+      map.current.fitBounds(bounds, {
+        padding: 50
       });
+    }
   };
 
-  const handleGetDirections = async (location: CampusLocation) => {
-    if (userLocation && map.current) {
-      drawRoute(userLocation, { lat: location.latitude, lng: location.longitude });
+  const clearRoute = () => {
+    layerRegistryRef.current?.unregister('route', removeRouteLayer);
+    setActiveRoute(null);
+    setTravelTimes(null);
+  };
 
-      // Get travel times for all modes
-      const times = await getTravelTimes(userLocation, { lat: location.latitude, lng: location.longitude });
+  // Routes to a location, or to a friend's live location when `location` is null, and makes it
+  // the active route, falling back to the standard walking profile (with a warning) when no
+  // step-free route exists
+  const routeToTarget = async (
+    from: LatLng,
+    target: { location: CampusLocation | null; name: string; point: LatLng },
+    profile: RoutingProfile,
+    fitToRoute = true
+  ) => {
+    const toLocationId = target.location?.id;
+    let route = await drawRoute(from, target.point, { fitToRoute, profile, toLocationId });
+    let usedProfile = profile;
+
+    if (!route && profile === 'step-free') {
+      toast({
+        variant: "destructive",
+        title: "No Step-free Route",
+        description: `There is no step-free route to ${target.name}. The route shown may include steps, kerbs or steep slopes.`,
+        duration: 7000
+      });
+      route = await drawRoute(from, target.point, { fitToRoute, toLocationId });
+      usedProfile = 'walking';
+    }
+
+    if (route) {
+      setActiveRoute({
+        route,
+        directions: buildDirections(route, target.name),
+        destination: target.location,
+        destinationName: target.name,
+        profile: usedProfile
+      });
+    }
+    return route;
+  };
+
+  const routeToLocation = (from: LatLng, location: CampusLocation, profile: RoutingProfile, fitToRoute = true) =>
+    routeToTarget(from, { location, name: location.name, point: { lat: location.latitude, lng: location.longitude } }, profile, fitToRoute);
+
+  const routeToFriend = (from: LatLng, profile: RoutingProfile, fitToRoute = true) =>
+    friend ? routeToTarget(from, { location: null, name: friend.name, point: friend.position }, profile, fitToRoute) : null;
 
-      // Show a toast with the travel times
-      if (times) {
+  const handleGetDirections = async (location: CampusLocation, profile = routingProfile, from = userLocation) => {
+    if (from && map.current) {
+      const route = await routeToLocation(from, location, profile);
+
+      if (!route) {
         toast({
-          title: "Estimated Travel Times",
-          description: times.map(t => `${t.label}: ${t.duration !== null ? `${t.duration} min` : 'N/A'}`).join(" | "),
-          duration: 7000
+          title: "Directions",
+          description: "No walking route could be found to this location.",
+          duration: 4000
         });
+        return;
       }
+
+      setTravelTimes(null);
+
+      // Get travel times for all modes
+      setTravelTimes(await getTravelTimes(from, { lat: location.latitude, lng: location.longitude }, route));
     } else {
       // Fallback to opening in external map app
-      const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${location.latitude},${location.longitude}&travelmode=driving`;
+      const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${location.latitude},${location.longitude}&travelmode=walking`;
       window.open(googleMapsUrl, '_blank');
       toast({
         title: "Directions",
@@ -382,8 +798,118 @@ const CampusMap = () => {
     }
   };
 
+  // Directions are driven by the URL so they can be linked to and revisited with back/forward
+  const requestDirections = (location: CampusLocation, profile = routingProfile) => {
+    if (!userLocation) {
+      handleGetDirections(location, profile);
+      return;
+    }
+    const link = parseMapLink(window.location.pathname, window.location.search);
+    const from = link.kind === 'directions' && link.to === location.id ? link.from : null;
+    navigateTo(directionsPath(location.id, { from, profile }));
+  };
+
+  const handleRoutingProfileChange = (profile: RoutingProfile) => {
+    setRoutingProfile(profile);
+    if (activeRoute?.destination) {
+      requestDirections(activeRoute.destination, profile);
+    } else if (activeRoute && userLocation) {
+      routeToFriend(userLocation, profile);
+    }
+  };
+
+  const handleCloseDirections = () => {
+    const destination = activeRoute?.destination;
+    clearRoute();
+    navigateTo(destination ? placePath(destination.id) : '/', { applied: true });
+  };
+
+  // Recompute the active route from wherever the user has wandered to
+  const handleOffRoute = async () => {
+    if (!activeRoute || !userLocation || reroutingRef.current) return;
+    reroutingRef.current = true;
+    toast({
+      title: "Off Route",
+      description: "You have left the route. Recalculating...",
+      duration: 3000
+    });
+
+    // Stay on the profile the route was drawn with, so a step-free fallback is not warned about again
+    if (activeRoute.destination) {
+      await routeToLocation(userLocation, activeRoute.destination, activeRoute.profile, false);
+    } else {
+      await routeToFriend(userLocation, activeRoute.profile, false);
+    }
+    reroutingRef.current = false;
+  };
+
+  const isOffRoute = useOffRoute(routeProgress, handleOffRoute);
+
+  const handleAddToItinerary = (location: CampusLocation) => {
+    if (!itineraryStops.some(stop => stop.id === location.id)) {
+      handleItineraryStopsChange([...itineraryStops, location]);
+    }
+    handleOpenItinerary();
+  };
+
+  // The itinerary's line is the one on the map unless directions have replaced it
+  const clearItinerary = () => {
+    if (itinerary?.route && !activeRoute) clearRoute();
+    setItinerary(null);
+  };
+
+  const handleItineraryStopsChange = (stops: CampusLocation[]) => {
+    setItineraryStops(stops);
+    // Any previously planned route no longer matches the stops
+    clearItinerary();
+  };
+
+  const handlePlanItinerary = async () => {
+    setPlanningItinerary(true);
+    try {
+      const result = await planItinerary(campusGraph, itineraryStops, {
+        profile: routingProfile,
+        optimiseOrder: optimiseItinerary,
+        fetchOffCampusLeg
+      });
+      if (!result) return;
+
+      setItineraryStops(result.stops);
+      setItinerary(result);
+      clearRoute();
+      if (result.route) {
+        showRouteOnMap(result.route);
+      }
+      if (result.legs.some(leg => !leg.route)) {
+        toast({
+          title: "Itinerary",
+          description: "Some legs of your itinerary could not be routed, so no route was drawn.",
+          duration: 4000
+        });
+      }
+    } catch (error) {
+      console.error('Itinerary error:', error);
+    } finally {
+      setPlanningItinerary(false);
+    }
+  };
+
+  // The itinerary and meeting suggestions share a spot on screen
+  const handleOpenItinerary = () => {
+    setShowMeetHalfway(false);
+    setShowItinerary(true);
+  };
+
+  const handleCloseItinerary = () => {
+    clearItinerary();
+    setShowItinerary(false);
+  };
+
   const handleShareLocation = async (location: CampusLocation) => {
-    const locationUrl = `https://www.google.com/maps/place/${location.latitude},${location.longitude}`;
+    // A signed link tells the recipient who sent it; the plain place link still works without one.
+    // Nothing is awaited before sharing, or the browser would no longer count it as the user's click
+    const locationUrl =
+      preparedPlaceLink(location.id, loadShareName() || null) ?? `${window.location.origin}${placePath(location.id)}`;
     const shareData = {
       title: location.name,
       text: `Check out ${location.name} - ${location.description}`,
@@ -420,67 +946,225 @@ const CampusMap = () => {
     }
   };
 
-  const handleShareMyLocation = async () => {
-    if (!userLocation) return;
+  const handleStartSharing = async (displayName: string, minutes: number, precision: SharePrecision) => {
+    try {
+      await startSharing(displayName, minutes, precision);
+      toast({
+        title: "Sharing Live",
+        description: "Send the link to the people who should see where you are.",
+        duration: 3000
+      });
+    } catch (error) {
+      console.error('Error starting live share:', error);
+      toast({
+        title: "Share Error",
+        description: error instanceof Error ? error.message : "Could not start sharing your location.",
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  };
 
-    // Generate a shareable URL with your coordinates as query params
-    const shareUrl = `${window.location.origin}${window.location.pathname}?sharedLat=${userLocation.lat}&sharedLng=${userLocation.lng}`;
+  const handleStopSharing = async () => {
+    try {
+      await stopSharing();
+      setShowLiveShare(false);
+      toast({
+        title: "Sharing Stopped",
+        description: "Nobody can see your location any more.",
+        duration: 3000
+      });
+    } catch (error) {
+      console.error('Error stopping live share:', error);
+      toast({
+        title: "Share Error",
+        description: "Could not stop sharing. Check your connection and try again.",
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  };
 
+  const handleShareLiveLink = async (shareUrl: string) => {
     const shareData = {
       title: "My Campus Location",
-      text: "Here's my current location on the campus map!",
+      text: "Follow my live location on the campus map",
       url: shareUrl
     };
 
     try {
       if (navigator.share && navigator.canShare && navigator.canShare(shareData)) {
         await navigator.share(shareData);
+      } else {
+        await navigator.clipboard.writeText(shareUrl);
         toast({
-          title: "Location Shared",
-          description: "Location shared successfully",
+          title: "Link Copied",
+          description: "Live location link copied to clipboard",
+          duration: 3000
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Share Error",
+        description: "Could not share the link.",
+        duration: 3000
+      });
+    }
+  };
+
+  const showFriend = () => {
+    if (map.current && friend) {
+      map.current.flyTo({ center: [friend.position.lng, friend.position.lat], zoom: 17, essential: true });
+    }
+  };
+
+  const handleWalkToFriend = async () => {
+    if (!userLocation || !friend) return;
+    setShowMeetHalfway(false);
+    // A walk to a friend is not a place, so it has no URL of its own
+    if (parseMapLink(window.location.pathname, window.location.search).kind === 'directions') {
+      navigateTo('/', { applied: true });
+    }
+    const route = await routeToFriend(userLocation, routingProfile);
+    if (!route) {
+      toast({
+        title: "Directions",
+        description: `No walking route could be found to ${friend.name}.`,
+        duration: 4000
+      });
+      return;
+    }
+    setTravelTimes(null);
+    setTravelTimes(await getTravelTimes(userLocation, friend.position, route));
+  };
+
+  const handleMeetHalfway = () => {
+    if (activeRoute && !activeRoute.destination) clearRoute();
+    setShowItinerary(false);
+    setShowMeetHalfway(true);
+  };
+
+  const followMeetup = (saved: SavedMeetup | null) => {
+    saveMeetup(saved);
+    setSavedMeetup(saved);
+    if (saved) {
+      // The meetup panel sits where these two would
+      setShowItinerary(false);
+      setShowMeetHalfway(false);
+    }
+  };
+
+  // This browser shares one live location at a time, so joining ends any other session first
+  const joinMeetup = async (meetupId: string, details: MeetupDetails) => {
+    if (ownShare && ownShare.meetupId !== meetupId) await stopSharing();
+    // The server cuts the session short when the meetup ends
+    await startSharing(details.displayName, 480, details.precision, meetupId);
+    reloadMeetup();
+  };
+
+  const handleMeetupSubmit = async (details: MeetupDetails) => {
+    if (!meetupDialog) return;
+    try {
+      if (meetupDialog.mode === 'create') {
+        const created = await createMeetup(details.meetupName, meetupDialog.destination, details.minutes);
+        followMeetup(created);
+        if (userLocation) {
+          await joinMeetup(created.id, details);
+        } else if (ownShare?.meetupId) {
+          // Following the new meetup drops the old one, so stop showing up in it too
+          await stopSharing();
+        }
+        setMeetupDialog(null);
+        toast({
+          title: "Meetup Started",
+          description: "Invite the group so they can see each other on their way.",
           duration: 3000
         });
+        handleInviteToMeetup(created.link);
+      } else if (meetup) {
+        await joinMeetup(meetup.id, details);
+        setMeetupDialog(null);
+        toast({
+          title: "Joined Meetup",
+          description: `The group can now see how far you are from ${meetupDialog.destination.name}.`,
+          duration: 3000
+        });
+      }
+    } catch (error) {
+      console.error('Error with meetup:', error);
+      toast({
+        title: "Meetup Error",
+        description: error instanceof Error ? error.message : "Could not set up the meetup.",
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  };
+
+  const handleLeaveMeetup = async () => {
+    try {
+      if (ownMeetupShareId) await stopSharing();
+      followMeetup(null);
+    } catch (error) {
+      console.error('Error leaving meetup:', error);
+      toast({
+        title: "Meetup Error",
+        description: "Could not stop sharing your location with the group.",
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  };
+
+  const handleInviteToMeetup = async (inviteUrl: string) => {
+    const shareData = {
+      title: meetup?.name ?? "Campus Meetup",
+      text: "Join the meetup and see everyone on their way on the campus map",
+      url: inviteUrl
+    };
+
+    try {
+      if (navigator.share && navigator.canShare && navigator.canShare(shareData)) {
+        await navigator.share(shareData);
       } else {
-        await navigator.clipboard.writeText(shareUrl);
+        await navigator.clipboard.writeText(inviteUrl);
         toast({
-          title: "Location Copied",
-          description: "Shareable link copied to clipboard",
+          title: "Link Copied",
+          description: "Meetup invite link copied to clipboard",
           duration: 3000
         });
       }
     } catch (error) {
       toast({
         title: "Share Error",
-        description: "Could not share location.",
-        duration: 3000
+        description: `Invite link: ${inviteUrl}`,
+        duration: 5000
       });
     }
   };
 
-  const getTravelTimes = async (from: { lat: number; lng: number }, to: { lat: number; lng: number }) => {
-    if (!mapboxToken) return null;
+  const getTravelTimes = async (from: LatLng, to: LatLng, walkingRoute: WalkingRoute) => {
+    // Walking comes from the campus path engine; the other modes still need Mapbox
+    const results: TravelTime[] = [
+      { label: "Walk", duration: Math.round(walkingRoute.duration / 60) }
+    ];
 
     const modes = [
-      { profile: "walking", label: "Walk" },
       { profile: "cycling", label: "Cycle" },
       { profile: "driving", label: "Drive" }
-    ];
-
-    const results: { label: string; duration: number | null }[] = [];
+    ] as const;
 
     for (const mode of modes) {
-      const url = `https://api.mapbox.com/directions/v5/mapbox/${mode.profile}/${from.lng},${from.lat};${to.lng},${to.lat}?geometries=geojson&access_token=${mapboxToken}`;
+      if (!mapboxToken) {
+        results.push({ label: mode.label, duration: null });
+        continue;
+      }
       try {
-        const res = await fetch(url);
-        const data = await res.json();
-        if (data.routes && data.routes[0]) {
-          results.push({
-            label: mode.label,
-            duration: Math.round(data.routes[0].duration / 60) // minutes
-          });
-        } else {
-          results.push({ label: mode.label, duration: null });
-        }
+        const route = await fetchMapboxRoute(mapboxToken, mode.profile, from, to);
+        results.push({
+          label: mode.label,
+          duration: route ? Math.round(route.duration / 60) : null // minutes
+        });
       } catch {
         results.push({ label: mode.label, duration: null });
       }
@@ -491,100 +1175,61 @@ const CampusMap = () => {
 
   // Initialize map when token and locations are loaded
   useEffect(() => {
-    if (!loading && !showTokenInput && mapboxToken && locations.length > 0) {
-      if (!map.current) {
-        initializeMap(mapboxToken);
-      } else {
-      // Clear existing markers
-      markersRef.current.forEach(marker => marker.remove());
-      markersRef.current = [];
-      
-      // Add new markers
-      locations.forEach(location => {
-        // Create marker wrapper
-        const wrapper = document.createElement('div');
-        wrapper.style.display = 'flex';
-        wrapper.style.flexDirection = 'column';
-        wrapper.style.alignItems = 'center';
-
-        // Label (place name)
-        const label = document.createElement('span');
-        label.textContent = location.name;
-        label.style.fontSize = '1rem';
-        label.style.fontWeight = '700';
-        label.style.color = '#222';
-        label.style.background = 'rgba(255,255,255,0.95)';
-        label.style.borderRadius = '10px';
-        label.style.padding = '4px 12px';
-        label.style.marginBottom = '6px';
-        label.style.boxShadow = '0 2px 8px rgba(0,0,0,0.10)';
-        label.style.maxWidth = '140px';
-        label.style.textAlign = 'center';
-        label.style.whiteSpace = 'nowrap';
-        label.style.overflow = 'hidden';
-        label.style.textOverflow = 'ellipsis';
-        label.style.letterSpacing = '0.02em';
-
-        // Blip
-        const blip = document.createElement('div');
-        blip.style.width = '28px';
-        blip.style.height = '28px';
-        blip.style.borderRadius = '50%';
-        blip.style.background = `radial-gradient(circle at 10px 10px, ${categoryColors[location.category as keyof typeof categoryColors]} 70%, #fff 100%)`;
-        blip.style.border = '3px solid #fff';
-        blip.style.boxShadow = `0 2px 8px ${categoryColors[location.category as keyof typeof categoryColors]}`;
-        blip.style.display = 'flex';
-        blip.style.alignItems = 'center';
-        blip.style.justifyContent = 'center';
-
-        wrapper.appendChild(label);
-        wrapper.appendChild(blip);
-
-        const marker = new mapboxgl.Marker(wrapper)
-          .setLngLat([location.longitude, location.latitude])
-          .addTo(map.current!);
-
-        wrapper.addEventListener('click', () => {
-          setSelectedLocation(location);
-          map.current?.flyTo({
-            center: [location.longitude, location.latitude],
-            zoom: 18,
-            essential: true
-          });
-        });
-
-        markersRef.current.push(marker);
-      });
-      }
+    if (!loading && !showTokenInput && mapboxToken && locations.length > 0 && !map.current) {
+      initializeMap(mapboxToken);
     }
   }, [loading, locations, showTokenInput, mapboxToken]);
 
-  const getCategoryInitial = (category: string) => {
-    const initials: Record<string, string> = {
-      academic: "A",
-      "student-services": "SS",
-      dining: "D",
-      housing: "H",
-      recreation: "R",
-      administrative: "AS",
-      services: "S"
-    };
-    return initials[category] || "?";
-  };
+  // Verify a share link from the URL before acting on anything in it
+  const openShareLink = () => {
+    if (hasUnsignedSharedPoint(window.location.search)) {
+      setShareLinkError(UNSIGNED_LINK_MESSAGE);
+      return;
+    }
+    const token = parseShareToken(window.location.search);
+    if (!token) return;
 
-  // Handle shared location from URL params
+    checkShareLink(token).then(result => {
+      if (result.ok === false) {
+        setShareLinkError(result.message);
+        return;
+      }
+      const { payload } = result;
+      if (payload.kind === 'live') {
+        setWatchedShareId(payload.shareId);
+      } else if (payload.kind === 'meetup') {
+        followMeetup({
+          id: payload.meetupId,
+          expiresAt: new Date(payload.exp * 1000).toISOString(),
+          link: window.location.href
+        });
+      } else {
+        navigate(placePath(payload.placeId), { replace: true });
+        if (payload.name) {
+          toast({
+            title: "Shared With You",
+            description: `${payload.name} sent you this place.`,
+            duration: 4000
+          });
+        }
+      }
+    });
+  };
+  // Once on mount, with the handlers of that first render
+  const openShareLinkRef = useRef(openShareLink);
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const lat = params.get("sharedLat");
-    const lng = params.get("sharedLng");
-    if (lat && lng) {
-      setSharedLocation({ lat: parseFloat(lat), lng: parseFloat(lng) });
-    }
+    openShareLinkRef.current();
   }, []);
 
-  // Effect to show shared location on map
+  // Show the friend's position, moving the marker as live updates arrive
   useEffect(() => {
-    if (map.current && sharedLocation) {
+    if (!map.current || !friend) {
+      friendMarkerRef.current?.remove();
+      friendMarkerRef.current = null;
+      return;
+    }
+
+    if (!friendMarkerRef.current) {
       const sharedEl = document.createElement('div');
       sharedEl.style.width = '28px';
       sharedEl.style.height = '28px';
@@ -597,181 +1242,207 @@ const CampusMap = () => {
       sharedEl.style.justifyContent = 'center';
       sharedEl.innerHTML = `<svg width="16" height="16" fill="none" stroke="#fff" stroke-width="2" viewBox="0 0 24 24"><circle cx="12" cy="12" r="5"/></svg>`;
 
-      new mapboxgl.Marker(sharedEl)
-        .setLngLat([sharedLocation.lng, sharedLocation.lat])
-        .setPopup(new mapboxgl.Popup().setText("Friend's Location"))
+      friendMarkerRef.current = new mapboxgl.Marker(sharedEl)
+        .setLngLat([friend.position.lng, friend.position.lat])
+        .setPopup(new mapboxgl.Popup())
         .addTo(map.current);
+    }
+    friendMarkerRef.current.setLngLat([friend.position.lng, friend.position.lat]);
+    // An approximate position is drawn hollow so it is not mistaken for where they actually stand
+    friendMarkerRef.current.getElement().style.borderStyle = friend.precision === 'exact' ? 'solid' : 'dashed';
+    friendMarkerRef.current.getElement().style.opacity = friend.precision === 'exact' ? '1' : '0.75';
+    friendMarkerRef.current
+      .getPopup()
+      .setText(
+        friend.precision === 'exact'
+          ? `${friend.name}'s location`
+          : describeSharedPosition(friend.name, friend.precision, friend.position.label ?? null)
+      );
 
-      // Fit map to show both locations
-      if (userLocation) {
-        const bounds = new mapboxgl.LngLatBounds(
-          [userLocation.lng, userLocation.lat],
-          [sharedLocation.lng, sharedLocation.lat]
-        );
-        map.current.fitBounds(bounds, { padding: 80 });
-      } else {
-        map.current.flyTo({
-          center: [sharedLocation.lng, sharedLocation.lat],
-          zoom: 17,
-          essential: true
-        });
-      }
+    if (fittedFriendRef.current === friend.key) return;
+    fittedFriendRef.current = friend.key;
+    // Fit map to show both locations
+    if (userLocation) {
+      const bounds = new mapboxgl.LngLatBounds(
+        [userLocation.lng, userLocation.lat],
+        [friend.position.lng, friend.position.lat]
+      );
+      map.current.fitBounds(bounds, { padding: 80 });
+    } else {
+      map.current.flyTo({
+        center: [friend.position.lng, friend.position.lat],
+        zoom: 17,
+        essential: true
+      });
     }
-  }, [sharedLocation, userLocation]);
+  }, [friend, userLocation, mapLoaded]);
 
-  // Clustering effect
+  // A meetup link can outlive the meetup's row, which is cleared a day after it ends
   useEffect(() => {
-    if (locations.length > 0) {
-      const points = locations.map(location => ({
-        type: "Feature" as const,
-        properties: {
-          cluster: false,
-          locationId: location.id,
-          category: location.category,
-          name: location.name
-        },
-        geometry: {
-          type: "Point" as const,
-          coordinates: [location.longitude, location.latitude]
-        }
-      }));
+    if (meetupStatus !== 'missing') return;
+    followMeetup(null);
+    toast({
+      title: "Meetup Not Found",
+      description: "This meetup has ended or no longer exists.",
+      duration: 4000
+    });
+  }, [meetupStatus, toast]);
 
-      const cluster = new Supercluster({
-        radius: 40,
-        maxZoom: 18
-      });
-      cluster.load(points);
-      setSupercluster(cluster);
+  // Re-estimate everyone's walking time whenever someone moves
+  useEffect(() => {
+    if (!meetup || !meetupDestination) {
+      setMeetupArrivals({});
+      return;
     }
-  }, [locations]);
+    let cancelled = false;
+    estimateArrivals(campusGraph, meetup.participants, meetupDestination, routingProfile).then(arrivals => {
+      if (!cancelled) setMeetupArrivals(arrivals);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [meetup, meetupDestination, campusGraph, routingProfile]);
 
-  // Update map bounds on move
+  // One coloured pin per participant still sharing, apart from this browser's own
   useEffect(() => {
-    if (map.current && supercluster) {
-      map.current.on('moveend', () => {
-        const bounds = map.current!.getBounds();
-        setMapBounds([
-          bounds.getWest(),
-          bounds.getSouth(),
-          bounds.getEast(),
-          bounds.getNorth()
-        ]);
+    const markers = meetupMarkersRef.current;
+    const shown = new Set<string>();
+
+    if (map.current && meetup) {
+      meetup.participants.forEach((participant, index) => {
+        if (!participant.position || participant.id === ownMeetupShareId) return;
+        if (liveShareState(participant, Date.now()) !== 'live') return;
+        shown.add(participant.id);
+
+        const { lat, lng } = participant.position;
+        let marker = markers.get(participant.id);
+        if (!marker) {
+          const el = createParticipantElement(participant.displayName, participantColor(index), participant.precision !== 'exact');
+          marker = new mapboxgl.Marker(el).setLngLat([lng, lat]).setPopup(new mapboxgl.Popup()).addTo(map.current);
+          markers.set(participant.id, marker);
+        }
+        marker.setLngLat([lng, lat]);
+        marker
+          .getPopup()
+          .setText(
+            `${participant.position.label ? describeSharedPosition(participant.displayName, participant.precision, participant.position.label) : participant.displayName} · ${formatArrival(meetupArrivals[participant.id])}`
+          );
       });
-      // Initial bounds
-      const bounds = map.current.getBounds();
-      setMapBounds([
-        bounds.getWest(),
-        bounds.getSouth(),
-        bounds.getEast(),
-        bounds.getNorth()
-      ]);
     }
-  }, [supercluster]);
 
-  // Update clusters on map move
+    markers.forEach((marker, id) => {
+      if (shown.has(id)) return;
+      marker.remove();
+      markers.delete(id);
+    });
+
+    // Frame the destination and everyone on their way, once per meetup
+    if (!map.current || !meetup || !meetupDestination || fittedMeetupRef.current === meetup.id) return;
+    fittedMeetupRef.current = meetup.id;
+    const bounds = new mapboxgl.LngLatBounds(
+      [meetupDestination.longitude, meetupDestination.latitude],
+      [meetupDestination.longitude, meetupDestination.latitude]
+    );
+    meetup.participants.forEach(participant => {
+      if (participant.position) bounds.extend([participant.position.lng, participant.position.lat]);
+    });
+    if (userLocation) bounds.extend([userLocation.lng, userLocation.lat]);
+    map.current.fitBounds(bounds, { padding: 80, maxZoom: 17 });
+  }, [meetup, meetupArrivals, meetupDestination, ownMeetupShareId, mapLoaded, userLocation]);
+
+  // Keep a walk to a friend pointed at where they are now
+  const followFriendRoute = () => {
+    if (!activeRoute || activeRoute.destination || !friend || !userLocation || reroutingRef.current) return;
+    const [lng, lat] = activeRoute.route.coordinates[activeRoute.route.coordinates.length - 1];
+    if (haversineDistance({ lat, lng }, friend.position) < FRIEND_REROUTE_M) return;
+
+    reroutingRef.current = true;
+    Promise.resolve(routeToFriend(userLocation, activeRoute.profile, false)).finally(() => {
+      reroutingRef.current = false;
+    });
+  };
+  // Only the friend moving triggers this; the user's own moves go through off-route detection
+  const followFriendRouteRef = useRef(followFriendRoute);
+  followFriendRouteRef.current = followFriendRoute;
+  useEffect(() => {
+    followFriendRouteRef.current();
+  }, [friend]);
+
+  // Sign the shown place's link now, so sharing it does not have to wait for the signature
   useEffect(() => {
-    if (!map.current || !supercluster || !mapBounds.length) return;
-
-    // Remove old markers
-    markersRef.current.forEach(marker => marker.remove());
-    markersRef.current = [];
-
-    const zoom = map.current.getZoom();
-    const clusters = supercluster.getClusters(mapBounds, Math.round(zoom));
-    setClusters(clusters);
-
-    clusters.forEach(cluster => {
-      const [lng, lat] = cluster.geometry.coordinates;
-      if (cluster.properties.cluster) {
-        // Cluster marker
-        const count = cluster.properties.point_count;
-        const clusterEl = document.createElement('div');
-        clusterEl.style.width = '40px';
-        clusterEl.style.height = '40px';
-        clusterEl.style.borderRadius = '50%';
-        clusterEl.style.background = '#6366f1';
-        clusterEl.style.display = 'flex';
-        clusterEl.style.alignItems = 'center';
-        clusterEl.style.justifyContent = 'center';
-        clusterEl.style.color = 'white';
-        clusterEl.style.fontWeight = 'bold';
-        clusterEl.style.fontSize = '1rem';
-        clusterEl.textContent = count;
-
-        const marker = new mapboxgl.Marker(clusterEl)
-          .setLngLat([lng, lat])
-          .addTo(map.current!);
-
-        clusterEl.addEventListener('click', () => {
-          const expansionZoom = Math.min(
-            supercluster.getClusterExpansionZoom(cluster.properties.cluster_id),
-            18
-          );
-          map.current!.flyTo({ center: [lng, lat], zoom: expansionZoom });
-        });
+    if (selectedLocation) preparePlaceLink(selectedLocation.id, loadShareName() || null);
+  }, [selectedLocation]);
 
-        markersRef.current.push(marker);
-      } else {
-        // Single location marker (same as your blip + label)
-        const wrapper = document.createElement('div');
-        wrapper.style.display = 'flex';
-        wrapper.style.flexDirection = 'column';
-        wrapper.style.alignItems = 'center';
-
-        const label = document.createElement('span');
-        label.textContent = cluster.properties.name;
-        label.style.fontSize = '1rem';
-        label.style.fontWeight = '700';
-        label.style.color = '#222';
-        label.style.background = 'rgba(255,255,255,0.95)';
-        label.style.borderRadius = '10px';
-        label.style.padding = '4px 12px';
-        label.style.marginBottom = '6px';
-        label.style.boxShadow = '0 2px 8px rgba(0,0,0,0.10)';
-        label.style.maxWidth = '140px';
-        label.style.textAlign = 'center';
-        label.style.whiteSpace = 'nowrap';
-        label.style.overflow = 'hidden';
-        label.style.textOverflow = 'ellipsis';
-        label.style.letterSpacing = '0.02em';
-
-        const blip = document.createElement('div');
-        blip.style.width = '28px';
-        blip.style.height = '28px';
-        blip.style.borderRadius = '50%';
-        blip.style.background = `radial-gradient(circle at 10px 10px, ${categoryColors[cluster.properties.category as keyof typeof categoryColors]} 70%, #fff 100%)`;
-        blip.style.border = '3px solid #fff';
-        blip.style.boxShadow = `0 2px 8px ${categoryColors[cluster.properties.category as keyof typeof categoryColors]}`;
-        blip.style.display = 'flex';
-        blip.style.alignItems = 'center';
-        blip.style.justifyContent = 'center';
-
-        wrapper.appendChild(label);
-        wrapper.appendChild(blip);
-
-        const marker = new mapboxgl.Marker(wrapper)
-          .setLngLat([lng, lat])
-          .addTo(map.current!);
-
-        wrapper.addEventListener('click', () => {
-          setSelectedLocation(locations.find(l => l.id === cluster.properties.locationId)!);
-          map.current?.flyTo({
-            center: [lng, lat],
-            zoom: 18,
-            essential: true
-          });
-        });
+  // Meeting points can be shared straight from their list too
+  useEffect(() => {
+    meetingPoints.forEach(({ location }) => preparePlaceLink(location.id, loadShareName() || null));
+  }, [meetingPoints]);
 
-        markersRef.current.push(marker);
-      }
+  // Keep the location source in step with the category filter
+  useEffect(() => {
+    locationsRef.current = locations;
+    locationDataRef.current = locationsToGeoJSON(visibleLocations);
+    if (map.current) {
+      setLocationData(map.current, locationDataRef.current);
+    }
+  }, [locations, visibleLocations]);
+
+  // Categories usually arrive after the map; give their markers images, then redraw the pins
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance || !mapLoaded || categories.length === 0) return;
+    addCategoryImages(mapInstance, categories).then(() => setLocationData(mapInstance, locationDataRef.current));
+  }, [categories, mapLoaded]);
+
+  useEffect(() => {
+    buildingDataRef.current = buildingsToGeoJSON(buildings);
+    if (map.current) {
+      setBuildingData(map.current, buildingDataRef.current);
+    }
+  }, [buildings]);
+
+  useEffect(() => {
+    indoorDataRef.current = indoorData;
+    indoorBuildingsRef.current = buildings.filter(building =>
+      indoorData.floors.some(floor => floor.buildingId === building.id)
+    );
+    roomDataRef.current = roomsToGeoJSON(indoorData.rooms);
+    if (map.current) {
+      setRoomData(map.current, roomDataRef.current);
+    }
+  }, [indoorData, buildings]);
+
+  // Entering a different building shows the selected room's floor, or its default floor;
+  // leaving hides the floor plans
+  const selectedRoomFloorId = selectedRoom?.floor.id;
+  useEffect(() => {
+    setActiveFloorId(current => {
+      if (focusedFloors.length === 0) return null;
+      if (focusedFloors.some(floor => floor.id === current)) return current;
+      const roomFloor = focusedFloors.find(floor => floor.id === selectedRoomFloorId);
+      return (roomFloor ?? defaultFloor(focusedFloors))?.id ?? null;
     });
-  }, [supercluster, mapBounds, locations]);
+  }, [focusedFloors, selectedRoomFloorId]);
 
-  // Update map style
   useEffect(() => {
+    indoorViewRef.current = { floorId: activeFloorId, highlightedRoomId: selectedRoom?.room.id ?? null };
     if (map.current) {
-      map.current.setStyle(mapStyle);
+      setIndoorView(map.current, indoorViewRef.current);
     }
+  }, [activeFloorId, selectedRoom]);
+
+  // Switch between flat footprints and 3D extrusions, tilting the camera to match
+  useEffect(() => {
+    show3DRef.current = show3D;
+    if (!map.current) return;
+    setBuildingsExtruded(map.current, show3D);
+    map.current.easeTo({ pitch: show3D ? EXTRUDED_PITCH : 0 });
+  }, [show3D]);
+
+  // Update map style and remember it for the next visit
+  useEffect(() => {
+    localStorage.setItem(MAP_STYLE_STORAGE_KEY, mapStyle);
+    layerRegistryRef.current?.setStyle(mapStyle);
   }, [mapStyle]);
 
   if (showTokenInput) {
@@ -816,15 +1487,41 @@ const CampusMap = () => {
     <div className="relative w-full min-h-[400px] h-screen sm:h-[calc(100vh-0px)] bg-background">
       {/* Search and Controls */}
       <div className="absolute top-4 left-2 right-2 sm:left-4 sm:right-4 z-10 space-y-4">
+        {previewing && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-amber-500 px-4 py-2 text-sm text-white shadow" role="status">
+            <span className="font-medium">Previewing unpublished changes ({drafts.length}). Students still see the published map.</span>
+            <div className="flex gap-2">
+              <Button size="sm" variant="secondary" onClick={() => navigate('/admin')}>
+                Back to admin
+              </Button>
+              <Button size="sm" variant="secondary" onClick={exitPreview}>
+                Exit preview
+              </Button>
+            </div>
+          </div>
+        )}
+        <LiveShareBanner
+          share={watchedShare}
+          error={shareLinkError ?? (watchedShareStatus === 'missing' ? 'This live location is no longer available.' : null)}
+          onShow={showFriend}
+          onWalkTo={userLocation ? handleWalkToFriend : undefined}
+          onMeetHalfway={userLocation ? handleMeetHalfway : undefined}
+          onClose={() => {
+            setWatchedShareId(null);
+            setShareLinkError(null);
+          }}
+        />
         <Card className="p-4 bg-card/95 backdrop-blur-sm border-border/50">
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
               <Input
                 variant="search"
-                placeholder="Search campus locations..."
+                placeholder="Search places or rooms, e.g. SCI-LT3"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                onPaste={handleSearchPaste}
                 className="pl-10 pr-10 py-2 rounded-lg border border-border bg-white/80 shadow focus:ring-2 focus:ring-primary transition"
                 aria-label="Search campus locations"
               />
@@ -863,6 +1560,24 @@ const CampusMap = () => {
         >
           Dark
         </Button>
+        <Button
+          size="sm"
+          variant={show3D ? 'default' : 'outline'}
+          onClick={() => setShow3D(!show3D)}
+          aria-pressed={show3D}
+        >
+          <Box className="h-4 w-4 mr-2" />
+          3D
+        </Button>
+        <Button
+          size="sm"
+          variant={showItinerary ? 'default' : 'outline'}
+          onClick={() => (showItinerary ? handleCloseItinerary() : handleOpenItinerary())}
+        >
+          <Route className="h-4 w-4 mr-2" />
+          Itinerary{itineraryStops.length > 0 ? ` (${itineraryStops.length})` : ''}
+        </Button>
+        <ExportMenu locations={filteredLocations} categoryLookup={categoryLookup} route={exportableRoute} />
             </div>
           </div>
         </Card>
@@ -870,8 +1585,33 @@ const CampusMap = () => {
         {/* Search Results */}
         {searchQuery && (
           <Card className="p-2 bg-white/95 backdrop-blur border border-border rounded-lg shadow-lg max-h-64 overflow-y-auto mt-2">
-            {filteredLocations.length > 0 ? (
+            {matchedRooms.length > 0 || filteredLocations.length > 0 ? (
               <div className="space-y-1">
+                {venueSearch.ambiguous && (
+                  <p className="px-3 pt-2 text-xs text-muted-foreground">
+                    "{searchQuery.trim()}" could be more than one place. Did you mean:
+                  </p>
+                )}
+                {matchedRooms.map(resolved => (
+                  <div
+                    key={resolved.room.id}
+                    className="p-3 rounded-lg hover:bg-primary/10 cursor-pointer transition-colors"
+                    onClick={() => handleRoomSelect(resolved)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <DoorOpen className="h-5 w-5 text-primary shrink-0" />
+                      <div>
+                        <h4 className="font-semibold">
+                          {resolved.room.code}{resolved.room.name ? ` · ${resolved.room.name}` : ''}
+                        </h4>
+                        <p className="text-xs text-muted-foreground">
+                          {resolved.location.name} · {resolved.floor.name}
+                          {resolved.entrance?.name ? ` · via ${resolved.entrance.name}` : ''}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                ))}
                 {filteredLocations.map(location => (
                   <div
                     key={location.id}
@@ -880,29 +1620,25 @@ const CampusMap = () => {
                   >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
-                        <span
-                          style={{
-                            background: categoryColors[location.category as keyof typeof categoryColors],
-                            borderRadius: '50%',
-                            padding: '4px'
-                          }}
-                        >
-                          {/* Initials instead of icons */}
-                          <span className="text-white font-bold text-sm">
-                            {getCategoryInitial(location.category)}
-                          </span>
-                        </span>
+                        {photos[location.id]?.length ? (
+                          <img
+                            src={photos[location.id][0].thumbnailUrl}
+                            alt=""
+                            loading="lazy"
+                            className="h-10 w-10 shrink-0 rounded-md object-cover"
+                          />
+                        ) : (
+                          <CategoryIcon category={categoryLookup[location.category]} />
+                        )}
                         <div>
                           <h4 className="font-semibold">{location.name}</h4>
                           <p className="text-xs text-muted-foreground">{location.description}</p>
                         </div>
                       </div>
-                      <Badge 
-                        style={{ backgroundColor: categoryColors[location.category as keyof typeof categoryColors] }}
-                        className="text-white"
-                      >
-                        {location.category}
-                      </Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <CategoryBadge slug={location.category} lookup={categoryLookup} />
+                        <OpenStatusBadge status={openStatuses[location.id]} now={now} />
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -920,44 +1656,42 @@ const CampusMap = () => {
           <Card className="p-4 bg-card/95 backdrop-blur-sm border-border/50">
             <div className="flex justify-between items-start mb-3">
               <div className="flex items-center gap-2">
-                {categoryIcons[selectedLocation.category as keyof typeof categoryIcons] && (
-                  <span
-                    style={{
-                      background: categoryColors[selectedLocation.category as keyof typeof categoryColors],
-                      borderRadius: '50%',
-                      padding: '6px'
-                    }}
-                  >
-                    {React.createElement(categoryIcons[selectedLocation.category as keyof typeof categoryIcons], {
-                      className: "w-5 h-5 text-white"
-                    })}
-                  </span>
-                )}
+                <CategoryIcon category={categoryLookup[selectedLocation.category]} className="w-5 h-5" padding={6} />
                 <div>
                   <h3 className="font-bold text-lg">{selectedLocation.name}</h3>
-                  <Badge 
-                    style={{ backgroundColor: categoryColors[selectedLocation.category as keyof typeof categoryColors] }}
-                    className="text-white mt-1"
-                  >
-                    {selectedLocation.category}
-                  </Badge>
+                  <CategoryBadge slug={selectedLocation.category} lookup={categoryLookup} className="mt-1" />
                 </div>
               </div>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setSelectedLocation(null)}
+                onClick={handleCloseLocation}
                 className="text-muted-foreground hover:text-foreground"
               >
                 ×
               </Button>
             </div>
+            {photos[selectedLocation.id]?.length > 0 && (
+              <PhotoCarousel photos={photos[selectedLocation.id]} locationName={selectedLocation.name} />
+            )}
             <p className="text-muted-foreground mb-4">{selectedLocation.description}</p>
+            <OpenStatusBadge status={openStatuses[selectedLocation.id]} now={now} detailed className="flex mb-4 -mt-2" />
+            {selectedRoom && selectedRoom.location.id === selectedLocation.id && (
+              <div className="mb-4 rounded-lg bg-primary/10 p-2 text-sm">
+                <p className="font-semibold">
+                  {selectedRoom.room.code}{selectedRoom.room.name ? ` · ${selectedRoom.room.name}` : ''}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {selectedRoom.floor.name}
+                  {selectedRoom.entrance?.name ? ` · Nearest entrance: ${selectedRoom.entrance.name}` : ''}
+                </p>
+              </div>
+            )}
             <div className="flex gap-2">
               <Button 
                 size="sm" 
                 className="bg-gradient-to-r from-primary to-secondary"
-                onClick={() => handleGetDirections(selectedLocation)}
+                onClick={() => requestDirections(selectedLocation)}
               >
                 <Navigation className="h-4 w-4 mr-2" />
                 Get Directions
@@ -970,34 +1704,138 @@ const CampusMap = () => {
                 <Share2 className="h-4 w-4 mr-2" />
                 Share Location
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleAddToItinerary(selectedLocation)}
+                aria-label="Add to itinerary"
+              >
+                <ListPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setMeetupDialog({ mode: 'create', destination: selectedLocation })}
+                aria-label="Start a meetup here"
+              >
+                <Users className="h-4 w-4" />
+              </Button>
+              {isAdmin && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPhotoUploadLocation(selectedLocation)}
+                  aria-label="Add photos"
+                >
+                  <ImagePlus className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </Card>
         </div>
       )}
 
-      {/* Legend for Categories (bottom-left, dismissable) */}
-      {showLegend && (
-        <div className="absolute bottom-4 left-2 sm:left-4 z-20 bg-white/90 rounded-lg shadow p-3 flex gap-4 flex-wrap items-center">
-          {Object.entries(categoryIcons).map(([cat, Icon]) => (
-            <div key={cat} className="flex items-center gap-1">
-              <span style={{
-                background: categoryColors[cat as keyof typeof categoryColors],
-                borderRadius: '50%',
-                padding: '4px'
-              }}>
-                <Icon className="w-4 h-4 text-white" />
-              </span>
-              <span className="text-xs">{cat.replace('-', ' ')}</span>
-            </div>
-          ))}
-          <button
-            className="ml-2 px-2 py-1 rounded text-xs bg-muted-foreground text-white hover:bg-destructive transition"
-            onClick={() => setShowLegend(false)}
-            aria-label="Dismiss legend"
-          >
-            ×
-          </button>
-        </div>
+      <PhotoUploadDialog
+        location={photoUploadLocation}
+        existingCount={photoUploadLocation ? photos[photoUploadLocation.id]?.length ?? 0 : 0}
+        onOpenChange={open => !open && setPhotoUploadLocation(null)}
+        onUploaded={() => fetchLocationPhotos().then(setPhotos)}
+      />
+
+      {/* Multi-stop Itinerary */}
+      {showItinerary && (
+        <ItineraryPanel
+          stops={itineraryStops}
+          itinerary={itinerary}
+          optimiseOrder={optimiseItinerary}
+          planning={planningItinerary}
+          onStopsChange={handleItineraryStopsChange}
+          onOptimiseOrderChange={setOptimiseItinerary}
+          onPlan={handlePlanItinerary}
+          onClose={handleCloseItinerary}
+        />
+      )}
+
+      {showMeetHalfway && friend && (
+        <MeetHalfwayPanel
+          friendName={friend.name}
+          suggestions={meetingPoints}
+          categories={listCategories(categories, locations)}
+          lookup={categoryLookup}
+          category={meetCategory}
+          onCategoryChange={setMeetCategory}
+          onDirections={location => {
+            setShowMeetHalfway(false);
+            requestDirections(location);
+          }}
+          onShare={handleShareLocation}
+          onClose={() => setShowMeetHalfway(false)}
+        />
+      )}
+
+      {meetup && !showItinerary && !showMeetHalfway && (
+        <MeetupPanel
+          meetup={meetup}
+          destination={meetupDestination}
+          arrivals={meetupArrivals}
+          ownShareId={ownMeetupShareId}
+          onJoin={() => meetupDestination && setMeetupDialog({ mode: 'join', destination: meetupDestination })}
+          onInvite={() => savedMeetup && handleInviteToMeetup(savedMeetup.link)}
+          onDirections={() => meetupDestination && requestDirections(meetupDestination)}
+          onLeave={handleLeaveMeetup}
+        />
+      )}
+
+      {/* Turn-by-turn Directions */}
+      {activeRoute && (
+        <DirectionsPanel
+          destinationName={activeRoute.destinationName}
+          directions={activeRoute.directions}
+          duration={activeRoute.route.duration}
+          progress={routeProgress}
+          isOffRoute={isOffRoute}
+          profile={routingProfile}
+          routeProfile={activeRoute.profile}
+          onProfileChange={handleRoutingProfileChange}
+          travelTimes={travelTimes}
+          closingWarning={arrivalWarning(
+            (activeRoute.destination && openStatuses[activeRoute.destination.id]) ?? { state: 'unknown' },
+            now,
+            routeProgress?.remainingDuration ?? activeRoute.route.duration
+          )}
+          onClose={handleCloseDirections}
+        />
+      )}
+
+      {/* Category Filter (bottom-left, dismissable) */}
+      {showLegend ? (
+        <CategoryFilter
+          categories={listCategories(categories, locations)}
+          lookup={categoryLookup}
+          counts={categoryCounts}
+          activeCategories={activeCategories}
+          onChange={handleCategoriesChange}
+          openNow={openNow}
+          onOpenNowChange={setOpenNow}
+          onDismiss={() => setShowLegend(false)}
+        />
+      ) : (
+        <button
+          className="absolute bottom-4 left-2 sm:left-4 z-20 bg-white/90 rounded-lg shadow px-3 py-2 text-xs hover:bg-primary/10 transition"
+          onClick={() => setShowLegend(true)}
+        >
+          Categories{activeCategories.length > 0 ? ` (${activeCategories.length})` : ''}
+        </button>
+      )}
+
+      {/* Floor switcher for the building in view */}
+      {focusedBuildingId && focusedFloors.length > 0 && (
+        <FloorSwitcher
+          buildingName={indoorBuildingsRef.current.find(b => b.id === focusedBuildingId)?.name ?? 'building'}
+          floors={focusedFloors}
+          activeFloorId={activeFloorId}
+          onChange={setActiveFloorId}
+        />
       )}
 
       {/* Map Container */}
@@ -1021,12 +1859,30 @@ const CampusMap = () => {
       </button>
       <Button
         className="fixed bottom-20 right-4 sm:right-6 z-50 bg-green-600 hover:bg-green-700 text-white rounded-full shadow-lg p-3 flex items-center gap-2 transition"
-        onClick={handleShareMyLocation}
-        aria-label="Share My Location"
+        onClick={() => setShowLiveShare(true)}
+        aria-label={ownShare ? 'Sharing Live Location' : 'Share My Location'}
       >
-        <Share2 className="w-5 h-5" />
-        Share My Location
+        <Share2 className={`w-5 h-5 ${ownShare ? 'animate-pulse' : ''}`} />
+        {ownShare ? 'Sharing Live' : 'Share My Location'}
       </Button>
+      <LiveShareDialog
+        open={showLiveShare}
+        onOpenChange={setShowLiveShare}
+        share={ownShare}
+        hasLocation={!!userLocation}
+        onStart={handleStartSharing}
+        onStop={handleStopSharing}
+        onShareLink={handleShareLiveLink}
+      />
+
+      <MeetupDialog
+        open={!!meetupDialog}
+        onOpenChange={open => !open && setMeetupDialog(null)}
+        mode={meetupDialog?.mode ?? 'create'}
+        destinationName={meetupDialog?.destination.name ?? ''}
+        hasLocation={!!userLocation}
+        onSubmit={handleMeetupSubmit}
+      />
 
       {/* Feedback Button */}
       <button
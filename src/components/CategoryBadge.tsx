@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { categoryColor, categoryLabel, type CategoryLookup } from '@/lib/categories';
+
+interface CategoryBadgeProps {
+  slug: string;
+  lookup: CategoryLookup;
+  className?: string;
+}
+
+const CategoryBadge = ({ slug, lookup, className }: CategoryBadgeProps) => (
+  <Badge style={{ backgroundColor: categoryColor(lookup[slug]) }} className={cn('text-white', className)}>
+    {categoryLabel(lookup, slug)}
+  </Badge>
+);
+
+export default CategoryBadge;
@@ -0,0 +1,89 @@
+import { Clock } from 'lucide-react';
+import CategoryIcon from '@/components/CategoryIcon';
+import { cn } from '@/lib/utils';
+import { categoryLabel, type CategoryLookup } from '@/lib/categories';
+
+interface CategoryFilterProps {
+  categories: string[];
+  lookup: CategoryLookup;
+  counts: Record<string, number>;
+  // Empty means no filter: every category is shown
+  activeCategories: string[];
+  onChange: (categories: string[]) => void;
+  // Only show places that are open right now
+  openNow: boolean;
+  onOpenNowChange: (openNow: boolean) => void;
+  onDismiss: () => void;
+}
+
+const CategoryFilter = ({ categories, lookup, counts, activeCategories, onChange, openNow, onOpenNowChange, onDismiss }: CategoryFilterProps) => {
+  const toggleCategory = (category: string) => {
+    onChange(
+      activeCategories.includes(category)
+        ? activeCategories.filter(c => c !== category)
+        : [...activeCategories, category]
+    );
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 left-2 sm:left-4 z-20 bg-white/90 rounded-lg shadow p-3 flex gap-2 flex-wrap items-center max-w-[calc(100%-5rem)]"
+      role="group"
+      aria-label="Filter by category"
+    >
+      <button
+        type="button"
+        className={cn(
+          'flex items-center gap-1 px-2 py-1 rounded-full text-xs border transition',
+          openNow ? 'bg-green-600 text-white border-green-600' : 'border-border hover:bg-green-600/10'
+        )}
+        onClick={() => onOpenNowChange(!openNow)}
+        aria-pressed={openNow}
+      >
+        <Clock className="w-3 h-3" />
+        Open now
+      </button>
+      <button
+        type="button"
+        className={cn(
+          'px-2 py-1 rounded-full text-xs border transition',
+          activeCategories.length === 0 ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-primary/10'
+        )}
+        onClick={() => onChange([])}
+        aria-pressed={activeCategories.length === 0}
+      >
+        All
+      </button>
+      {categories.map(category => {
+        const isActive = activeCategories.includes(category);
+        return (
+          <button
+            key={category}
+            type="button"
+            className={cn(
+              'flex items-center gap-1 pl-1 pr-2 py-0.5 rounded-full text-xs border transition',
+              isActive ? 'border-primary bg-primary/10 font-semibold' : 'border-transparent hover:bg-primary/10',
+              activeCategories.length > 0 && !isActive && 'opacity-60',
+              lookup[category]?.parentSlug && 'ml-2'
+            )}
+            onClick={() => toggleCategory(category)}
+            aria-pressed={isActive}
+          >
+            <CategoryIcon category={lookup[category]} />
+            <span>{categoryLabel(lookup, category)}</span>
+            <span className="text-muted-foreground">({counts[category] ?? 0})</span>
+          </button>
+        );
+      })}
+      <button
+        className="ml-2 px-2 py-1 rounded text-xs bg-muted-foreground text-white hover:bg-destructive transition"
+        onClick={onDismiss}
+        aria-label="Dismiss legend"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default CategoryFilter;
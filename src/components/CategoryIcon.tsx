@@ -0,0 +1,21 @@
+import { categoryColor, categoryIcon, type Category } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+interface CategoryIconProps {
+  category: Category | undefined;
+  // Classes for the icon itself, e.g. its size
+  className?: string;
+  padding?: number;
+}
+
+/** The category's icon in a round chip of its colour. */
+const CategoryIcon = ({ category, className, padding = 4 }: CategoryIconProps) => {
+  const Icon = categoryIcon(category);
+  return (
+    <span style={{ background: categoryColor(category), borderRadius: '50%', padding: `${padding}px` }}>
+      <Icon className={cn('w-4 h-4 text-white', className)} />
+    </span>
+  );
+};
+
+export default CategoryIcon;
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { cn } from '@/lib/utils';
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerLeftDown,
+  CornerRightDown,
+  CornerUpLeft,
+  CornerUpRight,
+  Accessibility,
+  Clock,
+  Flag,
+  Footprints,
+  X
+} from 'lucide-react';
+import { formatDistance, formatDuration, type Maneuver, type RouteDirections, type RouteProgress } from '@/lib/directions';
+import type { RoutingProfile } from '@/lib/routing';
+
+export interface TravelTime {
+  label: string;
+  duration: number | null;
+}
+
+interface DirectionsPanelProps {
+  destinationName: string;
+  directions: RouteDirections;
+  duration: number;
+  progress: RouteProgress | null;
+  isOffRoute: boolean;
+  // Profile the user picked, and the one the shown route was actually planned with
+  profile: RoutingProfile;
+  routeProfile: RoutingProfile;
+  onProfileChange: (profile: RoutingProfile) => void;
+  travelTimes: TravelTime[] | null;
+  // Set when the destination is closed or closes soon after arrival
+  closingWarning: string | null;
+  onClose: () => void;
+}
+
+const maneuverIcons: Record<Maneuver, React.ComponentType<{ className?: string }>> = {
+  depart: Footprints,
+  straight: ArrowUp,
+  'slight-left': ArrowUpLeft,
+  left: CornerUpLeft,
+  'sharp-left': CornerLeftDown,
+  'slight-right': ArrowUpRight,
+  right: CornerUpRight,
+  'sharp-right': CornerRightDown,
+  arrive: Flag
+};
+
+const DirectionsPanel = ({
+  destinationName,
+  directions,
+  duration,
+  progress,
+  isOffRoute,
+  profile,
+  routeProfile,
+  onProfileChange,
+  travelTimes,
+  closingWarning,
+  onClose
+}: DirectionsPanelProps) => {
+  const isMobile = useIsMobile();
+  const currentStepRef = useRef<HTMLLIElement>(null);
+  const currentStepIndex = progress?.currentStepIndex ?? 0;
+  const remainingDistance = progress ? progress.remainingDistance : directions.distance;
+  const remainingDuration = progress ? progress.remainingDuration : duration;
+
+  // Keep the active manoeuvre in view as the user walks
+  useEffect(() => {
+    currentStepRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [currentStepIndex]);
+
+  const summary = (
+    <>
+      <span className="font-semibold text-foreground">{formatDistance(remainingDistance)}</span>
+      {' · '}
+      <span>{formatDuration(remainingDuration)} remaining</span>
+      {isOffRoute && (
+        <span className="block text-xs mt-1 font-medium text-destructive">Off route, recalculating...</span>
+      )}
+      {travelTimes && (
+        <span className="block text-xs mt-1">
+          {travelTimes.map(t => `${t.label}: ${t.duration !== null ? `${t.duration} min` : 'N/A'}`).join(' | ')}
+        </span>
+      )}
+    </>
+  );
+
+  const profileToggle = (
+    <div className="flex gap-2 px-4 pb-2">
+      <Button
+        size="sm"
+        variant={profile === 'walking' ? 'default' : 'outline'}
+        onClick={() => onProfileChange('walking')}
+      >
+        <Footprints className="h-4 w-4 mr-2" />
+        Standard
+      </Button>
+      <Button
+        size="sm"
+        variant={profile === 'step-free' ? 'default' : 'outline'}
+        onClick={() => onProfileChange('step-free')}
+      >
+        <Accessibility className="h-4 w-4 mr-2" />
+        Step-free
+      </Button>
+    </div>
+  );
+
+  const stepFreeWarning = profile === 'step-free' && routeProfile !== 'step-free' && (
+    <p className="mx-4 mb-2 rounded-md bg-destructive/10 p-2 text-xs font-medium text-destructive" role="alert">
+      No step-free route exists to {destinationName}. This route may include steps, kerbs or steep slopes.
+    </p>
+  );
+
+  const hoursWarning = closingWarning && (
+    <p className="mx-4 mb-2 flex items-center gap-2 rounded-md bg-amber-500/10 p-2 text-xs font-medium text-amber-700" role="status">
+      <Clock className="h-4 w-4 shrink-0" />
+      {destinationName}: {closingWarning}
+    </p>
+  );
+
+  const stepList = (
+    <div className="max-h-[40vh] sm:max-h-[50vh] overflow-y-auto">
+      <ol className="space-y-1 p-2">
+        {directions.steps.map((step, index) => {
+          const Icon = maneuverIcons[step.maneuver];
+          const isCurrent = index === currentStepIndex;
+          return (
+            <li
+              key={`${step.startDistance}-${index}`}
+              ref={isCurrent ? currentStepRef : undefined}
+              className={cn(
+                'flex items-center gap-3 rounded-lg p-2 text-sm transition-colors',
+                isCurrent && 'bg-primary/10 font-semibold',
+                index < currentStepIndex && 'opacity-50'
+              )}
+              aria-current={isCurrent ? 'step' : undefined}
+            >
+              <Icon className={cn('h-5 w-5 shrink-0', isCurrent ? 'text-primary' : 'text-muted-foreground')} />
+              <span className="flex-1">{step.instruction}</span>
+              {step.distance > 0 && (
+                <span className="text-xs text-muted-foreground">{formatDistance(step.distance)}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open modal={false} shouldScaleBackground={false} onOpenChange={open => !open && onClose()}>
+        <DrawerContent>
+          <DrawerHeader className="text-left">
+            <DrawerTitle>To {destinationName}</DrawerTitle>
+            <DrawerDescription>{summary}</DrawerDescription>
+          </DrawerHeader>
+          {profileToggle}
+          {stepFreeWarning}
+          {hoursWarning}
+          {stepList}
+          <div className="p-4 pt-2">
+            <Button variant="outline" className="w-full" onClick={onClose}>
+              End directions
+            </Button>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <div className="absolute top-36 right-4 w-80 z-10">
+      <Card className="bg-card/95 backdrop-blur-sm border-border/50">
+        <div className="flex justify-between items-start p-4 pb-2">
+          <div>
+            <h3 className="font-bold text-lg">To {destinationName}</h3>
+            <p className="text-sm text-muted-foreground">{summary}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="End directions"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {profileToggle}
+        {stepFreeWarning}
+        {hoursWarning}
+        {stepList}
+      </Card>
+    </div>
+  );
+};
+
+export default DirectionsPanel;
@@ -0,0 +1,75 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import type { CategoryLookup } from '@/lib/categories';
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  downloadExport,
+  exportLocations,
+  exportWalkingRoute
+} from '@/lib/map-export';
+import type { WalkingRoute } from '@/lib/routing';
+import type { CampusLocation } from '@/types/campus';
+
+interface ExportMenuProps {
+  // The locations currently listed, i.e. after search and filters
+  locations: CampusLocation[];
+  categoryLookup: CategoryLookup;
+  // The route drawn on the map, if any
+  route: { name: string; route: WalkingRoute } | null;
+}
+
+/** Downloads the listed locations or the drawn route in a GIS or spreadsheet format. */
+const ExportMenu = ({ locations, categoryLookup, route }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button size="sm" variant="outline">
+        <Download className="h-4 w-4 mr-2" />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger disabled={locations.length === 0}>
+          {locations.length} {locations.length === 1 ? 'location' : 'locations'}
+        </DropdownMenuSubTrigger>
+        <DropdownMenuSubContent>
+          {EXPORT_FORMATS.map(format => (
+            <DropdownMenuItem
+              key={format}
+              onSelect={() => downloadExport(exportLocations(locations, categoryLookup, format), 'campus-locations')}
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger disabled={!route}>{route ? route.name : 'No route drawn'}</DropdownMenuSubTrigger>
+        {route && (
+          <DropdownMenuSubContent>
+            {EXPORT_FORMATS.map(format => (
+              <DropdownMenuItem
+                key={format}
+                onSelect={() => downloadExport(exportWalkingRoute(route.route, route.name, format), route.name)}
+              >
+                {EXPORT_FORMAT_LABELS[format]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        )}
+      </DropdownMenuSub>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ExportMenu;
@@ -0,0 +1,40 @@
+import { Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CampusFloor } from '@/types/campus';
+
+interface FloorSwitcherProps {
+  buildingName: string;
+  // Lowest first; rendered top-down from the highest floor like a lift panel
+  floors: CampusFloor[];
+  activeFloorId: string | null;
+  onChange: (floorId: string) => void;
+}
+
+const shortLabel = (floor: CampusFloor) => (floor.level === 0 ? 'G' : floor.level < 0 ? `B${-floor.level}` : `${floor.level}`);
+
+const FloorSwitcher = ({ buildingName, floors, activeFloorId, onChange }: FloorSwitcherProps) => (
+  <div
+    className="absolute bottom-48 right-4 sm:right-6 z-10 bg-white/90 rounded-lg shadow p-1 flex flex-col items-center gap-1"
+    role="group"
+    aria-label={`Floors of ${buildingName}`}
+  >
+    <Layers className="h-4 w-4 text-muted-foreground my-1" aria-hidden="true" />
+    {[...floors].reverse().map(floor => (
+      <button
+        key={floor.id}
+        type="button"
+        className={cn(
+          'w-9 h-9 rounded-md text-sm font-semibold transition',
+          floor.id === activeFloorId ? 'bg-primary text-primary-foreground' : 'hover:bg-primary/10'
+        )}
+        onClick={() => onChange(floor.id)}
+        aria-pressed={floor.id === activeFloorId}
+        title={floor.name}
+      >
+        {shortLabel(floor)}
+      </button>
+    ))}
+  </div>
+);
+
+export default FloorSwitcher;
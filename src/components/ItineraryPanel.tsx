@@ -0,0 +1,122 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, ChevronUp, Route, Trash2, X } from 'lucide-react';
+import { formatDistance, formatDuration } from '@/lib/directions';
+import type { Itinerary } from '@/lib/itinerary';
+import type { CampusLocation } from '@/types/campus';
+
+interface ItineraryPanelProps {
+  stops: CampusLocation[];
+  itinerary: Itinerary | null;
+  optimiseOrder: boolean;
+  planning: boolean;
+  onStopsChange: (stops: CampusLocation[]) => void;
+  onOptimiseOrderChange: (optimise: boolean) => void;
+  onPlan: () => void;
+  onClose: () => void;
+}
+
+const ItineraryPanel = ({
+  stops,
+  itinerary,
+  optimiseOrder,
+  planning,
+  onStopsChange,
+  onOptimiseOrderChange,
+  onPlan,
+  onClose
+}: ItineraryPanelProps) => {
+  const moveStop = (index: number, offset: number) => {
+    const next = [...stops];
+    const [stop] = next.splice(index, 1);
+    next.splice(index + offset, 0, stop);
+    onStopsChange(next);
+  };
+
+  const totalDuration = itinerary?.legs.reduce((sum, leg) => sum + (leg.route?.duration ?? 0), 0) ?? 0;
+  const totalDistance = itinerary?.legs.reduce((sum, leg) => sum + (leg.route?.distance ?? 0), 0) ?? 0;
+  // Legs without a route add nothing to the totals, so they only cover part of the walk
+  const incomplete = itinerary?.legs.some(leg => !leg.route) ?? false;
+
+  return (
+    <div className="absolute top-36 left-2 right-2 sm:left-4 sm:right-auto sm:w-80 z-10">
+      <Card className="p-4 bg-card/95 backdrop-blur-sm border-border/50 max-h-[60vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-3">
+          <div>
+            <h3 className="font-bold text-lg">Day Itinerary</h3>
+            <p className="text-xs text-muted-foreground">Add stops from a location's details panel.</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Close itinerary"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {stops.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4 text-sm">No stops yet</p>
+        ) : (
+          <ol className="space-y-1 mb-3">
+            {stops.map((stop, index) => (
+              <li key={stop.id} className="flex items-center gap-2 rounded-lg p-2 hover:bg-primary/10 text-sm">
+                <span className="w-5 text-center font-semibold text-muted-foreground">{index + 1}</span>
+                <span className="flex-1 truncate">{stop.name}</span>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0} onClick={() => moveStop(index, -1)} aria-label={`Move ${stop.name} up`}>
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === stops.length - 1} onClick={() => moveStop(index, 1)} aria-label={`Move ${stop.name} down`}>
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 hover:text-destructive" onClick={() => onStopsChange(stops.filter(s => s.id !== stop.id))} aria-label={`Remove ${stop.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex items-center gap-2 mb-3">
+          <Switch id="optimise-order" checked={optimiseOrder} onCheckedChange={onOptimiseOrderChange} />
+          <Label htmlFor="optimise-order" className="text-sm">Optimise visiting order (keeps first stop)</Label>
+        </div>
+
+        <Button
+          size="sm"
+          className="w-full bg-gradient-to-r from-primary to-secondary"
+          disabled={stops.length < 2 || planning}
+          onClick={onPlan}
+        >
+          <Route className="h-4 w-4 mr-2" />
+          {planning ? 'Planning...' : 'Plan Route'}
+        </Button>
+
+        {itinerary && (
+          <div className="mt-4 space-y-1 text-sm">
+            {itinerary.legs.map(leg => (
+              <div key={`${leg.from.id}-${leg.to.id}`} className="flex justify-between gap-2">
+                <span className="truncate">{leg.from.name} → {leg.to.name}</span>
+                <span className={leg.route ? 'text-muted-foreground whitespace-nowrap' : 'text-destructive whitespace-nowrap'}>
+                  {leg.route ? `${formatDuration(leg.route.duration)} · ${formatDistance(leg.route.distance)}` : 'No route'}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between gap-2 border-t border-border pt-2 font-semibold">
+              <span>{incomplete ? 'Total (incomplete)' : 'Total'}</span>
+              <span className={incomplete ? 'text-destructive' : undefined}>
+                {formatDuration(totalDuration)} · {formatDistance(totalDistance)}
+              </span>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default ItineraryPanel;
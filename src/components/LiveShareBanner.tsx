@@ -0,0 +1,75 @@
+import { Footprints, Handshake, Radio, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useNow } from '@/hooks/use-now';
+import { describeSharedPosition } from '@/lib/location-privacy';
+import { formatShareAge, liveShareState, type LiveShare } from '@/lib/location-sharing';
+
+interface LiveShareBannerProps {
+  share: LiveShare | null;
+  // Why the shared link could not be followed, e.g. it was tampered with or has expired
+  error: string | null;
+  onShow: () => void;
+  // Routing needs the viewer's own position, so these are hidden until it is known
+  onWalkTo?: () => void;
+  onMeetHalfway?: () => void;
+  onClose: () => void;
+}
+
+// Positions older than this are called out, as the sharer may have lost signal or closed the app
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+/** Status strip for someone else's live location: how fresh it is and when it ends. */
+const LiveShareBanner = ({ share, error, onShow, onWalkTo, onMeetHalfway, onClose }: LiveShareBannerProps) => {
+  const now = useNow(5000).getTime();
+  if (!share && !error) return null;
+
+  const state = share ? liveShareState(share, now) : null;
+  const stale = state === 'live' && now - new Date(share.updatedAt).getTime() > STALE_AFTER_MS;
+  const age = share ? formatShareAge(share.updatedAt, now) : '';
+  const message = !share
+    ? error
+    : state === 'stopped'
+      ? `${share.displayName} stopped sharing their location.`
+      : state === 'expired'
+        ? `${share.displayName}'s live location has expired.`
+        : `${describeSharedPosition(share.displayName, share.precision, share.position?.label ?? null)} · updated ${age === 'just now' ? age : `${age} ago`} · ends in ${formatShareAge(share.expiresAt, now)}`;
+
+  return (
+    <div
+      className={`flex flex-wrap items-center justify-between gap-2 rounded-lg px-4 py-2 text-sm text-white shadow ${
+        state === 'live' ? (stale ? 'bg-amber-500' : 'bg-green-600') : 'bg-muted-foreground'
+      }`}
+      role="status"
+    >
+      <span className="flex items-center gap-2 font-medium">
+        <Radio className={`h-4 w-4 shrink-0 ${state === 'live' && !stale ? 'animate-pulse' : ''}`} />
+        {message}
+        {stale && ' (may be out of date)'}
+      </span>
+      <div className="flex gap-2">
+        {state === 'live' && (
+          <Button size="sm" variant="secondary" onClick={onShow}>
+            Show on map
+          </Button>
+        )}
+        {state === 'live' && onWalkTo && (
+          <Button size="sm" variant="secondary" onClick={onWalkTo}>
+            <Footprints className="h-4 w-4 mr-1" />
+            Walk to {share.displayName}
+          </Button>
+        )}
+        {state === 'live' && onMeetHalfway && (
+          <Button size="sm" variant="secondary" onClick={onMeetHalfway}>
+            <Handshake className="h-4 w-4 mr-1" />
+            Meet halfway
+          </Button>
+        )}
+        <Button size="sm" variant="secondary" onClick={onClose} aria-label="Stop following">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LiveShareBanner;
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Copy, Radio, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNow } from '@/hooks/use-now';
+import { SHARE_PRECISIONS, type SharePrecision } from '@/lib/location-privacy';
+import { SHARE_DURATIONS, formatShareAge, loadShareName, saveShareName, type OwnedShare } from '@/lib/location-sharing';
+
+interface LiveShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The running session, if this browser is already sharing
+  share: OwnedShare | null;
+  hasLocation: boolean;
+  onStart: (displayName: string, minutes: number, precision: SharePrecision) => Promise<void>;
+  onStop: () => Promise<void>;
+  onShareLink: (url: string) => void;
+}
+
+/** Starts a live location share, or shows the running one with its link and a stop button. */
+const LiveShareDialog = ({ open, onOpenChange, share, hasLocation, onStart, onStop, onShareLink }: LiveShareDialogProps) => {
+  const now = useNow(10000);
+  const [displayName, setDisplayName] = useState(loadShareName);
+  const [minutes, setMinutes] = useState(String(SHARE_DURATIONS[1].minutes));
+  const [precision, setPrecision] = useState<SharePrecision>('exact');
+  const [working, setWorking] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    try {
+      await action();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      saveShareName(displayName);
+      await onStart(displayName, Number(minutes), precision);
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{share ? 'Sharing your live location' : 'Share your live location'}</DialogTitle>
+          <DialogDescription>
+            {share
+              ? `Anyone with the link can follow you on the map for another ${formatShareAge(share.expiresAt, now.getTime())}.${
+                share.precision === 'exact' ? '' : ' They only see an approximate location.'
+              }`
+              : 'People you send the link to see your position move on the map until the time runs out or you stop sharing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {share ? (
+          <div className="flex gap-2">
+            <Input value={share.link} readOnly aria-label="Live location link" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={() => onShareLink(share.link)} aria-label="Share link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-name">Your name</Label>
+              <Input
+                id="share-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                maxLength={60}
+                placeholder="Shown to the people you share with"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Share for</Label>
+              <Select value={minutes} onValueChange={setMinutes}>
+                <SelectTrigger aria-label="Sharing duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_DURATIONS.map(duration => (
+                    <SelectItem key={duration.minutes} value={String(duration.minutes)}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Show my location as</Label>
+              <Select value={precision} onValueChange={value => setPrecision(value as SharePrecision)}>
+                <SelectTrigger aria-label="Location precision">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_PRECISIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {SHARE_PRECISIONS.find(option => option.value === precision)?.description}
+              </p>
+            </div>
+            {!hasLocation && (
+              <p className="text-sm text-muted-foreground">Waiting for your location. Allow location access to start sharing.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {share ? (
+            <Button variant="destructive" onClick={() => run(onStop)} disabled={working}>
+              <Radio className="h-4 w-4 mr-2" />
+              {working ? 'Stopping...' : 'Stop sharing'}
+            </Button>
+          ) : (
+            <Button
+              className="bg-green-600 hover:bg-green-700 text-white"
+              onClick={handleStart}
+              disabled={working || !hasLocation || !displayName.trim()}
+            >
+              <Share2 className="h-4 w-4 mr-2" />
+              {working ? 'Starting...' : 'Start sharing'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LiveShareDialog;
@@ -0,0 +1,105 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Navigation, Share2, X } from 'lucide-react';
+import CategoryBadge from '@/components/CategoryBadge';
+import { categoryLabel, type CategoryLookup } from '@/lib/categories';
+import { formatDuration } from '@/lib/directions';
+import type { MeetingPoint } from '@/lib/meeting-points';
+import type { CampusLocation } from '@/types/campus';
+
+// Select value for "no category filter"; Radix selects cannot use an empty string
+export const ANY_CATEGORY = 'any';
+
+interface MeetHalfwayPanelProps {
+  friendName: string;
+  suggestions: MeetingPoint[];
+  categories: string[];
+  lookup: CategoryLookup;
+  category: string;
+  onCategoryChange: (category: string) => void;
+  onDirections: (location: CampusLocation) => void;
+  onShare: (location: CampusLocation) => void;
+  onClose: () => void;
+}
+
+/** Places that are a fair walk for both you and the friend whose live location you are following. */
+const MeetHalfwayPanel = ({
+  friendName,
+  suggestions,
+  categories,
+  lookup,
+  category,
+  onCategoryChange,
+  onDirections,
+  onShare,
+  onClose
+}: MeetHalfwayPanelProps) => (
+  <div className="absolute top-36 left-2 right-2 sm:left-4 sm:right-auto sm:w-80 z-10">
+    <Card className="p-4 bg-card/95 backdrop-blur-sm border-border/50 max-h-[60vh] overflow-y-auto">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="font-bold text-lg">Meet Halfway</h3>
+          <p className="text-xs text-muted-foreground">Places neither you nor {friendName} has far to walk to.</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Close meeting suggestions"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2 mb-3">
+        <Label>Meet at</Label>
+        <Select value={category} onValueChange={onCategoryChange}>
+          <SelectTrigger aria-label="Kind of place to meet at">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_CATEGORY}>Anywhere</SelectItem>
+            {categories.map(slug => (
+              <SelectItem key={slug} value={slug}>
+                {categoryLabel(lookup, slug)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-center text-muted-foreground py-4 text-sm">No places of this kind on the map</p>
+      ) : (
+        <ol className="space-y-2">
+          {suggestions.map(({ location, durations: [yours, theirs] }) => (
+            <li key={location.id} className="rounded-lg p-2 hover:bg-primary/10 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{location.name}</span>
+                <CategoryBadge slug={location.category} lookup={lookup} className="shrink-0" />
+              </div>
+              <p className="text-muted-foreground">
+                You {formatDuration(yours)} · {friendName} {formatDuration(theirs)}
+              </p>
+              <div className="flex gap-2 mt-1">
+                <Button size="sm" variant="outline" className="h-7" onClick={() => onDirections(location)}>
+                  <Navigation className="h-3 w-3 mr-1" />
+                  Directions
+                </Button>
+                <Button size="sm" variant="outline" className="h-7" onClick={() => onShare(location)}>
+                  <Share2 className="h-3 w-3 mr-1" />
+                  Send to {friendName}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  </div>
+);
+
+export default MeetHalfwayPanel;
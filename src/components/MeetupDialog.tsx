@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SHARE_PRECISIONS, type SharePrecision } from '@/lib/location-privacy';
+import { SHARE_DURATIONS, loadShareName, saveShareName } from '@/lib/location-sharing';
+
+export interface MeetupDetails {
+  // Only asked for when creating a meetup
+  meetupName: string;
+  minutes: number;
+  displayName: string;
+  precision: SharePrecision;
+}
+
+interface MeetupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 'create' starts a new meetup at the destination and joins it; 'join' joins an existing one
+  mode: 'create' | 'join';
+  destinationName: string;
+  hasLocation: boolean;
+  onSubmit: (details: MeetupDetails) => Promise<void>;
+}
+
+/** Creates a group meetup at a place, or joins one, sharing your live location with the group. */
+const MeetupDialog = ({ open, onOpenChange, mode, destinationName, hasLocation, onSubmit }: MeetupDialogProps) => {
+  const [meetupName, setMeetupName] = useState('');
+  const [minutes, setMinutes] = useState(String(SHARE_DURATIONS[1].minutes));
+  const [displayName, setDisplayName] = useState(loadShareName);
+  const [precision, setPrecision] = useState<SharePrecision>('exact');
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (open) setMeetupName(`Meet at ${destinationName}`);
+  }, [open, destinationName]);
+
+  const handleSubmit = async () => {
+    setWorking(true);
+    try {
+      saveShareName(displayName);
+      await onSubmit({ meetupName, minutes: Number(minutes), displayName, precision });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const creating = mode === 'create';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{creating ? 'Start a meetup' : 'Join the meetup'}</DialogTitle>
+          <DialogDescription>
+            {creating
+              ? `Everyone you invite sees each other converge on ${destinationName}, with how long each person has left to walk.`
+              : `The group sees your live location and how long you are from ${destinationName} until you leave or the meetup ends.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {creating && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="meetup-name">Meetup name</Label>
+                <Input id="meetup-name" value={meetupName} onChange={(e) => setMeetupName(e.target.value)} maxLength={80} />
+              </div>
+              <div className="space-y-2">
+                <Label>Lasts for</Label>
+                <Select value={minutes} onValueChange={setMinutes}>
+                  <SelectTrigger aria-label="Meetup duration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHARE_DURATIONS.map(duration => (
+                      <SelectItem key={duration.minutes} value={String(duration.minutes)}>
+                        {duration.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="meetup-display-name">Your name</Label>
+            <Input
+              id="meetup-display-name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={60}
+              placeholder="Shown to the rest of the group"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Show my location as</Label>
+            <Select value={precision} onValueChange={value => setPrecision(value as SharePrecision)}>
+              <SelectTrigger aria-label="Location precision">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_PRECISIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {!hasLocation && (
+            <p className="text-sm text-muted-foreground">
+              {creating
+                ? 'Your location is not available yet, so you can join the meetup once it is.'
+                : 'Waiting for your location. Allow location access to join.'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="bg-gradient-to-r from-primary to-secondary"
+            onClick={handleSubmit}
+            disabled={
+              working || !displayName.trim() || (creating ? !meetupName.trim() : !hasLocation)
+            }
+          >
+            <Users className="h-4 w-4 mr-2" />
+            {working ? (creating ? 'Starting...' : 'Joining...') : creating ? 'Start meetup' : 'Join'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MeetupDialog;
@@ -0,0 +1,100 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Navigation, Share2, UserPlus, X } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import { formatShareAge, liveShareState } from '@/lib/location-sharing';
+import { formatArrival, participantColor, type Meetup } from '@/lib/meetups';
+import type { CampusLocation } from '@/types/campus';
+
+interface MeetupPanelProps {
+  meetup: Meetup;
+  destination: CampusLocation | null;
+  // Walking time in seconds per participant id; null when they are not sharing a position
+  arrivals: Record<string, number | null>;
+  // This browser's own session in the meetup, if it has joined
+  ownShareId: string | null;
+  onJoin: () => void;
+  onInvite: () => void;
+  onDirections: () => void;
+  onLeave: () => void;
+}
+
+/** A group meetup: where it is, who is on their way and how long each of them has left. */
+const MeetupPanel = ({ meetup, destination, arrivals, ownShareId, onJoin, onInvite, onDirections, onLeave }: MeetupPanelProps) => {
+  const now = useNow(10000).getTime();
+  const ended = new Date(meetup.expiresAt).getTime() <= now;
+
+  const status = (participant: Meetup['participants'][number]) => {
+    const state = liveShareState(participant, now);
+    return state === 'live' ? formatArrival(arrivals[participant.id]) : 'stopped sharing';
+  };
+
+  return (
+    <div className="absolute top-36 left-2 right-2 sm:left-4 sm:right-auto sm:w-80 z-10">
+      <Card className="p-4 bg-card/95 backdrop-blur-sm border-border/50 max-h-[60vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-3">
+          <div>
+            <h3 className="font-bold text-lg">{meetup.name}</h3>
+            <p className="text-xs text-muted-foreground">
+              {destination ? `At ${destination.name}` : 'The meeting place is no longer on the map'}
+              {' · '}
+              {ended ? 'ended' : `ends in ${formatShareAge(meetup.expiresAt, now)}`}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onLeave}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={ownShareId ? 'Leave meetup' : 'Close meetup'}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {meetup.participants.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4 text-sm">Nobody has joined yet</p>
+        ) : (
+          <ul className="space-y-1 mb-3">
+            {meetup.participants.map((participant, index) => (
+              <li key={participant.id} className="flex items-center gap-2 rounded-lg p-2 text-sm">
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full border border-white shadow"
+                  style={{ backgroundColor: participantColor(index) }}
+                />
+                <span className="flex-1 truncate">
+                  {participant.displayName}
+                  {participant.id === ownShareId && ' (you)'}
+                </span>
+                <span className="text-muted-foreground whitespace-nowrap">{status(participant)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!ownShareId && !ended && (
+            <Button size="sm" className="bg-gradient-to-r from-primary to-secondary" onClick={onJoin}>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Join
+            </Button>
+          )}
+          {!ended && (
+            <Button size="sm" variant="outline" onClick={onInvite}>
+              <Share2 className="h-4 w-4 mr-1" />
+              Invite
+            </Button>
+          )}
+          {destination && (
+            <Button size="sm" variant="outline" onClick={onDirections}>
+              <Navigation className="h-4 w-4 mr-1" />
+              Directions
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default MeetupPanel;
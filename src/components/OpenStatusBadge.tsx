@@ -0,0 +1,34 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { CLOSING_SOON_MINUTES, describeOpenStatus, minutesUntil, type OpenStatus } from '@/lib/opening-hours';
+
+interface OpenStatusBadgeProps {
+  status: OpenStatus | undefined;
+  now: Date;
+  // Also show when it next opens or closes
+  detailed?: boolean;
+  className?: string;
+}
+
+const OpenStatusBadge = ({ status, now, detailed = false, className }: OpenStatusBadgeProps) => {
+  if (!status || status.state === 'unknown') return null;
+
+  const closingSoon = status.state === 'open' && minutesUntil(status.closesAt, now) <= CLOSING_SOON_MINUTES;
+  const label = status.state === 'open' ? (closingSoon ? 'Closing soon' : 'Open') : 'Closed';
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 text-xs', className)}>
+      <Badge
+        className={cn(
+          'text-white border-transparent',
+          status.state === 'closed' ? 'bg-red-600 hover:bg-red-600' : closingSoon ? 'bg-amber-500 hover:bg-amber-500' : 'bg-green-600 hover:bg-green-600'
+        )}
+      >
+        {label}
+      </Badge>
+      {detailed && <span className="text-muted-foreground">{describeOpenStatus(status, now)}</span>}
+    </span>
+  );
+};
+
+export default OpenStatusBadge;
@@ -0,0 +1,41 @@
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import type { LocationPhoto } from '@/lib/location-photos';
+
+interface PhotoCarouselProps {
+  photos: LocationPhoto[];
+  locationName: string;
+}
+
+const PhotoCarousel = ({ photos, locationName }: PhotoCarouselProps) => (
+  <Carousel className="mb-4" opts={{ loop: photos.length > 1 }} aria-label={`Photos of ${locationName}`}>
+    <CarouselContent>
+      {photos.map((photo, index) => (
+        <CarouselItem key={photo.id}>
+          <figure>
+            <AspectRatio ratio={16 / 9} className="overflow-hidden rounded-lg bg-muted">
+              <img
+                src={photo.url}
+                alt={photo.caption || `${locationName}, photo ${index + 1} of ${photos.length}`}
+                loading={index === 0 ? 'eager' : 'lazy'}
+                className="h-full w-full object-cover"
+              />
+            </AspectRatio>
+            {photo.caption && (
+              <figcaption className="mt-1 text-xs text-muted-foreground">{photo.caption}</figcaption>
+            )}
+          </figure>
+        </CarouselItem>
+      ))}
+    </CarouselContent>
+    {photos.length > 1 && (
+      <>
+        {/* The default arrows sit outside the slide, which the narrow panel has no room for */}
+        <CarouselPrevious className="left-2 bg-white/80" />
+        <CarouselNext className="right-2 bg-white/80" />
+      </>
+    )}
+  </Carousel>
+);
+
+export default PhotoCarousel;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { uploadLocationPhoto } from '@/lib/location-photos';
+import type { CampusLocation } from '@/types/campus';
+
+interface PhotoUploadDialogProps {
+  location: CampusLocation | null;
+  // Number of photos the location already has; new ones are ordered after them
+  existingCount: number;
+  onOpenChange: (open: boolean) => void;
+  onUploaded: () => void;
+}
+
+const PhotoUploadDialog = ({ location, existingCount, onOpenChange, onUploaded }: PhotoUploadDialogProps) => {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [caption, setCaption] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  // Object URLs for the previews are released when the selection changes
+  useEffect(() => {
+    const urls = files.map(file => URL.createObjectURL(file));
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [files]);
+
+  const reset = () => {
+    setFiles([]);
+    setCaption('');
+  };
+
+  // Every way of closing the dialog drops the picked files, so it opens empty next time
+  const handleOpenChange = (open: boolean) => {
+    if (!open) reset();
+    onOpenChange(open);
+  };
+
+  const handleUpload = async () => {
+    if (!location || files.length === 0) return;
+    setUploading(true);
+    let uploaded = 0;
+    try {
+      for (const [index, file] of files.entries()) {
+        await uploadLocationPhoto(location.id, file, caption.trim() || null, existingCount + index);
+        uploaded++;
+      }
+      toast({
+        title: "Photos Uploaded",
+        description: `${uploaded} photo${uploaded === 1 ? '' : 's'} added to ${location.name}.`,
+        duration: 3000
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Photo upload error:', error);
+      toast({
+        title: "Upload Failed",
+        description: `${uploaded} of ${files.length} photos were uploaded. Check you are signed in as an admin.`,
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setUploading(false);
+      if (uploaded > 0) onUploaded();
+    }
+  };
+
+  return (
+    <Dialog open={!!location} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add photos</DialogTitle>
+          <DialogDescription>
+            Photos of {location?.name} are resized before upload and shown to everyone in the details panel.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="photo-files">Photos</Label>
+            <Input
+              id="photo-files"
+              type="file"
+              accept="image/*"
+              multiple
+              disabled={uploading}
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            />
+          </div>
+          {previews.length > 0 && (
+            <div className="grid grid-cols-4 gap-2">
+              {previews.map((url, index) => (
+                <img key={url} src={url} alt={files[index]?.name} className="aspect-square w-full rounded object-cover" />
+              ))}
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="photo-caption">Caption (optional)</Label>
+            <Input
+              id="photo-caption"
+              value={caption}
+              disabled={uploading}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="e.g. Main entrance from the quad"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={uploading}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpload} disabled={files.length === 0 || uploading}>
+            {uploading ? 'Uploading...' : `Upload ${files.length || ''}`.trim()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoUploadDialog;
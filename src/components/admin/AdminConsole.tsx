@@ -0,0 +1,364 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, FileUp, LogOut, Map as MapIcon, Plus, Search } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useToast } from '@/components/ui/use-toast';
+import DraftsBar from '@/components/admin/DraftsBar';
+import LocationForm from '@/components/admin/LocationForm';
+import LocationImport from '@/components/admin/LocationImport';
+import LocationsTable from '@/components/admin/LocationsTable';
+import VersionHistory from '@/components/admin/VersionHistory';
+import { useCategories } from '@/hooks/use-categories';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  deleteLocation,
+  fetchAdminLocations,
+  saveLocation,
+  type AdminLocation
+} from '@/lib/admin-locations';
+import { categoryLabel } from '@/lib/categories';
+import type { importDraftRows } from '@/lib/location-import';
+import type { LocationFormValues } from '@/lib/location-schema';
+import {
+  discardAllDrafts,
+  discardLocationDraft,
+  publishDrafts,
+  rollbackToVersion,
+  saveDraftRows,
+  setDraftPreview
+} from '@/lib/location-drafts';
+import type { LatLng } from '@/types/campus';
+
+// Same default centre as the public map
+const DEFAULT_CENTER: LatLng = { lat: 40.7484, lng: -73.9857 };
+
+interface AdminConsoleProps {
+  email: string;
+}
+
+const AdminConsole = ({ email }: AdminConsoleProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { categories, lookup: categoryLookup } = useCategories();
+  const [locations, setLocations] = useState<AdminLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mapboxToken, setMapboxToken] = useState('');
+  const [filter, setFilter] = useState('');
+  // undefined: form closed, null: creating, otherwise the location being edited
+  const [editing, setEditing] = useState<AdminLocation | null | undefined>(undefined);
+  const [deleting, setDeleting] = useState<AdminLocation | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // Publishing, discarding or rolling back
+  const [busy, setBusy] = useState(false);
+
+  const loadLocations = useCallback(async () => {
+    try {
+      setLocations(await fetchAdminLocations());
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      toast({
+        title: "Error",
+        description: "Could not load locations.",
+        variant: "destructive",
+        duration: 4000
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadLocations();
+    supabase.functions.invoke('get-mapbox-token').then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching token:', error);
+      } else {
+        setMapboxToken(data.token);
+      }
+    });
+  }, [loadLocations]);
+
+  const visibleLocations = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return needle
+      ? locations.filter(l =>
+          l.name.toLowerCase().includes(needle) || categoryLabel(categoryLookup, l.category).toLowerCase().includes(needle)
+        )
+      : locations;
+  }, [locations, filter, categoryLookup]);
+
+  const draftCount = useMemo(() => locations.filter(l => l.draft).length, [locations]);
+
+  // Imports are compared with the map as it will be once the current drafts are published
+  const pendingLocations = useMemo(() => locations.filter(l => l.draft !== 'deleted'), [locations]);
+
+  const mapCenter = useMemo<LatLng>(() => {
+    if (locations.length === 0) return DEFAULT_CENTER;
+    return {
+      lat: locations.reduce((sum, l) => sum + l.latitude, 0) / locations.length,
+      lng: locations.reduce((sum, l) => sum + l.longitude, 0) / locations.length
+    };
+  }, [locations]);
+
+  const handleSubmit = async (values: LocationFormValues) => {
+    setSubmitting(true);
+    try {
+      await saveLocation(editing, values);
+      toast({
+        title: "Draft Saved",
+        description: `${values.name} will change on the public map when you publish.`,
+        duration: 3000
+      });
+      setEditing(undefined);
+      await loadLocations();
+    } catch (error) {
+      console.error('Error saving location:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The location could not be saved.",
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleImport = async (rows: ReturnType<typeof importDraftRows>) => {
+    try {
+      await saveDraftRows(rows);
+      toast({
+        title: "Import Drafted",
+        description: `${rows.length} ${rows.length === 1 ? 'location' : 'locations'} will change on the public map when you publish.`,
+        duration: 3000
+      });
+      await loadLocations();
+    } catch (error) {
+      console.error('Error importing locations:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Nothing was imported.",
+        variant: "destructive",
+        duration: 5000
+      });
+      throw error;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteLocation(deleting);
+      toast({
+        title: deleting.draft === 'new' ? "Draft Discarded" : "Deletion Drafted",
+        description: deleting.draft === 'new'
+          ? `${deleting.name} was never published and has been removed.`
+          : `${deleting.name} will be removed from the map when you publish.`,
+        duration: 3000
+      });
+      await loadLocations();
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "The location could not be deleted.",
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleDiscard = async (location: AdminLocation) => {
+    try {
+      await discardLocationDraft(location.id);
+      await loadLocations();
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+      toast({
+        title: "Discard Failed",
+        description: error instanceof Error ? error.message : "The draft could not be discarded.",
+        variant: "destructive",
+        duration: 5000
+      });
+    }
+  };
+
+  // Publish, discard-all and rollback share their busy state, refresh and error handling
+  const runDraftAction = async (action: () => Promise<string>, failure: string) => {
+    setBusy(true);
+    try {
+      const description = await action();
+      toast({ title: "Done", description, duration: 3000 });
+      await loadLocations();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Nothing was changed.",
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = (note: string) =>
+    runDraftAction(async () => `Version ${await publishDrafts(note)} is now live.`, 'Publish Failed');
+
+  const handleDiscardAll = () =>
+    runDraftAction(async () => {
+      await discardAllDrafts();
+      return 'All drafts were discarded.';
+    }, 'Discard Failed');
+
+  const handleRollback = (version: number) => {
+    setShowVersions(false);
+    return runDraftAction(
+      async () => `Restored version ${version}, saved as version ${await rollbackToVersion(version)}.`,
+      'Rollback Failed'
+    );
+  };
+
+  const handlePreview = () => {
+    setDraftPreview(true);
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/20 to-secondary/10 p-4 sm:p-8">
+      <div className="mx-auto max-w-6xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-bold">Campus locations</h1>
+            <p className="text-sm text-muted-foreground">Signed in as {email}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to map
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/admin/map">
+                <MapIcon className="h-4 w-4 mr-2" />
+                Map editor
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+
+        <Card className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="relative w-full sm:w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Filter by name or category"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="pl-9"
+                aria-label="Filter locations"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowImport(true)}>
+                <FileUp className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button size="sm" className="bg-gradient-to-r from-primary to-secondary" onClick={() => setEditing(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New location
+              </Button>
+            </div>
+          </div>
+          <DraftsBar
+            draftCount={draftCount}
+            busy={busy}
+            onPreview={handlePreview}
+            onShowHistory={() => setShowVersions(true)}
+            onDiscardAll={handleDiscardAll}
+            onPublish={handlePublish}
+          />
+          {loading ? (
+            <p className="py-8 text-center text-muted-foreground">Loading locations...</p>
+          ) : (
+            <LocationsTable locations={visibleLocations} categoryLookup={categoryLookup} onEdit={setEditing} onDelete={setDeleting} onDiscard={handleDiscard} />
+          )}
+        </Card>
+      </div>
+
+      <Sheet open={editing !== undefined} onOpenChange={open => !open && setEditing(undefined)}>
+        <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>{editing ? `Edit ${editing.name}` : 'New location'}</SheetTitle>
+            <SheetDescription>Changes are saved as a draft and appear on the public map once published.</SheetDescription>
+          </SheetHeader>
+          {editing !== undefined && (
+            <LocationForm
+              key={editing?.id ?? 'new'}
+              location={editing}
+              categories={categories}
+              mapboxToken={mapboxToken}
+              fallbackCenter={mapCenter}
+              submitting={submitting}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(undefined)}
+            />
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <LocationImport
+        open={showImport}
+        onOpenChange={setShowImport}
+        categories={categories}
+        locations={pendingLocations}
+        onImport={handleImport}
+      />
+
+      <VersionHistory open={showVersions} onOpenChange={setShowVersions} busy={busy} onRollback={handleRollback} />
+
+      <AlertDialog open={!!deleting} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Once published, this removes the location from the map together with its photos, opening hours and building
+              footprint. Rolling back to an earlier version brings back the pin but not those.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminConsole;
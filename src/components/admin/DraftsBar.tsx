@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Eye, History, Trash2, Upload } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface DraftsBarProps {
+  draftCount: number;
+  busy: boolean;
+  onPreview: () => void;
+  onShowHistory: () => void;
+  onDiscardAll: () => void;
+  onPublish: (note: string) => void;
+}
+
+/** Pending-change summary with the preview, publish and discard actions. */
+const DraftsBar = ({ draftCount, busy, onPreview, onShowHistory, onDiscardAll, onPublish }: DraftsBarProps) => {
+  const [confirming, setConfirming] = useState<'publish' | 'discard' | null>(null);
+  const [note, setNote] = useState('');
+
+  const handleConfirm = () => {
+    if (confirming === 'publish') {
+      onPublish(note);
+      setNote('');
+    } else {
+      onDiscardAll();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border bg-muted/40 px-3 py-2">
+      <p className="text-sm">
+        {draftCount === 0
+          ? 'Everything is published.'
+          : `${draftCount} unpublished change${draftCount === 1 ? '' : 's'}. Students still see the published map.`}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="ghost" size="sm" onClick={onShowHistory}>
+          <History className="h-4 w-4 mr-2" />
+          Versions
+        </Button>
+        <Button variant="outline" size="sm" onClick={onPreview} disabled={draftCount === 0}>
+          <Eye className="h-4 w-4 mr-2" />
+          Preview
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setConfirming('discard')} disabled={draftCount === 0 || busy}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Discard
+        </Button>
+        <Button
+          size="sm"
+          className="bg-gradient-to-r from-primary to-secondary"
+          onClick={() => setConfirming('publish')}
+          disabled={draftCount === 0 || busy}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Publish
+        </Button>
+      </div>
+
+      <AlertDialog open={!!confirming} onOpenChange={open => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === 'publish' ? `Publish ${draftCount} change${draftCount === 1 ? '' : 's'}?` : 'Discard all drafts?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === 'publish'
+                ? 'Every student sees the changes straight away. The published map is saved as a new version you can roll back to, but rolling back cannot restore the photos, opening hours or buildings of locations deleted here.'
+                : 'Unpublished changes are thrown away. The public map is not affected.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {confirming === 'publish' && (
+            <div className="space-y-1">
+              <Label htmlFor="publish-note">Note (optional)</Label>
+              <Input
+                id="publish-note"
+                placeholder="e.g. Moved the café for the autumn term"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={200}
+              />
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className={confirming === 'discard' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : undefined}
+            >
+              {confirming === 'publish' ? 'Publish' : 'Discard'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default DraftsBar;
@@ -0,0 +1,147 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import PinPicker from '@/components/admin/PinPicker';
+import { locationSchema, type LocationFormValues } from '@/lib/location-schema';
+import type { Category } from '@/lib/categories';
+import type { CampusLocation, LatLng } from '@/types/campus';
+
+interface LocationFormProps {
+  // Location being edited; null creates a new one
+  location: CampusLocation | null;
+  categories: Category[];
+  mapboxToken: string;
+  // Centre of the mini-map for a new location
+  fallbackCenter: LatLng;
+  submitting: boolean;
+  onSubmit: (values: LocationFormValues) => void;
+  onCancel: () => void;
+}
+
+const LocationForm = ({ location, categories, mapboxToken, fallbackCenter, submitting, onSubmit, onCancel }: LocationFormProps) => {
+  const form = useForm<LocationFormValues>({
+    resolver: zodResolver(locationSchema),
+    defaultValues: {
+      name: location?.name ?? '',
+      category: location?.category ?? '',
+      description: location?.description ?? '',
+      latitude: location?.latitude,
+      longitude: location?.longitude
+    }
+  });
+
+  const latitude = form.watch('latitude');
+  const longitude = form.watch('longitude');
+  const pin = latitude !== undefined && longitude !== undefined && `${latitude}` !== '' && `${longitude}` !== ''
+    ? { lat: Number(latitude), lng: Number(longitude) }
+    : null;
+
+  const handlePinChange = ({ lat, lng }: LatLng) => {
+    // Seven decimal places is centimetre precision, plenty for a pin
+    form.setValue('latitude', Number(lat.toFixed(7)), { shouldValidate: true, shouldDirty: true });
+    form.setValue('longitude', Number(lng.toFixed(7)), { shouldValidate: true, shouldDirty: true });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Main Library" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category.slug} value={category.slug}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2">
+          <PinPicker token={mapboxToken} value={pin} fallbackCenter={fallbackCenter} onChange={handlePinChange} />
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={form.control}
+              name="latitude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Latitude</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="longitude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Longitude</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">Click the map to drop the pin, or drag it to adjust.</p>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? 'Saving...' : location ? 'Save changes' : 'Create location'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default LocationForm;
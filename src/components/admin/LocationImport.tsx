@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Category } from '@/lib/categories';
+import {
+  IMPORT_FIELDS,
+  detectImportFormat,
+  guessColumnMapping,
+  importDraftRows,
+  parseImportFile,
+  planImport,
+  summariseImport,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportField,
+  type ParsedImport
+} from '@/lib/location-import';
+import type { CampusLocation } from '@/types/campus';
+
+// Select items cannot have an empty value, so "not mapped" gets a sentinel
+const UNMAPPED = '__none__';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  latitude: 'Latitude',
+  longitude: 'Longitude'
+};
+
+const ACTION_BADGES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'border-green-600 text-green-700' },
+  update: { label: 'Update', className: 'border-amber-500 text-amber-600' },
+  unchanged: { label: 'Unchanged', className: 'text-muted-foreground' },
+  invalid: { label: 'Skipped', className: 'border-destructive text-destructive' }
+};
+
+interface LocationImportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  // What the map will look like once current drafts are published; rows are matched against it
+  locations: CampusLocation[];
+  // Should reject if saving failed, which keeps the dialog open
+  onImport: (rows: ReturnType<typeof importDraftRows>) => Promise<void>;
+}
+
+/** Upload a CSV, GeoJSON or KML file, map its columns and review the changes before they become drafts. */
+const LocationImport = ({ open, onOpenChange, categories, locations, onImport }: LocationImportProps) => {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(
+    () => (parsed && mapping ? planImport(parsed.records, mapping, categories, locations) : []),
+    [parsed, mapping, categories, locations]
+  );
+  const summary = useMemo(() => summariseImport(rows), [rows]);
+  const importCount = summary.create + summary.update;
+
+  const reset = () => {
+    setFileName('');
+    setParsed(null);
+    setMapping(null);
+    setParseError(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    const format = detectImportFormat(file.name);
+    if (!format) {
+      setParseError('Choose a .csv, .geojson, .json or .kml file.');
+      return;
+    }
+    try {
+      const result = parseImportFile(await file.text(), format);
+      if (result.records.length === 0) throw new Error('The file has no rows to import.');
+      setParsed(result);
+      setMapping(guessColumnMapping(result.columns));
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      await onImport(importDraftRows(rows));
+      handleOpenChange(false);
+    } catch {
+      // The console has already reported it; stay open so the import can be retried
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import locations</DialogTitle>
+          <DialogDescription>
+            Rows with the same name as an existing location nearby update it; the rest are added. Everything is saved as a
+            draft for you to review and publish.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-file">File</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.geojson,.json,.kml"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          {parseError && <p className="text-sm font-medium text-destructive">{parseError}</p>}
+          {parsed && (
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {parsed.records.length} rows, {parsed.columns.length} columns
+            </p>
+          )}
+        </div>
+
+        {parsed && mapping && (
+          <>
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label>{FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={mapping[field] ?? UNMAPPED}
+                    onValueChange={value => setMapping({ ...mapping, [field]: value === UNMAPPED ? null : value })}
+                  >
+                    <SelectTrigger aria-label={`Column for ${FIELD_LABELS[field]}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {parsed.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              {(Object.keys(ACTION_BADGES) as ImportAction[]).map(action => (
+                <Badge key={action} variant="outline" className={ACTION_BADGES[action].className}>
+                  {summary[action]} {ACTION_BADGES[action].label.toLowerCase()}
+                </Badge>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  <TableHead className="w-24">Action</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.row} className={row.action === 'unchanged' ? 'opacity-60' : undefined}>
+                    <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_BADGES[row.action].className}>
+                        {ACTION_BADGES[row.action].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{row.values?.name || parsed.records[row.row - 1][mapping.name ?? ''] || '(no name)'}</div>
+                      {row.values && (
+                        <div className="text-xs text-muted-foreground">
+                          {row.values.latitude.toFixed(5)}, {row.values.longitude.toFixed(5)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.errors.map(message => (
+                        <p key={message} className="text-destructive">{message}</p>
+                      ))}
+                      {row.changes.map(change => (
+                        <p key={change.field}>
+                          <span className="text-muted-foreground">{FIELD_LABELS[change.field]}:</span>{' '}
+                          <span className="line-through">{change.from || '(empty)'}</span> → {change.to || '(empty)'}
+                        </p>
+                      ))}
+                      {row.warnings.map(message => (
+                        <p key={message} className="flex items-center gap-1 text-amber-600">
+                          <AlertTriangle className="h-3 w-3 shrink-0" />
+                          {message}
+                        </p>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || importCount === 0}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {importing ? 'Importing...' : `Import ${importCount} ${importCount === 1 ? 'location' : 'locations'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LocationImport;
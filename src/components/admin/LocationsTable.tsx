@@ -0,0 +1,103 @@
+import { Pencil, Trash2, Undo2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import CategoryBadge from '@/components/CategoryBadge';
+import type { AdminLocation } from '@/lib/admin-locations';
+import type { CategoryLookup } from '@/lib/categories';
+import type { DraftStatus } from '@/lib/location-drafts';
+
+const DRAFT_LABELS: Record<DraftStatus, string> = {
+  new: 'New draft',
+  edited: 'Edited',
+  deleted: 'Deleting'
+};
+
+interface LocationsTableProps {
+  locations: AdminLocation[];
+  categoryLookup: CategoryLookup;
+  onEdit: (location: AdminLocation) => void;
+  onDelete: (location: AdminLocation) => void;
+  onDiscard: (location: AdminLocation) => void;
+}
+
+const LocationsTable = ({ locations, categoryLookup, onEdit, onDelete, onDiscard }: LocationsTableProps) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Name</TableHead>
+        <TableHead>Category</TableHead>
+        <TableHead className="hidden md:table-cell">Coordinates</TableHead>
+        <TableHead className="hidden lg:table-cell">Last updated</TableHead>
+        <TableHead className="w-32 text-right">Actions</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {locations.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+            No locations found
+          </TableCell>
+        </TableRow>
+      ) : (
+        locations.map(location => (
+          <TableRow key={location.id} className={location.draft === 'deleted' ? 'opacity-60' : undefined}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <span className={`font-medium ${location.draft === 'deleted' ? 'line-through' : ''}`}>{location.name}</span>
+                {location.draft && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-600">
+                    {DRAFT_LABELS[location.draft]}
+                  </Badge>
+                )}
+              </div>
+              {location.description && (
+                <div className="max-w-xs truncate text-xs text-muted-foreground">{location.description}</div>
+              )}
+            </TableCell>
+            <TableCell>
+              <CategoryBadge slug={location.category} lookup={categoryLookup} />
+            </TableCell>
+            <TableCell className="hidden md:table-cell font-mono text-xs">
+              {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+            </TableCell>
+            <TableCell className="hidden lg:table-cell text-xs text-muted-foreground">
+              {new Date(location.updatedAt).toLocaleString()}
+            </TableCell>
+            <TableCell className="text-right">
+              {location.draft && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => onDiscard(location)}
+                  aria-label={`Discard draft of ${location.name}`}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+              )}
+              {location.draft !== 'deleted' && (
+                <>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onEdit(location)} aria-label={`Edit ${location.name}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 hover:text-destructive"
+                    onClick={() => onDelete(location)}
+                    aria-label={`Delete ${location.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+);
+
+export default LocationsTable;
@@ -0,0 +1,463 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import MapEditorToolbar, { type EditorMode } from '@/components/admin/MapEditorToolbar';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EDITOR_BUILDING_FILL_LAYER_ID,
+  EDITOR_HANDLE_LAYER_IDS,
+  EDITOR_PATH_LAYER_ID,
+  addEditorLayers,
+  editorToGeoJSON,
+  setEditorData
+} from '@/lib/editor-layers';
+import {
+  SNAP_DISTANCE_PX,
+  addBuilding,
+  addEdge,
+  addNode,
+  commit,
+  countEdits,
+  createHistory,
+  diffEditorState,
+  fetchEditorState,
+  findSnapTarget,
+  moveBuildingVertex,
+  moveLocation,
+  moveNode,
+  redo,
+  removeSelection,
+  saveMapEdits,
+  undo,
+  type EditorHistory,
+  type EditorSelection,
+  type EditorState
+} from '@/lib/map-editor';
+
+const EMPTY_STATE: EditorState = { locations: {}, buildings: {}, nodes: {}, edges: {} };
+
+// Same default centre as the public map
+const DEFAULT_CENTER: [number, number] = [-73.9857, 40.7484];
+
+// Extra pixels around the pointer when picking features, so small handles are easy to grab
+const PICK_PADDING_PX = 4;
+
+type DragTarget = { kind: 'location' | 'node'; id: string } | { kind: 'vertex'; id: string; index: number };
+
+type MapPointerEvent = mapboxgl.MapMouseEvent;
+
+/** Full-screen editor for pins, building footprints and the footpath network. */
+const MapEditor = () => {
+  const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const [mapboxToken, setMapboxToken] = useState('');
+  const [mapReady, setMapReady] = useState(false);
+  const [original, setOriginal] = useState<EditorState | null>(null);
+  const [history, setHistory] = useState<EditorHistory | null>(null);
+  // State while something is being dragged; committed to history on release
+  const [preview, setPreview] = useState<EditorState | null>(null);
+  const [mode, setMode] = useState<EditorMode>('select');
+  const [selection, setSelection] = useState<EditorSelection>(null);
+  // Last node of the path being drawn, so the next click continues from it
+  const [pathTail, setPathTail] = useState<string | null>(null);
+  // Corners of the building being drawn
+  const [ring, setRing] = useState<[number, number][]>([]);
+  const [buildingLocationId, setBuildingLocationId] = useState('');
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const dragRef = useRef<DragTarget | null>(null);
+  const fittedRef = useRef(false);
+
+  const present = history?.present ?? null;
+  const shown = preview ?? present ?? EMPTY_STATE;
+
+  const loadState = useCallback(async () => {
+    try {
+      const state = await fetchEditorState();
+      setOriginal(state);
+      setHistory(createHistory(state));
+      setSelection(null);
+    } catch (error) {
+      console.error('Error loading map data:', error);
+      toast({
+        title: "Error",
+        description: "Could not load the map data.",
+        variant: "destructive",
+        duration: 4000
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  useEffect(() => {
+    supabase.functions.invoke('get-mapbox-token').then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching token:', error);
+      } else {
+        setMapboxToken(data.token);
+      }
+    });
+  }, []);
+
+  const edits = useMemo(() => (original && present ? diffEditorState(original, present) : null), [original, present]);
+  const editCount = edits ? countEdits(edits) : 0;
+
+  const locations = useMemo(
+    () => Object.values(shown.locations).sort((a, b) => a.name.localeCompare(b.name)),
+    [shown.locations]
+  );
+
+  const featureAt = (point: mapboxgl.Point, layers: string[]) => {
+    const map = mapRef.current;
+    if (!map || !layers.every(id => map.getLayer(id))) return undefined;
+    return map.queryRenderedFeatures(
+      [[point.x - PICK_PADDING_PX, point.y - PICK_PADDING_PX], [point.x + PICK_PADDING_PX, point.y + PICK_PADDING_PX]],
+      { layers }
+    )[0];
+  };
+
+  const snapAt = (e: MapPointerEvent, options: Parameters<typeof findSnapTarget>[3] = {}) => {
+    const map = mapRef.current;
+    const target = present && map ? findSnapTarget(present, e.point, lngLat => map.project(lngLat), options) : null;
+    return target ?? { position: [e.lngLat.lng, e.lngLat.lat] as [number, number] };
+  };
+
+  const applyEdit = (next: EditorState) => setHistory(h => (h ? commit(h, next) : h));
+
+  const finishDrawing = () => {
+    if (mode === 'building' && present && ring.length >= 3) {
+      const { state, buildingId } = addBuilding(present, buildingLocationId, ring);
+      applyEdit(state);
+      setSelection({ kind: 'building', id: buildingId });
+    }
+    setRing([]);
+    setPathTail(null);
+  };
+
+  const changeMode = (next: EditorMode) => {
+    finishDrawing();
+    setSelection(null);
+    setCursor(null);
+    setMode(next);
+  };
+
+  const handleUndo = () => {
+    setHistory(h => (h ? undo(h) : h));
+    setSelection(null);
+  };
+
+  const handleRedo = () => {
+    setHistory(h => (h ? redo(h) : h));
+    setSelection(null);
+  };
+
+  const handleDelete = () => {
+    if (!present || !selection) return;
+    applyEdit(removeSelection(present, selection));
+    setSelection(null);
+  };
+
+  // Reverting is itself an edit, so it can be undone
+  const handleRevert = () => {
+    if (original) applyEdit(original);
+    setSelection(null);
+  };
+
+  const handleSave = async () => {
+    if (!edits || editCount === 0) return;
+    setSaving(true);
+    try {
+      await saveMapEdits(edits);
+      toast({
+        title: "Map Saved",
+        description: edits.locations.length > 0
+          ? `${editCount} change${editCount === 1 ? '' : 's'} saved. Moved pins go live when the drafts are published.`
+          : `${editCount} change${editCount === 1 ? '' : 's'} published to the campus map.`,
+        duration: 4000
+      });
+      await loadState();
+    } catch (error) {
+      console.error('Error saving map edits:', error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Nothing was saved; your edits are still here.",
+        variant: "destructive",
+        duration: 5000
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMouseDown = (e: MapPointerEvent) => {
+    if (mode !== 'select' || !present) return;
+    const feature = featureAt(e.point, EDITOR_HANDLE_LAYER_IDS);
+    if (!feature) return;
+    const { kind, id, index } = feature.properties as { kind: DragTarget['kind']; id: string; index: number };
+    // Keep the map from panning while a handle is dragged
+    e.preventDefault();
+    const target: DragTarget = kind === 'vertex' ? { kind, id, index } : { kind, id };
+    dragRef.current = target;
+    setSelection(target);
+  };
+
+  const handleMouseMove = (e: MapPointerEvent) => {
+    const drag = dragRef.current;
+    if (drag && present) {
+      if (drag.kind === 'vertex') {
+        setPreview(moveBuildingVertex(present, drag.id, drag.index, snapAt(e, { includeVertices: true, excludeVertex: drag }).position));
+      } else if (drag.kind === 'node') {
+        setPreview(moveNode(present, drag.id, snapAt(e, { excludeNodeId: drag.id }).position));
+      } else {
+        setPreview(moveLocation(present, drag.id, [e.lngLat.lng, e.lngLat.lat]));
+      }
+      return;
+    }
+
+    if (mode !== 'select') {
+      setCursor(snapAt(e, { includeVertices: mode === 'building' }).position);
+      return;
+    }
+    const map = mapRef.current;
+    if (map) {
+      const hovered = featureAt(e.point, [...EDITOR_HANDLE_LAYER_IDS, EDITOR_PATH_LAYER_ID, EDITOR_BUILDING_FILL_LAYER_ID]);
+      map.getCanvas().style.cursor = hovered ? 'pointer' : '';
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (preview) applyEdit(preview);
+    setPreview(null);
+  };
+
+  const handleClick = (e: MapPointerEvent) => {
+    const map = mapRef.current;
+    if (!present || !map) return;
+
+    if (mode === 'path') {
+      const target = snapAt(e);
+      let next = present;
+      let nodeId = target.nodeId;
+      if (!nodeId) ({ state: next, nodeId } = addNode(next, target.position));
+      if (pathTail && next.nodes[pathTail]) next = addEdge(next, pathTail, nodeId);
+      applyEdit(next);
+      setPathTail(nodeId);
+      return;
+    }
+
+    if (mode === 'building') {
+      if (!buildingLocationId) {
+        toast({
+          title: "Pick a Location",
+          description: "Choose which location the building belongs to before drawing it.",
+          duration: 3000
+        });
+        return;
+      }
+      const distanceTo = (vertex: [number, number]) => {
+        const projected = map.project(vertex);
+        return Math.hypot(projected.x - e.point.x, projected.y - e.point.y);
+      };
+      if (ring.length >= 3 && distanceTo(ring[0]) <= SNAP_DISTANCE_PX) {
+        finishDrawing();
+      } else if (ring.length === 0 || distanceTo(ring[ring.length - 1]) > SNAP_DISTANCE_PX) {
+        // The second click of a double-click lands on the last corner; don't add it twice
+        setRing([...ring, snapAt(e, { includeVertices: true }).position]);
+      }
+      return;
+    }
+
+    // Handles were already selected on mousedown
+    if (featureAt(e.point, EDITOR_HANDLE_LAYER_IDS)) return;
+    const path = featureAt(e.point, [EDITOR_PATH_LAYER_ID]);
+    if (path) {
+      setSelection({ kind: 'edge', id: path.properties.id });
+      return;
+    }
+    const building = featureAt(e.point, [EDITOR_BUILDING_FILL_LAYER_ID]);
+    setSelection(building ? { kind: 'building', id: building.properties.id } : null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.target as HTMLElement).closest('input, textarea, select, [role="combobox"], [role="option"]')) return;
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) handleRedo();
+      else handleUndo();
+    } else if (e.key === 'Enter') {
+      finishDrawing();
+    } else if (e.key === 'Escape') {
+      if (mode === 'building') setRing([]);
+      else if (pathTail) setPathTail(null);
+      else setSelection(null);
+    } else if (e.key === 'Backspace' && mode === 'building' && ring.length > 0) {
+      setRing(ring.slice(0, -1));
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      handleDelete();
+    }
+  };
+
+  // Map and window listeners are registered once and always call the latest handlers
+  const handlersRef = useRef({ handleMouseDown, handleMouseMove, handleMouseUp, handleClick, handleKeyDown, finishDrawing });
+  handlersRef.current = { handleMouseDown, handleMouseMove, handleMouseUp, handleClick, handleKeyDown, finishDrawing };
+
+  useEffect(() => {
+    if (!containerRef.current || !mapboxToken) return;
+    mapboxgl.accessToken = mapboxToken;
+
+    const map = new mapboxgl.Map({
+      container: containerRef.current,
+      style: 'mapbox://styles/mapbox/light-v11',
+      center: DEFAULT_CENTER,
+      zoom: 16
+    });
+    map.addControl(new mapboxgl.NavigationControl(), 'bottom-right');
+    // Double-click finishes a drawing instead of zooming
+    map.doubleClickZoom.disable();
+
+    map.on('load', () => {
+      addEditorLayers(map, editorToGeoJSON(EMPTY_STATE, null, []));
+      setMapReady(true);
+    });
+    map.on('mousedown', e => handlersRef.current.handleMouseDown(e));
+    map.on('mousemove', e => handlersRef.current.handleMouseMove(e));
+    map.on('mouseup', () => handlersRef.current.handleMouseUp());
+    map.on('click', e => handlersRef.current.handleClick(e));
+    map.on('dblclick', () => handlersRef.current.finishDrawing());
+
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      setMapReady(false);
+    };
+  }, [mapboxToken]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => handlersRef.current.handleKeyDown(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Don't lose unsaved edits to a stray reload
+  useEffect(() => {
+    if (editCount === 0) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [editCount]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (map) map.getCanvas().style.cursor = mode === 'select' ? '' : 'crosshair';
+  }, [mode, mapReady]);
+
+  // Frame the campus the first time its data arrives
+  useEffect(() => {
+    const map = mapRef.current;
+    const points = original ? Object.values(original.locations) : [];
+    if (!map || !mapReady || fittedRef.current || points.length === 0) return;
+    const bounds = new mapboxgl.LngLatBounds();
+    points.forEach(point => bounds.extend([point.lng, point.lat]));
+    map.fitBounds(bounds, { padding: 80, maxZoom: 18, duration: 0 });
+    fittedRef.current = true;
+  }, [mapReady, original]);
+
+  const draft = useMemo<[number, number][]>(() => {
+    if (mode === 'path' && pathTail && shown.nodes[pathTail] && cursor) {
+      return [[shown.nodes[pathTail].lng, shown.nodes[pathTail].lat], cursor];
+    }
+    if (mode === 'building' && ring.length > 0) {
+      const open = cursor ? [...ring, cursor] : ring;
+      return open.length > 2 ? [...open, ring[0]] : open;
+    }
+    return [];
+  }, [mode, pathTail, ring, cursor, shown.nodes]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    setEditorData(map, editorToGeoJSON(shown, selection, draft));
+  }, [mapReady, shown, selection, draft]);
+
+  const selectionLabel = (() => {
+    if (!selection) return null;
+    switch (selection.kind) {
+      case 'location':
+        return shown.locations[selection.id] ? `Pin: ${shown.locations[selection.id].name}` : null;
+      case 'node':
+        return shown.nodes[selection.id] ? 'Path junction' : null;
+      case 'edge':
+        return shown.edges[selection.id] ? 'Footpath' : null;
+      case 'building':
+      case 'vertex': {
+        const building = shown.buildings[selection.id];
+        if (!building) return null;
+        const name = building.name ?? shown.locations[building.locationId]?.name ?? 'Building';
+        return selection.kind === 'vertex' ? `Corner ${selection.index + 1} of ${name}` : name;
+      }
+    }
+  })();
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden">
+      <div ref={containerRef} className="absolute inset-0" aria-label="Campus map editor" />
+
+      <MapEditorToolbar
+        mode={mode}
+        onModeChange={changeMode}
+        canUndo={!!history && history.past.length > 0}
+        canRedo={!!history && history.future.length > 0}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        editCount={editCount}
+        saving={saving}
+        onSave={handleSave}
+        onRevert={handleRevert}
+        locations={locations}
+        buildingLocationId={buildingLocationId}
+        onBuildingLocationChange={setBuildingLocationId}
+      />
+
+      {!history && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+          <p className="text-muted-foreground">Loading map data...</p>
+        </div>
+      )}
+
+      {selectionLabel && (
+        <Card className="absolute bottom-4 left-4 right-4 sm:right-auto sm:w-80 p-3 flex items-center gap-2 bg-card/95 backdrop-blur-sm shadow-lg">
+          <p className="flex-1 truncate text-sm font-medium">{selectionLabel}</p>
+          {selection?.kind !== 'location' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 hover:text-destructive"
+              onClick={handleDelete}
+              disabled={selection?.kind === 'vertex' && shown.buildings[selection.id]?.ring.length <= 3}
+              aria-label="Delete selection"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setSelection(null)} aria-label="Clear selection">
+            <X className="h-4 w-4" />
+          </Button>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -0,0 +1,120 @@
+import { Link } from 'react-router-dom';
+import { ArrowLeft, MousePointer2, Pentagon, Redo2, RotateCcw, Route, Save, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { EditorLocation } from '@/lib/map-editor';
+
+export type EditorMode = 'select' | 'path' | 'building';
+
+const MODES: { mode: EditorMode; label: string; icon: typeof MousePointer2 }[] = [
+  { mode: 'select', label: 'Move', icon: MousePointer2 },
+  { mode: 'path', label: 'Draw path', icon: Route },
+  { mode: 'building', label: 'Draw building', icon: Pentagon }
+];
+
+const HINTS: Record<EditorMode, string> = {
+  select: 'Drag pins, path junctions and building corners. Click a path or building to select it.',
+  path: 'Click to add junctions; clicking near an existing one joins it. Double-click or press Enter to finish.',
+  building: 'Click to add corners, then click the first corner or press Enter to close the footprint.'
+};
+
+interface MapEditorToolbarProps {
+  mode: EditorMode;
+  onModeChange: (mode: EditorMode) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  editCount: number;
+  saving: boolean;
+  onSave: () => void;
+  onRevert: () => void;
+  locations: EditorLocation[];
+  // Location a newly drawn building will belong to
+  buildingLocationId: string;
+  onBuildingLocationChange: (id: string) => void;
+}
+
+const MapEditorToolbar = ({
+  mode,
+  onModeChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  editCount,
+  saving,
+  onSave,
+  onRevert,
+  locations,
+  buildingLocationId,
+  onBuildingLocationChange
+}: MapEditorToolbarProps) => (
+  <Card className="absolute top-4 left-4 right-4 sm:right-auto sm:w-96 p-3 space-y-3 bg-card/95 backdrop-blur-sm shadow-lg">
+    <div className="flex items-center justify-between gap-2">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/admin">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Locations
+        </Link>
+      </Button>
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={onUndo} disabled={!canUndo} aria-label="Undo">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={onRedo} disabled={!canRedo} aria-label="Redo">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-3 gap-1" role="group" aria-label="Editing tool">
+      {MODES.map(({ mode: value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          variant={mode === value ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onModeChange(value)}
+          aria-pressed={mode === value}
+        >
+          <Icon className="h-4 w-4 mr-1" />
+          {label}
+        </Button>
+      ))}
+    </div>
+
+    {mode === 'building' && (
+      <Select value={buildingLocationId} onValueChange={onBuildingLocationChange}>
+        <SelectTrigger aria-label="Location for the new building">
+          <SelectValue placeholder="Which location is this building?" />
+        </SelectTrigger>
+        <SelectContent>
+          {locations.map(location => (
+            <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+
+    <p className="text-xs text-muted-foreground">{HINTS[mode]}</p>
+
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={onRevert} disabled={editCount === 0 || saving}>
+        <RotateCcw className="h-4 w-4 mr-2" />
+        Revert
+      </Button>
+      <Button
+        size="sm"
+        className="flex-1 bg-gradient-to-r from-primary to-secondary"
+        onClick={onSave}
+        disabled={editCount === 0 || saving}
+      >
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Saving...' : editCount === 0 ? 'No changes' : `Save ${editCount} change${editCount === 1 ? '' : 's'}`}
+      </Button>
+    </div>
+  </Card>
+);
+
+export default MapEditorToolbar;
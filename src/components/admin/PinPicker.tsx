@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import type { LatLng } from '@/types/campus';
+
+interface PinPickerProps {
+  token: string;
+  value: LatLng | null;
+  // Where to look when there is no pin yet
+  fallbackCenter: LatLng;
+  onChange: (position: LatLng) => void;
+}
+
+// Typed coordinates are only shown once they are a real position; mapbox throws on anything else
+const isValidPosition = (lat: number | undefined, lng: number | undefined) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+/** Small map for placing a location: click to drop the pin, drag to adjust it. */
+const PinPicker = ({ token, value, fallbackCenter, onChange }: PinPickerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [map, setMap] = useState<mapboxgl.Map | null>(null);
+  const markerRef = useRef<mapboxgl.Marker | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // Only read when the map is created; later changes move the pin instead
+  const startRef = useRef(fallbackCenter);
+  startRef.current = value && isValidPosition(value.lat, value.lng) ? value : fallbackCenter;
+
+  useEffect(() => {
+    if (!containerRef.current || !token) return;
+    mapboxgl.accessToken = token;
+
+    const start = startRef.current;
+    const newMap = new mapboxgl.Map({
+      container: containerRef.current,
+      style: 'mapbox://styles/mapbox/streets-v12',
+      center: [start.lng, start.lat],
+      zoom: 17
+    });
+    newMap.addControl(new mapboxgl.NavigationControl({ showCompass: false }), 'top-right');
+
+    const marker = new mapboxgl.Marker({ draggable: true, color: '#6366f1' });
+    marker.on('dragend', () => {
+      const { lat, lng } = marker.getLngLat();
+      onChangeRef.current({ lat, lng });
+    });
+    newMap.on('click', (e) => {
+      marker.setLngLat(e.lngLat).addTo(newMap);
+      onChangeRef.current({ lat: e.lngLat.lat, lng: e.lngLat.lng });
+    });
+
+    markerRef.current = marker;
+    setMap(newMap);
+    return () => {
+      newMap.remove();
+      setMap(null);
+      markerRef.current = null;
+    };
+  }, [token]);
+
+  // Follow coordinates typed into the form, and place the pin once a late-arriving token creates the map
+  const lat = value?.lat;
+  const lng = value?.lng;
+  useEffect(() => {
+    const marker = markerRef.current;
+    if (!map || !marker || !isValidPosition(lat, lng)) return;
+    marker.setLngLat([lng, lat]).addTo(map);
+    if (!map.getBounds()?.contains([lng, lat])) {
+      map.setCenter([lng, lat]);
+    }
+  }, [map, lat, lng]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-56 w-full overflow-hidden rounded-md border border-border"
+      aria-label="Map for placing the location pin"
+    />
+  );
+};
+
+export default PinPicker;
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { fetchMapVersions, type MapVersion } from '@/lib/location-drafts';
+
+interface VersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  busy: boolean;
+  onRollback: (version: number) => void;
+}
+
+/** Published versions, newest first, each of which can be restored. */
+const VersionHistory = ({ open, onOpenChange, busy, onRollback }: VersionHistoryProps) => {
+  const [versions, setVersions] = useState<MapVersion[] | null>(null);
+  const [restoring, setRestoring] = useState<MapVersion | null>(null);
+
+  // Reload whenever the sheet opens, since publishing adds versions
+  useEffect(() => {
+    if (!open) return;
+    setVersions(null);
+    fetchMapVersions()
+      .then(setVersions)
+      .catch(error => {
+        console.error('Error fetching versions:', error);
+        setVersions([]);
+      });
+  }, [open]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Published versions</SheetTitle>
+          <SheetDescription>Rolling back restores the locations exactly as they were published in that version.</SheetDescription>
+        </SheetHeader>
+        {versions === null ? (
+          <p className="py-8 text-center text-muted-foreground">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">Nothing has been published yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {versions.map((version, index) => (
+              <li key={version.version} className="flex items-start gap-3 rounded-md border border-border p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {index === 0 && <Badge variant="secondary">Live</Badge>}
+                  </div>
+                  {version.note && <p className="text-sm">{version.note}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(version.publishedAt).toLocaleString()} · {version.locationCount} locations
+                  </p>
+                </div>
+                {index > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setRestoring(version)} disabled={busy}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Roll back
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </SheetContent>
+
+      <AlertDialog open={!!restoring} onOpenChange={isOpen => !isOpen && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to version {restoring?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The public map changes immediately. Locations added since then are deleted, unless they already have
+              photos, opening hours, buildings or meetups, in which case nothing is rolled back. Versions only hold
+              the locations themselves, so none of that could be restored later. Drafts are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoring && onRollback(restoring.version)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+};
+
+export default VersionHistory;
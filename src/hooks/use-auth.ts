@@ -0,0 +1,48 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+
+import { supabase } from "@/integrations/supabase/client"
+
+interface AuthState {
+  session: Session | null
+  isAdmin: boolean
+  // True until the stored session and its role have been checked
+  loading: boolean
+}
+
+/**
+ * The signed-in session and whether it has the admin role, kept in step with
+ * sign-in and sign-out. Only gates UI: the database policies do the real checks.
+ */
+export function useAuth() {
+  const [state, setState] = React.useState<AuthState>({ session: null, isAdmin: false, loading: true })
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const checkRole = async (session: Session | null) => {
+      if (!session) {
+        if (!cancelled) setState({ session: null, isAdmin: false, loading: false })
+        return
+      }
+      const { data, error } = await supabase.rpc("has_role", { _user_id: session.user.id, _role: "admin" })
+      if (!cancelled) setState({ session, isAdmin: !error && !!data, loading: false })
+    }
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      // Deferred: supabase calls made inside this callback can deadlock the auth client
+      setTimeout(() => checkRole(session), 0)
+    })
+
+    return () => {
+      cancelled = true
+      subscription.unsubscribe()
+    }
+  }, [])
+
+  return state
+}
+
+export function useIsAdmin() {
+  return useAuth().isAdmin
+}
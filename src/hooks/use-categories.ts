@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import { fetchCategories, toCategoryLookup, type Category } from "@/lib/categories"
+
+/** The category table, in display order, plus a lookup by slug. */
+export function useCategories() {
+  const [categories, setCategories] = React.useState<Category[]>([])
+
+  React.useEffect(() => {
+    let cancelled = false
+    fetchCategories().then((loaded) => {
+      if (!cancelled) setCategories(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const lookup = React.useMemo(() => toCategoryLookup(categories), [categories])
+
+  return { categories, lookup }
+}
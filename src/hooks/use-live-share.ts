@@ -0,0 +1,153 @@
+import * as React from "react"
+
+import { haversineDistance } from "@/lib/geo"
+import { applySharePrecision, type SharePrecision } from "@/lib/location-privacy"
+import {
+  SHARE_MIN_MOVE_M,
+  SHARE_UPDATE_INTERVAL_MS,
+  fetchLiveShare,
+  isShareEndedError,
+  loadOwnedShare,
+  openLiveShareChannel,
+  pushLiveShare,
+  saveOwnedShare,
+  startLiveShare,
+  stopLiveShare,
+  type LiveShare,
+  type OwnedShare,
+  type SharedPosition,
+} from "@/lib/location-sharing"
+import { openMeetupChannel } from "@/lib/meetups"
+import type { CampusLocation } from "@/types/campus"
+
+// A sharer who stands still still sends this often, so recipients can tell the session is alive
+const SHARE_HEARTBEAT_MS = 60000
+// Recipients re-read the session this often in case a realtime message was missed
+const WATCH_POLL_MS = 30000
+
+/**
+ * The live share this browser is running, if any. While it runs, `position`
+ * is sent to recipients every SHARE_UPDATE_INTERVAL_MS once it has moved.
+ * Approximate shares are snapped to `locations` or coarsened here, before sending.
+ */
+export function useOwnLiveShare(position: SharedPosition | null, locations: CampusLocation[]) {
+  const [share, setShare] = React.useState<OwnedShare | null>(loadOwnedShare)
+  const positionRef = React.useRef(position)
+  positionRef.current = position
+  const locationsRef = React.useRef(locations)
+  locationsRef.current = locations
+  const channelRef = React.useRef<{ announce: () => Promise<unknown>; close: () => void } | null>(null)
+
+  const end = React.useCallback(() => {
+    saveOwnedShare(null)
+    setShare(null)
+  }, [])
+
+  React.useEffect(() => {
+    if (!share) return
+    const shareChannel = openLiveShareChannel(share.id)
+    // Meetup participants are followed as a group, so they announce there too
+    const meetupChannel = share.meetupId ? openMeetupChannel(share.meetupId) : null
+    const channel = {
+      announce: () => Promise.all([shareChannel.announce(), meetupChannel?.announce()]),
+      close: () => {
+        shareChannel.close()
+        meetupChannel?.close()
+      },
+    }
+    channelRef.current = channel
+    let sent: { position: SharedPosition; at: number } | null = null
+    let sending = false
+
+    const tick = async () => {
+      if (!positionRef.current || sending) return
+      // Compared after snapping, so moving within a grid cell or around one landmark sends nothing new
+      const current = applySharePrecision(positionRef.current, share.precision, locationsRef.current)
+      const moved = !sent || haversineDistance(sent.position, current) >= SHARE_MIN_MOVE_M
+      if (!moved && Date.now() - sent.at < SHARE_HEARTBEAT_MS) return
+
+      sending = true
+      try {
+        await pushLiveShare(share, current)
+        sent = { position: current, at: Date.now() }
+        channel.announce()
+      } catch (error) {
+        console.error("Error updating live share:", error)
+        // Stopped elsewhere or ran out. Otherwise the share and its token are kept and the next tick retries.
+        if (isShareEndedError(error)) end()
+      } finally {
+        sending = false
+      }
+    }
+
+    tick()
+    const timer = setInterval(tick, SHARE_UPDATE_INTERVAL_MS)
+    const expiry = setTimeout(end, new Date(share.expiresAt).getTime() - Date.now())
+    return () => {
+      clearInterval(timer)
+      clearTimeout(expiry)
+      channelRef.current = null
+      channel.close()
+    }
+  }, [share, end])
+
+  const start = React.useCallback(async (displayName: string, minutes: number, precision: SharePrecision, meetupId?: string) => {
+    if (!positionRef.current) throw new Error("Your location is not available yet.")
+    const shown = applySharePrecision(positionRef.current, precision, locationsRef.current)
+    const started = await startLiveShare(displayName, shown, minutes, precision, meetupId)
+    saveOwnedShare(started)
+    setShare(started)
+    return started
+  }, [])
+
+  const stop = React.useCallback(async () => {
+    if (!share) return
+    await stopLiveShare(share)
+    // Tell recipients straight away rather than at their next poll
+    await channelRef.current?.announce()
+    end()
+  }, [share, end])
+
+  return { share, start, stop }
+}
+
+/** Follows someone else's live share: loads it, then reloads whenever the sharer announces a change. */
+export function useWatchedLiveShare(shareId: string | null) {
+  const [share, setShare] = React.useState<LiveShare | null>(null)
+  const [status, setStatus] = React.useState<"idle" | "loading" | "ready" | "missing">("idle")
+
+  React.useEffect(() => {
+    setShare(null)
+    if (!shareId) {
+      setStatus("idle")
+      return
+    }
+    setStatus("loading")
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const result = await fetchLiveShare(shareId)
+        if (cancelled) return
+        setShare(result)
+        setStatus(result ? "ready" : "missing")
+      } catch (error) {
+        // A malformed id fails the uuid cast; treat it like an unknown session
+        console.error("Error fetching live share:", error)
+        if (!cancelled) setStatus(current => (current === "loading" ? "missing" : current))
+      }
+    }
+
+    const channel = openLiveShareChannel(shareId, load)
+    const timer = setInterval(load, WATCH_POLL_MS)
+    load()
+
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+      channel.close()
+    }
+  }, [shareId])
+
+  return { share, status }
+}
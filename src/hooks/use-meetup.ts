@@ -0,0 +1,52 @@
+import * as React from "react"
+
+import { fetchMeetup, openMeetupChannel, type Meetup } from "@/lib/meetups"
+
+// Re-read this often in case a realtime message was missed
+const MEETUP_POLL_MS = 30000
+
+/** Follows a group meetup: loads it, then reloads whenever a participant announces a change. */
+export function useMeetup(meetupId: string | null) {
+  const [meetup, setMeetup] = React.useState<Meetup | null>(null)
+  const [status, setStatus] = React.useState<"idle" | "loading" | "ready" | "missing">("idle")
+  const loadRef = React.useRef<() => Promise<void>>(async () => undefined)
+
+  React.useEffect(() => {
+    setMeetup(null)
+    if (!meetupId) {
+      setStatus("idle")
+      return
+    }
+    setStatus("loading")
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const result = await fetchMeetup(meetupId)
+        if (cancelled) return
+        setMeetup(result)
+        setStatus(result ? "ready" : "missing")
+      } catch (error) {
+        // A malformed id fails the uuid cast; treat it like an unknown meetup
+        console.error("Error fetching meetup:", error)
+        if (!cancelled) setStatus(current => (current === "loading" ? "missing" : current))
+      }
+    }
+    loadRef.current = load
+
+    const channel = openMeetupChannel(meetupId, load)
+    const timer = setInterval(load, MEETUP_POLL_MS)
+    load()
+
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+      channel.close()
+    }
+  }, [meetupId])
+
+  // Lets the page pick up its own join or leave without waiting for the broadcast
+  const reload = React.useCallback(() => loadRef.current(), [])
+
+  return { meetup, status, reload }
+}
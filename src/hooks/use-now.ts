@@ -0,0 +1,16 @@
+import * as React from "react"
+
+/**
+ * The current time, refreshed every `intervalMs`, for UI that shows
+ * time-dependent state such as whether a place is open.
+ */
+export function useNow(intervalMs = 60000) {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,64 @@
+import * as React from "react"
+
+import type { RouteProgress } from "@/lib/directions"
+
+// How far from the route line a position may drift before it counts as off route
+export const OFF_ROUTE_THRESHOLD_M = 30
+// The user has to stay off route this long before we re-route, to ride out GPS jitter
+const OFF_ROUTE_CONFIRM_MS = 6000
+// Minimum gap between two re-routes so a noisy fix cannot make the route flap
+const REROUTE_COOLDOWN_MS = 15000
+
+/**
+ * Calls `onOffRoute` once the user has been further than
+ * OFF_ROUTE_THRESHOLD_M from the active route for OFF_ROUTE_CONFIRM_MS,
+ * and again after each cooldown for as long as they stay off route.
+ */
+export function useOffRoute(progress: RouteProgress | null, onOffRoute: () => void) {
+  const onOffRouteRef = React.useRef(onOffRoute)
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null)
+  const lastRerouteRef = React.useRef(0)
+
+  React.useEffect(() => {
+    onOffRouteRef.current = onOffRoute
+  }, [onOffRoute])
+
+  const isOffRoute = !!progress && progress.distanceFromRoute > OFF_ROUTE_THRESHOLD_M
+
+  // Read by the timer, which outlives the render that scheduled it
+  const isOffRouteRef = React.useRef(isOffRoute)
+  React.useEffect(() => {
+    isOffRouteRef.current = isOffRoute
+  }, [isOffRoute])
+
+  React.useEffect(() => {
+    if (!isOffRoute) {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current)
+        timerRef.current = null
+      }
+      return
+    }
+    if (timerRef.current) return
+
+    // A re-route that fails, or one that still leaves the user off the new line, must not be the last try
+    const schedule = () => {
+      const cooldownLeft = lastRerouteRef.current + REROUTE_COOLDOWN_MS - Date.now()
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null
+        lastRerouteRef.current = Date.now()
+        onOffRouteRef.current()
+        if (isOffRouteRef.current && !timerRef.current) schedule()
+      }, Math.max(OFF_ROUTE_CONFIRM_MS, cooldownLeft))
+    }
+    schedule()
+  }, [isOffRoute])
+
+  React.useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+    }
+  }, [])
+
+  return isOffRoute
+}
@@ -14,6 +14,226 @@ export type Database = {
   }
   public: {
     Tables: {
+      campus_buildings: {
+        Row: {
+          aliases: string[]
+          code: string | null
+          created_at: string
+          footprint: Json
+          height_m: number
+          id: string
+          location_id: string
+          min_height_m: number
+          name: string | null
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          code?: string | null
+          created_at?: string
+          footprint: Json
+          height_m?: number
+          id?: string
+          location_id: string
+          min_height_m?: number
+          name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          code?: string | null
+          created_at?: string
+          footprint?: Json
+          height_m?: number
+          id?: string
+          location_id?: string
+          min_height_m?: number
+          name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_buildings_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "campus_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_floors: {
+        Row: {
+          building_id: string
+          created_at: string
+          id: string
+          level: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          building_id: string
+          created_at?: string
+          id?: string
+          level: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          building_id?: string
+          created_at?: string
+          id?: string
+          level?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_floors_building_id_fkey"
+            columns: ["building_id"]
+            isOneToOne: false
+            referencedRelation: "campus_buildings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_hours_exceptions: {
+        Row: {
+          closes_at: string | null
+          created_at: string
+          date: string
+          id: string
+          location_id: string
+          name: string | null
+          opens_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          closes_at?: string | null
+          created_at?: string
+          date: string
+          id?: string
+          location_id: string
+          name?: string | null
+          opens_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          closes_at?: string | null
+          created_at?: string
+          date?: string
+          id?: string
+          location_id?: string
+          name?: string | null
+          opens_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_hours_exceptions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "campus_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_location_drafts: {
+        Row: {
+          category: string
+          created_at: string
+          created_by: string | null
+          deleted: boolean
+          description: string | null
+          id: string
+          latitude: number
+          location_id: string
+          longitude: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          created_by?: string | null
+          deleted?: boolean
+          description?: string | null
+          id?: string
+          latitude: number
+          location_id: string
+          longitude: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          deleted?: boolean
+          description?: string | null
+          id?: string
+          latitude?: number
+          location_id?: string
+          longitude?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_location_drafts_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      campus_location_photos: {
+        Row: {
+          caption: string | null
+          created_at: string
+          height: number | null
+          id: string
+          location_id: string
+          sort_order: number
+          storage_path: string
+          thumbnail_path: string
+          updated_at: string
+          width: number | null
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          location_id: string
+          sort_order?: number
+          storage_path: string
+          thumbnail_path: string
+          updated_at?: string
+          width?: number | null
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string
+          height?: number | null
+          id?: string
+          location_id?: string
+          sort_order?: number
+          storage_path?: string
+          thumbnail_path?: string
+          updated_at?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_location_photos_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "campus_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campus_locations: {
         Row: {
           category: string
@@ -45,6 +265,377 @@ export type Database = {
           name?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "campus_locations_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      campus_map_versions: {
+        Row: {
+          created_at: string
+          id: string
+          location_count: number
+          note: string | null
+          published_by: string | null
+          snapshot: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location_count: number
+          note?: string | null
+          published_by?: string | null
+          snapshot: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location_count?: number
+          note?: string | null
+          published_by?: string | null
+          snapshot?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      campus_opening_hours: {
+        Row: {
+          closes_at: string
+          created_at: string
+          day_of_week: number
+          id: string
+          location_id: string
+          opens_at: string
+          updated_at: string
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string
+          day_of_week: number
+          id?: string
+          location_id: string
+          opens_at: string
+          updated_at?: string
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string
+          day_of_week?: number
+          id?: string
+          location_id?: string
+          opens_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_opening_hours_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "campus_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_path_edges: {
+        Row: {
+          bidirectional: boolean
+          created_at: string
+          from_node_id: string
+          has_kerb: boolean
+          id: string
+          incline_percent: number | null
+          kind: string
+          length_m: number | null
+          name: string | null
+          to_node_id: string
+          updated_at: string
+        }
+        Insert: {
+          bidirectional?: boolean
+          created_at?: string
+          from_node_id: string
+          has_kerb?: boolean
+          id?: string
+          incline_percent?: number | null
+          kind?: string
+          length_m?: number | null
+          name?: string | null
+          to_node_id: string
+          updated_at?: string
+        }
+        Update: {
+          bidirectional?: boolean
+          created_at?: string
+          from_node_id?: string
+          has_kerb?: boolean
+          id?: string
+          incline_percent?: number | null
+          kind?: string
+          length_m?: number | null
+          name?: string | null
+          to_node_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_path_edges_from_node_id_fkey"
+            columns: ["from_node_id"]
+            isOneToOne: false
+            referencedRelation: "campus_path_nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campus_path_edges_to_node_id_fkey"
+            columns: ["to_node_id"]
+            isOneToOne: false
+            referencedRelation: "campus_path_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_path_nodes: {
+        Row: {
+          created_at: string
+          id: string
+          is_entrance: boolean
+          latitude: number
+          location_id: string | null
+          longitude: number
+          name: string | null
+          step_free: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_entrance?: boolean
+          latitude: number
+          location_id?: string | null
+          longitude: number
+          name?: string | null
+          step_free?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_entrance?: boolean
+          latitude?: number
+          location_id?: string | null
+          longitude?: number
+          name?: string | null
+          step_free?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_path_nodes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "campus_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campus_rooms: {
+        Row: {
+          code: string
+          created_at: string
+          floor_id: string
+          footprint: Json
+          id: string
+          name: string | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          floor_id: string
+          footprint: Json
+          id?: string
+          name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          floor_id?: string
+          footprint?: Json
+          id?: string
+          name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campus_rooms_floor_id_fkey"
+            columns: ["floor_id"]
+            isOneToOne: false
+            referencedRelation: "campus_floors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          label: string
+          parent_slug: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          label: string
+          parent_slug?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          label?: string
+          parent_slug?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_slug_fkey"
+            columns: ["parent_slug"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      location_shares: {
+        Row: {
+          accuracy_m: number | null
+          created_at: string
+          display_name: string
+          expires_at: string
+          id: string
+          latitude: number
+          longitude: number
+          meetup_id: string | null
+          owner_token: string
+          place_label: string | null
+          precision_mode: string
+          stopped_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          accuracy_m?: number | null
+          created_at?: string
+          display_name: string
+          expires_at: string
+          id?: string
+          latitude: number
+          longitude: number
+          meetup_id?: string | null
+          owner_token?: string
+          place_label?: string | null
+          precision_mode?: string
+          stopped_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          accuracy_m?: number | null
+          created_at?: string
+          display_name?: string
+          expires_at?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          meetup_id?: string | null
+          owner_token?: string
+          place_label?: string | null
+          precision_mode?: string
+          stopped_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_shares_meetup_id_fkey"
+            columns: ["meetup_id"]
+            isOneToOne: false
+            referencedRelation: "meetups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meetups: {
+        Row: {
+          created_at: string
+          destination_id: string
+          expires_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          destination_id: string
+          expires_at: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          destination_id?: string
+          expires_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meetups_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: false
+            referencedRelation: "campus_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
         Relationships: []
       }
     }
@@ -52,10 +643,131 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_map_edits: {
+        Args: {
+          edits: Json
+        }
+        Returns: undefined
+      }
+      create_meetup: {
+        Args: {
+          destination_id: string
+          duration_minutes: number
+          name: string
+        }
+        Returns: {
+          expires_at: string
+          id: string
+        }[]
+      }
+      get_location_share: {
+        Args: {
+          share_id: string
+        }
+        Returns: {
+          accuracy_m: number
+          display_name: string
+          expires_at: string
+          id: string
+          latitude: number
+          longitude: number
+          place_label: string
+          precision_mode: string
+          stopped_at: string
+          updated_at: string
+        }[]
+      }
+      get_meetup: {
+        Args: {
+          meetup_id: string
+        }
+        Returns: {
+          destination_id: string
+          expires_at: string
+          id: string
+          name: string
+        }[]
+      }
+      get_meetup_participants: {
+        Args: {
+          meetup_id: string
+        }
+        Returns: {
+          accuracy_m: number
+          display_name: string
+          expires_at: string
+          id: string
+          latitude: number
+          longitude: number
+          place_label: string
+          precision_mode: string
+          stopped_at: string
+          updated_at: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      publish_location_drafts: {
+        Args: {
+          note?: string
+        }
+        Returns: number
+      }
+      record_map_version: {
+        Args: {
+          note: string
+        }
+        Returns: number
+      }
+      rollback_map_version: {
+        Args: {
+          target_version: number
+        }
+        Returns: number
+      }
+      start_location_share: {
+        Args: {
+          accuracy_m: number
+          display_name: string
+          duration_minutes: number
+          latitude: number
+          longitude: number
+          meetup_id?: string
+          place_label?: string
+          precision_mode?: string
+        }
+        Returns: {
+          expires_at: string
+          id: string
+          owner_token: string
+        }[]
+      }
+      stop_location_share: {
+        Args: {
+          owner_token: string
+          share_id: string
+        }
+        Returns: undefined
+      }
+      update_location_share: {
+        Args: {
+          accuracy_m: number
+          latitude: number
+          longitude: number
+          owner_token: string
+          place_label?: string
+          share_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -182,6 +894,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+    },
   },
 } as const
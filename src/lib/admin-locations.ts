@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  discardLocationDraft,
+  draftStatus,
+  fetchLocationDrafts,
+  saveLocationDraft,
+  type DraftStatus
+} from '@/lib/location-drafts';
+import type { LocationFormValues } from '@/lib/location-schema';
+import type { CampusLocation } from '@/types/campus';
+
+// Row as the admin table shows it: the pending draft if there is one, else the live data
+export interface AdminLocation extends CampusLocation {
+  updatedAt: string;
+  draft: DraftStatus | null;
+}
+
+export const fetchAdminLocations = async (): Promise<AdminLocation[]> => {
+  const [{ data, error }, drafts] = await Promise.all([
+    supabase.from('campus_locations').select('*').order('name'),
+    fetchLocationDrafts()
+  ]);
+
+  if (error) throw error;
+  const byLocation = new Map(drafts.map(draft => [draft.locationId, draft]));
+  const live: AdminLocation[] = data.map(row => ({
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    description: row.description ?? undefined,
+    updatedAt: row.updated_at,
+    draft: null
+  }));
+  const liveIds = new Set(live.map(location => location.id));
+
+  return [...live.map(location => location.id), ...drafts.map(draft => draft.locationId).filter(id => !liveIds.has(id))]
+    .map(id => {
+      const draft = byLocation.get(id);
+      const location = live.find(l => l.id === id);
+      return draft
+        ? {
+            id,
+            name: draft.name,
+            category: draft.category,
+            latitude: draft.latitude,
+            longitude: draft.longitude,
+            description: draft.description,
+            updatedAt: draft.updatedAt,
+            draft: draftStatus(draft, !!location)
+          }
+        : location;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Changes are saved as drafts and only reach the public map when published
+export const saveLocation = async (location: AdminLocation | null, values: LocationFormValues) => {
+  await saveLocationDraft({
+    locationId: location?.id ?? crypto.randomUUID(),
+    deleted: false,
+    name: values.name,
+    category: values.category,
+    latitude: values.latitude,
+    longitude: values.longitude,
+    description: values.description
+  });
+};
+
+// A location that was never published has nothing live to delete, so its draft simply goes
+export const deleteLocation = async (location: AdminLocation) => {
+  if (location.draft === 'new') {
+    await discardLocationDraft(location.id);
+    return;
+  }
+  await saveLocationDraft({ ...location, locationId: location.id, deleted: true });
+};
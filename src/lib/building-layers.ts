@@ -0,0 +1,99 @@
+import type mapboxgl from 'mapbox-gl';
+import type { FeatureCollection, Polygon } from 'geojson';
+import { CLUSTER_LAYER_ID } from '@/lib/location-layers';
+import type { CampusBuilding } from '@/types/campus';
+
+export const BUILDINGS_SOURCE_ID = 'campus-buildings';
+export const BUILDING_FILL_LAYER_ID = 'building-fills';
+export const BUILDING_EXTRUSION_LAYER_ID = 'building-extrusions';
+
+// Pitch used when the 3D view is switched on
+export const EXTRUDED_PITCH = 60;
+
+export type BuildingFeatureCollection = FeatureCollection<Polygon, {
+  buildingId: string;
+  locationId: string;
+  height: number;
+  minHeight: number;
+}>;
+
+export const buildingsToGeoJSON = (buildings: CampusBuilding[]): BuildingFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: buildings.map(building => ({
+    type: 'Feature',
+    properties: {
+      buildingId: building.id,
+      locationId: building.locationId,
+      height: building.height,
+      minHeight: building.minHeight
+    },
+    geometry: {
+      type: 'Polygon',
+      coordinates: building.footprint
+    }
+  }))
+});
+
+const visibility = (visible: boolean) => (visible ? 'visible' : 'none');
+
+/**
+ * Adds the footprint source with a flat fill layer and a 3D extrusion layer;
+ * only one of them is visible at a time. Both sit under the location pins.
+ */
+export const addBuildingLayers = (map: mapboxgl.Map, data: BuildingFeatureCollection, extruded: boolean) => {
+  if (!map.getSource(BUILDINGS_SOURCE_ID)) {
+    map.addSource(BUILDINGS_SOURCE_ID, {
+      type: 'geojson',
+      data
+    });
+  }
+
+  const beforeId = map.getLayer(CLUSTER_LAYER_ID) ? CLUSTER_LAYER_ID : undefined;
+
+  if (!map.getLayer(BUILDING_FILL_LAYER_ID)) {
+    map.addLayer({
+      id: BUILDING_FILL_LAYER_ID,
+      type: 'fill',
+      source: BUILDINGS_SOURCE_ID,
+      layout: {
+        visibility: visibility(!extruded)
+      },
+      paint: {
+        'fill-color': '#6366f1',
+        'fill-opacity': 0.25,
+        'fill-outline-color': '#4f46e5'
+      }
+    }, beforeId);
+  }
+
+  if (!map.getLayer(BUILDING_EXTRUSION_LAYER_ID)) {
+    map.addLayer({
+      id: BUILDING_EXTRUSION_LAYER_ID,
+      type: 'fill-extrusion',
+      source: BUILDINGS_SOURCE_ID,
+      layout: {
+        visibility: visibility(extruded)
+      },
+      paint: {
+        'fill-extrusion-color': '#818cf8',
+        'fill-extrusion-height': ['get', 'height'],
+        'fill-extrusion-base': ['get', 'minHeight'],
+        'fill-extrusion-opacity': 0.8
+      }
+    }, beforeId);
+  }
+};
+
+export const setBuildingData = (map: mapboxgl.Map, data: BuildingFeatureCollection) => {
+  const source = map.getSource(BUILDINGS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+  source?.setData(data);
+};
+
+export const setBuildingsExtruded = (map: mapboxgl.Map, extruded: boolean) => {
+  if (map.getLayer(BUILDING_FILL_LAYER_ID)) {
+    map.setLayoutProperty(BUILDING_FILL_LAYER_ID, 'visibility', visibility(!extruded));
+  }
+  if (map.getLayer(BUILDING_EXTRUSION_LAYER_ID)) {
+    map.setLayoutProperty(BUILDING_EXTRUSION_LAYER_ID, 'visibility', visibility(extruded));
+  }
+};
@@ -0,0 +1,28 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CampusBuilding } from '@/types/campus';
+
+/**
+ * Loads building footprints. Buildings are decoration on top of the location
+ * pins, so a failed request just leaves the map without them.
+ */
+export const fetchCampusBuildings = async (): Promise<CampusBuilding[]> => {
+  const { data, error } = await supabase
+    .from('campus_buildings')
+    .select('*');
+
+  if (error) {
+    console.error('Error fetching campus buildings:', error);
+    return [];
+  }
+
+  return (data || []).map(building => ({
+    id: building.id,
+    locationId: building.location_id,
+    name: building.name,
+    code: building.code,
+    aliases: building.aliases ?? [],
+    footprint: building.footprint as [number, number][][],
+    height: Number(building.height_m),
+    minHeight: Number(building.min_height_m)
+  }));
+};
@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PathEdgeKind, PathEdgeRecord, PathNode } from '@/lib/routing';
+
+// Bumped whenever the cached shape changes: v1 predates edge kinds and stepFree,
+// so routing from it could send a step-free route up the stairs
+const CACHE_KEY = 'campus-paths-cache-v2';
+
+export interface CampusPathData {
+  nodes: PathNode[];
+  edges: PathEdgeRecord[];
+}
+
+const readCache = (): CampusPathData | null => {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Loads the walking-path graph from Supabase and keeps a copy in localStorage,
+ * so routes can still be computed when the device is offline.
+ */
+export const fetchCampusPaths = async (): Promise<CampusPathData | null> => {
+  try {
+    const [nodesResponse, edgesResponse] = await Promise.all([
+      supabase.from('campus_path_nodes').select('*'),
+      supabase.from('campus_path_edges').select('*')
+    ]);
+
+    if (nodesResponse.error) throw nodesResponse.error;
+    if (edgesResponse.error) throw edgesResponse.error;
+
+    const data: CampusPathData = {
+      nodes: (nodesResponse.data || []).map(node => ({
+        id: node.id,
+        lat: Number(node.latitude),
+        lng: Number(node.longitude),
+        locationId: node.location_id,
+        name: node.name,
+        isEntrance: node.is_entrance,
+        stepFree: node.step_free
+      })),
+      edges: (edgesResponse.data || []).map(edge => ({
+        id: edge.id,
+        from: edge.from_node_id,
+        to: edge.to_node_id,
+        length: edge.length_m !== null ? Number(edge.length_m) : null,
+        bidirectional: edge.bidirectional,
+        name: edge.name,
+        kind: edge.kind as PathEdgeKind,
+        hasKerb: edge.has_kerb,
+        incline: edge.incline_percent !== null ? Number(edge.incline_percent) : null
+      }))
+    };
+
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(data));
+    } catch {
+      // Storage full or unavailable; routing still works for this session
+    }
+    return data;
+  } catch (error) {
+    console.error('Error fetching campus paths:', error);
+    return readCache();
+  }
+};
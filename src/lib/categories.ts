@@ -0,0 +1,146 @@
+import {
+  Accessibility,
+  Bike,
+  BookOpen,
+  Building,
+  Bus,
+  Coffee,
+  Dumbbell,
+  FileText,
+  FlaskConical,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Landmark,
+  Library,
+  MapPin,
+  Music,
+  ParkingCircle,
+  Printer,
+  Shield,
+  ShoppingBag,
+  Stethoscope,
+  Trees,
+  Users,
+  Utensils,
+  type LucideIcon
+} from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Category {
+  slug: string;
+  label: string;
+  color: string;
+  icon: string;
+  sortOrder: number;
+  parentSlug: string | null;
+}
+
+export type CategoryLookup = Record<string, Category>;
+
+// For locations whose category is missing from the table
+export const FALLBACK_CATEGORY_COLOR = 'hsl(var(--muted-foreground))';
+
+// Icons a category may name in categories.icon; anything else is drawn as a pin
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  accessibility: Accessibility,
+  bike: Bike,
+  'book-open': BookOpen,
+  building: Building,
+  bus: Bus,
+  coffee: Coffee,
+  dumbbell: Dumbbell,
+  'file-text': FileText,
+  'flask-conical': FlaskConical,
+  'graduation-cap': GraduationCap,
+  'heart-pulse': HeartPulse,
+  home: Home,
+  landmark: Landmark,
+  library: Library,
+  'map-pin': MapPin,
+  music: Music,
+  parking: ParkingCircle,
+  printer: Printer,
+  shield: Shield,
+  'shopping-bag': ShoppingBag,
+  stethoscope: Stethoscope,
+  trees: Trees,
+  users: Users,
+  utensils: Utensils
+};
+
+let categoriesCache: Promise<Category[]> | null = null;
+
+// Loaded once per page; a failed load is retried on the next call
+export const fetchCategories = () => {
+  if (!categoriesCache) {
+    categoriesCache = (async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('sort_order')
+        .order('label');
+
+      if (error) throw error;
+      return data.map(row => ({
+        slug: row.slug,
+        label: row.label,
+        color: row.color,
+        icon: row.icon,
+        sortOrder: row.sort_order,
+        parentSlug: row.parent_slug
+      }));
+    })().catch(error => {
+      console.error('Error fetching categories:', error);
+      categoriesCache = null;
+      return [];
+    });
+  }
+  return categoriesCache;
+};
+
+export const toCategoryLookup = (categories: Category[]): CategoryLookup =>
+  Object.fromEntries(categories.map(category => [category.slug, category]));
+
+export const categoryColor = (category: Category | undefined) => category?.color ?? FALLBACK_CATEGORY_COLOR;
+
+export const categoryIcon = (category: Category | undefined) => (category && CATEGORY_ICONS[category.icon]) || MapPin;
+
+export const categoryLabel = (lookup: CategoryLookup, slug: string) => lookup[slug]?.label ?? slug.replace(/-/g, ' ');
+
+// The category itself followed by its parent, grandparent and so on
+export const categoryAncestry = (lookup: CategoryLookup, slug: string) => {
+  const chain: string[] = [];
+  for (let current: string | null = slug; current && !chain.includes(current); current = lookup[current]?.parentSlug ?? null) {
+    chain.push(current);
+  }
+  return chain;
+};
+
+// Picking a parent category also matches everything filed under it
+export const isInCategories = (lookup: CategoryLookup, slug: string, active: string[]) =>
+  categoryAncestry(lookup, slug).some(ancestor => active.includes(ancestor));
+
+/**
+ * Known categories with each parent followed by its children, then any
+ * categories that only appear in the data.
+ */
+export const listCategories = (categories: Category[], locations: { category: string }[]) => {
+  const ordered: string[] = [];
+  const addWithChildren = (parent: string | null) =>
+    categories
+      .filter(category => category.parentSlug === parent && !ordered.includes(category.slug))
+      .forEach(category => {
+        ordered.push(category.slug);
+        addWithChildren(category.slug);
+      });
+  addWithChildren(null);
+  // Children of a parent that no longer exists
+  categories.forEach(category => {
+    if (!ordered.includes(category.slug)) ordered.push(category.slug);
+  });
+  locations.forEach(location => {
+    if (!ordered.includes(location.category)) ordered.push(location.category);
+  });
+  return ordered;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { categoryPath, directionsPath, parseMapLink, placePath } from '@/lib/deep-links';
+
+describe('parseMapLink', () => {
+  it('reads the links the map builds', () => {
+    expect(parseMapLink(placePath('café 1'), '')).toEqual({ kind: 'place', id: 'café 1' });
+    expect(parseMapLink(categoryPath('dining'), '')).toEqual({ kind: 'category', category: 'dining' });
+
+    const [pathname, search] = directionsPath('library', { from: { lat: 40.5, lng: -73.25 }, profile: 'step-free' }).split('?');
+    expect(parseMapLink(pathname, `?${search}`)).toEqual({
+      kind: 'directions',
+      to: 'library',
+      from: { lat: 40.5, lng: -73.25 },
+      profile: 'step-free'
+    });
+  });
+
+  it('routes from a location id, or from the user when no start is given', () => {
+    expect(parseMapLink('/directions', '?to=library&from=gym')).toMatchObject({ from: 'gym', profile: 'walking' });
+    expect(parseMapLink('/directions', '?to=library')).toMatchObject({ from: null });
+  });
+
+  it('treats anything else as the home view', () => {
+    expect(parseMapLink('/', '')).toEqual({ kind: 'home' });
+    expect(parseMapLink('/place', '')).toEqual({ kind: 'home' });
+    expect(parseMapLink('/directions', '?from=gym')).toEqual({ kind: 'home' });
+    expect(parseMapLink('/place/%E0%A4%A', '')).toEqual({ kind: 'home' });
+  });
+});
@@ -0,0 +1,104 @@
+import type { RoutingProfile } from '@/lib/routing';
+import type { LatLng } from '@/types/campus';
+
+// What the current URL asks the map to show
+export type MapLink =
+  | { kind: 'home' }
+  | { kind: 'place'; id: string }
+  | { kind: 'category'; category: string }
+  | {
+      kind: 'directions';
+      to: string;
+      // A location id, a raw point, or null for the user's own position
+      from: string | LatLng | null;
+      profile: RoutingProfile;
+    };
+
+const parsePoint = (value: string): LatLng | null => {
+  const [lat, lng] = value.split(',').map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+};
+
+export const parseMapLink = (pathname: string, search: string): MapLink => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A malformed escape such as /place/%E0%A4%A is not a link we understand
+    return { kind: 'home' };
+  }
+
+  if (segments[0] === 'place' && segments[1]) {
+    return { kind: 'place', id: segments[1] };
+  }
+  if (segments[0] === 'category' && segments[1]) {
+    return { kind: 'category', category: segments[1] };
+  }
+  if (segments[0] === 'directions') {
+    const params = new URLSearchParams(search);
+    const to = params.get('to');
+    const from = params.get('from');
+    if (to) {
+      return {
+        kind: 'directions',
+        to,
+        from: from ? parsePoint(from) ?? from : null,
+        profile: params.get('profile') === 'step-free' ? 'step-free' : 'walking'
+      };
+    }
+  }
+  return { kind: 'home' };
+};
+
+export const placePath = (id: string) => `/place/${encodeURIComponent(id)}`;
+
+export const categoryPath = (category: string) => `/category/${encodeURIComponent(category)}`;
+
+export const directionsPath = (to: string, { from, profile }: { from?: string | LatLng | null; profile?: RoutingProfile } = {}) => {
+  const params = new URLSearchParams({ to });
+  if (from) {
+    params.set('from', typeof from === 'string' ? from : `${from.lat},${from.lng}`);
+  }
+  if (profile && profile !== 'walking') {
+    params.set('profile', profile);
+  }
+  return `/directions?${params.toString()}`;
+};
+
+const CATEGORIES_PARAM = 'categories';
+
+// The category filter lives in the query string so it survives place and directions links
+export const parseCategories = (pathname: string, search: string) => {
+  const link = parseMapLink(pathname, search);
+  if (link.kind === 'category') return [link.category];
+  const value = new URLSearchParams(search).get(CATEGORIES_PARAM);
+  return value ? value.split(',').filter(Boolean) : [];
+};
+
+export const withCategories = (path: string, categories: string[]) => {
+  const [pathname, search = ''] = path.split('?');
+  const params = new URLSearchParams(search);
+  if (categories.length > 0) {
+    params.set(CATEGORIES_PARAM, categories.join(','));
+  } else {
+    params.delete(CATEGORIES_PARAM);
+  }
+  const query = params.toString();
+  return query ? `${pathname}?${query}` : pathname;
+};
+
+// Identifies the place or route a URL points at, ignoring the category filter
+export const linkKey = (path: string) => withCategories(path, []);
+
+const SHARE_PARAM = 'share';
+
+// Share links open on the home view with their signed token in the query string
+export const shareLinkPath = (token: string) => `/?${SHARE_PARAM}=${encodeURIComponent(token)}`;
+
+export const parseShareToken = (search: string) => new URLSearchParams(search).get(SHARE_PARAM);
+
+// Links from before share links were signed carried raw coordinates that anyone could edit
+export const hasUnsignedSharedPoint = (search: string) => {
+  const params = new URLSearchParams(search);
+  return params.has('sharedLat') || params.has('sharedLng');
+};
@@ -0,0 +1,186 @@
+import { bearing, haversineDistance, nearestPointOnLine } from '@/lib/geo';
+import type { PathEdgeKind, WalkingRoute } from '@/lib/routing';
+import type { LatLng } from '@/types/campus';
+
+export type Maneuver =
+  | 'depart'
+  | 'straight'
+  | 'slight-left'
+  | 'left'
+  | 'sharp-left'
+  | 'slight-right'
+  | 'right'
+  | 'sharp-right'
+  | 'arrive';
+
+export interface RouteStep {
+  maneuver: Maneuver;
+  instruction: string;
+  name: string | null;
+  // Length of this step and how far along the route it starts, in metres
+  distance: number;
+  startDistance: number;
+  location: [number, number];
+}
+
+export interface RouteDirections {
+  steps: RouteStep[];
+  distance: number;
+}
+
+export interface RouteProgress {
+  currentStepIndex: number;
+  travelled: number;
+  remainingDistance: number;
+  remainingDuration: number;
+  distanceFromRoute: number;
+}
+
+// Snap distance within which the destination counts as reached
+const ARRIVAL_RADIUS_M = 15;
+
+interface Leg {
+  from: [number, number];
+  to: [number, number];
+  name: string | null;
+  kind: PathEdgeKind;
+  distance: number;
+  bearing: number;
+}
+
+const toLatLng = ([lng, lat]: [number, number]): LatLng => ({ lat, lng });
+
+const compassDirections = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+const toCompass = (degrees: number) => compassDirections[Math.round(degrees / 45) % 8];
+
+const classifyTurn = (fromBearing: number, toBearing: number): Maneuver => {
+  const delta = ((toBearing - fromBearing + 540) % 360) - 180;
+  const magnitude = Math.abs(delta);
+  if (magnitude < 20) return 'straight';
+  const side = delta > 0 ? 'right' : 'left';
+  if (magnitude < 45) return `slight-${side}`;
+  if (magnitude < 135) return side;
+  return `sharp-${side}`;
+};
+
+const describeStep = (maneuver: Maneuver, name: string | null, legBearing: number, destinationName?: string) => {
+  const onto = name ? ` onto ${name}` : '';
+  switch (maneuver) {
+    case 'depart':
+      return `Head ${toCompass(legBearing)}${name ? ` on ${name}` : ''}`;
+    case 'arrive':
+      return `Arrive at ${destinationName || 'your destination'}`;
+    case 'straight':
+      return `Continue straight${onto}`;
+    case 'slight-left':
+    case 'slight-right':
+      return `Bear ${maneuver.replace('slight-', '')}${onto}`;
+    case 'sharp-left':
+    case 'sharp-right':
+      return `Make a sharp ${maneuver.replace('sharp-', '')}${onto}`;
+    default:
+      return `Turn ${maneuver}${onto}`;
+  }
+};
+
+const routeLegs = (route: WalkingRoute) => {
+  const legs: Leg[] = [];
+  route.segments.forEach(segment => {
+    for (let i = 1; i < segment.coordinates.length; i++) {
+      const from = segment.coordinates[i - 1];
+      const to = segment.coordinates[i];
+      const distance = haversineDistance(toLatLng(from), toLatLng(to));
+      // Zero-length legs carry no heading and would produce bogus turns
+      if (distance === 0) continue;
+      legs.push({
+        from,
+        to,
+        name: segment.edges?.[i - 1]?.name ?? null,
+        kind: segment.edges?.[i - 1]?.kind ?? 'path',
+        distance,
+        bearing: bearing(toLatLng(from), toLatLng(to))
+      });
+    }
+  });
+  return legs;
+};
+
+/**
+ * Turns a route geometry into a list of manoeuvres. Consecutive legs are
+ * merged into one step while the path keeps roughly the same heading and name.
+ */
+export const buildDirections = (route: WalkingRoute, destinationName?: string): RouteDirections => {
+  const legs = routeLegs(route);
+  const steps: RouteStep[] = [];
+  let travelled = 0;
+
+  legs.forEach((leg, index) => {
+    const previous = legs[index - 1];
+    const maneuver = previous ? classifyTurn(previous.bearing, leg.bearing) : 'depart';
+    const renamed = previous && leg.name && leg.name !== previous.name;
+    const changedKind = previous && leg.kind !== previous.kind;
+
+    if (!previous || maneuver !== 'straight' || renamed || changedKind) {
+      // Steps, ramps and elevators are called out explicitly so the user knows what is coming
+      const instruction = leg.kind === 'path'
+        ? describeStep(maneuver, leg.name, leg.bearing)
+        : `Take the ${leg.kind}${leg.name ? ` (${leg.name})` : ''}`;
+      steps.push({
+        maneuver,
+        instruction,
+        name: leg.name,
+        distance: leg.distance,
+        startDistance: travelled,
+        location: leg.from
+      });
+    } else {
+      steps[steps.length - 1].distance += leg.distance;
+    }
+    travelled += leg.distance;
+  });
+
+  const end = route.coordinates[route.coordinates.length - 1];
+  steps.push({
+    maneuver: 'arrive',
+    instruction: describeStep('arrive', null, 0, destinationName),
+    name: null,
+    distance: 0,
+    startDistance: travelled,
+    location: end
+  });
+
+  return { steps, distance: travelled };
+};
+
+export const getRouteProgress = (
+  route: WalkingRoute,
+  directions: RouteDirections,
+  position: LatLng
+): RouteProgress => {
+  const { distanceAlong, distanceFromLine } = nearestPointOnLine(route.coordinates, position);
+  const travelled = Math.min(distanceAlong, directions.distance);
+  const remainingDistance = Math.max(0, directions.distance - travelled);
+
+  let currentStepIndex = 0;
+  directions.steps.forEach((step, index) => {
+    if (step.maneuver !== 'arrive' && step.startDistance <= travelled) currentStepIndex = index;
+  });
+  if (remainingDistance <= ARRIVAL_RADIUS_M) currentStepIndex = directions.steps.length - 1;
+
+  return {
+    currentStepIndex,
+    travelled,
+    remainingDistance,
+    remainingDuration: directions.distance > 0 ? route.duration * (remainingDistance / directions.distance) : 0,
+    distanceFromRoute: distanceFromLine
+  };
+};
+
+export const formatDistance = (metres: number) =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(1)} km` : `${Math.round(metres)} m`;
+
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
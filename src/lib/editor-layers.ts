@@ -0,0 +1,240 @@
+import type mapboxgl from 'mapbox-gl';
+import type { FeatureCollection, LineString, Point, Polygon } from 'geojson';
+import type { EditorSelection, EditorState } from '@/lib/map-editor';
+
+export const EDITOR_BUILDINGS_SOURCE_ID = 'editor-buildings';
+export const EDITOR_PATHS_SOURCE_ID = 'editor-paths';
+export const EDITOR_HANDLES_SOURCE_ID = 'editor-handles';
+export const EDITOR_DRAFT_SOURCE_ID = 'editor-draft';
+
+export const EDITOR_BUILDING_FILL_LAYER_ID = 'editor-building-fills';
+export const EDITOR_BUILDING_OUTLINE_LAYER_ID = 'editor-building-outlines';
+export const EDITOR_PATH_LAYER_ID = 'editor-paths';
+export const EDITOR_DRAFT_LAYER_ID = 'editor-draft';
+export const EDITOR_NODE_LAYER_ID = 'editor-nodes';
+export const EDITOR_VERTEX_LAYER_ID = 'editor-vertices';
+export const EDITOR_LOCATION_LAYER_ID = 'editor-locations';
+export const EDITOR_LOCATION_LABEL_LAYER_ID = 'editor-location-labels';
+
+// Layers that can be grabbed and dragged, topmost first
+export const EDITOR_HANDLE_LAYER_IDS = [EDITOR_VERTEX_LAYER_ID, EDITOR_NODE_LAYER_ID, EDITOR_LOCATION_LAYER_ID];
+
+const SELECTED_COLOR = '#f59e0b';
+
+interface EditorFeatureProperties {
+  id: string;
+  selected: boolean;
+}
+
+type HandleKind = 'location' | 'node' | 'vertex';
+
+export interface EditorLayerData {
+  buildings: FeatureCollection<Polygon, EditorFeatureProperties>;
+  paths: FeatureCollection<LineString, EditorFeatureProperties>;
+  handles: FeatureCollection<Point, EditorFeatureProperties & { kind: HandleKind; index: number; label: string }>;
+  draft: FeatureCollection<LineString>;
+}
+
+const isSelected = (selection: EditorSelection, kind: string, id: string) =>
+  selection?.kind === kind && selection.id === id;
+
+/**
+ * Turns the editor state into the four sources the editor draws. Vertex
+ * handles are only produced for the selected building to keep the map calm.
+ * `draft` is the line being drawn, ending at the cursor.
+ */
+export const editorToGeoJSON = (
+  state: EditorState,
+  selection: EditorSelection,
+  draft: [number, number][]
+): EditorLayerData => {
+  const selectedBuilding = selection && (selection.kind === 'building' || selection.kind === 'vertex')
+    ? state.buildings[selection.id]
+    : undefined;
+
+  return {
+    buildings: {
+      type: 'FeatureCollection',
+      features: Object.values(state.buildings).map(building => ({
+        type: 'Feature',
+        properties: { id: building.id, selected: building.id === selectedBuilding?.id },
+        geometry: { type: 'Polygon', coordinates: [[...building.ring, building.ring[0]], ...building.holes] }
+      }))
+    },
+    paths: {
+      type: 'FeatureCollection',
+      features: Object.values(state.edges)
+        .filter(edge => state.nodes[edge.from] && state.nodes[edge.to])
+        .map(edge => ({
+          type: 'Feature',
+          properties: { id: edge.id, selected: isSelected(selection, 'edge', edge.id) },
+          geometry: {
+            type: 'LineString',
+            coordinates: [edge.from, edge.to].map(id => [state.nodes[id].lng, state.nodes[id].lat])
+          }
+        }))
+    },
+    handles: {
+      type: 'FeatureCollection',
+      features: [
+        ...Object.values(state.locations).map(location => ({
+          type: 'Feature' as const,
+          properties: {
+            kind: 'location' as const,
+            id: location.id,
+            index: -1,
+            label: location.name,
+            selected: isSelected(selection, 'location', location.id)
+          },
+          geometry: { type: 'Point' as const, coordinates: [location.lng, location.lat] }
+        })),
+        ...Object.values(state.nodes).map(node => ({
+          type: 'Feature' as const,
+          properties: { kind: 'node' as const, id: node.id, index: -1, label: '', selected: isSelected(selection, 'node', node.id) },
+          geometry: { type: 'Point' as const, coordinates: [node.lng, node.lat] }
+        })),
+        ...(selectedBuilding?.ring ?? []).map((vertex, index) => ({
+          type: 'Feature' as const,
+          properties: {
+            kind: 'vertex' as const,
+            id: selectedBuilding.id,
+            index,
+            label: '',
+            selected: selection?.kind === 'vertex' && selection.index === index
+          },
+          geometry: { type: 'Point' as const, coordinates: vertex }
+        }))
+      ]
+    },
+    draft: {
+      type: 'FeatureCollection',
+      features: draft.length < 2 ? [] : [{
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'LineString', coordinates: draft }
+      }]
+    }
+  };
+};
+
+const selectedColor = (color: string): mapboxgl.ExpressionSpecification =>
+  ['case', ['get', 'selected'], SELECTED_COLOR, color];
+
+const handleFilter = (kind: HandleKind): mapboxgl.FilterSpecification => ['==', ['get', 'kind'], kind];
+
+/** Adds the editor's sources and layers: footprints at the bottom, handles on top. */
+export const addEditorLayers = (map: mapboxgl.Map, data: EditorLayerData) => {
+  const sources: [string, EditorLayerData[keyof EditorLayerData]][] = [
+    [EDITOR_BUILDINGS_SOURCE_ID, data.buildings],
+    [EDITOR_PATHS_SOURCE_ID, data.paths],
+    [EDITOR_HANDLES_SOURCE_ID, data.handles],
+    [EDITOR_DRAFT_SOURCE_ID, data.draft]
+  ];
+  sources.forEach(([id, sourceData]) => {
+    if (!map.getSource(id)) map.addSource(id, { type: 'geojson', data: sourceData });
+  });
+
+  const layers: mapboxgl.AnyLayer[] = [
+    {
+      id: EDITOR_BUILDING_FILL_LAYER_ID,
+      type: 'fill',
+      source: EDITOR_BUILDINGS_SOURCE_ID,
+      paint: {
+        'fill-color': selectedColor('#6366f1'),
+        'fill-opacity': 0.3
+      }
+    },
+    {
+      id: EDITOR_BUILDING_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: EDITOR_BUILDINGS_SOURCE_ID,
+      paint: {
+        'line-color': selectedColor('#4f46e5'),
+        'line-width': 2
+      }
+    },
+    {
+      id: EDITOR_PATH_LAYER_ID,
+      type: 'line',
+      source: EDITOR_PATHS_SOURCE_ID,
+      layout: { 'line-cap': 'round' },
+      paint: {
+        'line-color': selectedColor('#10b981'),
+        'line-width': 5
+      }
+    },
+    {
+      id: EDITOR_DRAFT_LAYER_ID,
+      type: 'line',
+      source: EDITOR_DRAFT_SOURCE_ID,
+      paint: {
+        'line-color': SELECTED_COLOR,
+        'line-width': 3,
+        'line-dasharray': [2, 1]
+      }
+    },
+    {
+      id: EDITOR_LOCATION_LAYER_ID,
+      type: 'circle',
+      source: EDITOR_HANDLES_SOURCE_ID,
+      filter: handleFilter('location'),
+      paint: {
+        'circle-radius': 9,
+        'circle-color': selectedColor('#3b82f6'),
+        'circle-stroke-width': 2,
+        'circle-stroke-color': '#ffffff'
+      }
+    },
+    {
+      id: EDITOR_LOCATION_LABEL_LAYER_ID,
+      type: 'symbol',
+      source: EDITOR_HANDLES_SOURCE_ID,
+      filter: handleFilter('location'),
+      layout: {
+        'text-field': ['get', 'label'],
+        'text-size': 12,
+        'text-offset': [0, 1.4],
+        'text-anchor': 'top'
+      },
+      paint: {
+        'text-color': '#1f2937',
+        'text-halo-color': '#ffffff',
+        'text-halo-width': 1.5
+      }
+    },
+    {
+      id: EDITOR_NODE_LAYER_ID,
+      type: 'circle',
+      source: EDITOR_HANDLES_SOURCE_ID,
+      filter: handleFilter('node'),
+      paint: {
+        'circle-radius': 6,
+        'circle-color': selectedColor('#10b981'),
+        'circle-stroke-width': 2,
+        'circle-stroke-color': '#ffffff'
+      }
+    },
+    {
+      id: EDITOR_VERTEX_LAYER_ID,
+      type: 'circle',
+      source: EDITOR_HANDLES_SOURCE_ID,
+      filter: handleFilter('vertex'),
+      paint: {
+        'circle-radius': 6,
+        'circle-color': '#ffffff',
+        'circle-stroke-width': 2,
+        'circle-stroke-color': selectedColor('#4f46e5')
+      }
+    }
+  ];
+  layers.forEach(layer => {
+    if (!map.getLayer(layer.id)) map.addLayer(layer);
+  });
+};
+
+export const setEditorData = (map: mapboxgl.Map, data: EditorLayerData) => {
+  (map.getSource(EDITOR_BUILDINGS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined)?.setData(data.buildings);
+  (map.getSource(EDITOR_PATHS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined)?.setData(data.paths);
+  (map.getSource(EDITOR_HANDLES_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined)?.setData(data.handles);
+  (map.getSource(EDITOR_DRAFT_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined)?.setData(data.draft);
+};
@@ -0,0 +1,87 @@
+import type { LatLng } from '@/types/campus';
+
+const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points in metres
+export const haversineDistance = (a: LatLng, b: LatLng) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const toLngLat = (point: LatLng): [number, number] => [point.lng, point.lat];
+
+// Initial compass bearing from a to b in degrees (0 = north, clockwise)
+export const bearing = (a: LatLng, b: LatLng) => {
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.lat));
+  const x =
+    Math.cos(toRadians(a.lat)) * Math.sin(toRadians(b.lat)) -
+    Math.sin(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+/**
+ * Projects a point onto a [lng, lat] line. Uses a local equirectangular
+ * approximation, which is accurate to well under a metre at campus scale.
+ */
+export const nearestPointOnLine = (coordinates: [number, number][], point: LatLng) => {
+  const metresPerDegLat = 111320;
+  const metresPerDegLng = 111320 * Math.cos(toRadians(point.lat));
+
+  let best = { distanceFromLine: Infinity, distanceAlong: 0, segmentIndex: 0 };
+  let travelled = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const ax = (coordinates[i - 1][0] - point.lng) * metresPerDegLng;
+    const ay = (coordinates[i - 1][1] - point.lat) * metresPerDegLat;
+    const bx = (coordinates[i][0] - point.lng) * metresPerDegLng;
+    const by = (coordinates[i][1] - point.lat) * metresPerDegLat;
+    const dx = bx - ax;
+    const dy = by - ay;
+    const segmentLength = Math.hypot(dx, dy);
+    const t = segmentLength > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / (segmentLength ** 2))) : 0;
+    const distanceFromLine = Math.hypot(ax + t * dx, ay + t * dy);
+
+    if (distanceFromLine < best.distanceFromLine) {
+      best = { distanceFromLine, distanceAlong: travelled + t * segmentLength, segmentIndex: i - 1 };
+    }
+    travelled += segmentLength;
+  }
+
+  return best;
+};
+
+// Ray-casting test against GeoJSON polygon rings; holes (later rings) exclude the point
+export const pointInPolygon = (point: LatLng, rings: [number, number][][]) => {
+  const inRing = (ring: [number, number][]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > point.lat) !== (yj > point.lat) && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  };
+
+  const [outer, ...holes] = rings;
+  return !!outer && inRing(outer) && !holes.some(inRing);
+};
+
+// Vertex average of the outer ring; good enough to label or fly to a room-sized polygon
+export const polygonCenter = (rings: [number, number][][]): LatLng => {
+  const ring = rings[0] ?? [];
+  // Closed rings repeat the first vertex at the end
+  const vertices = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  const sum = vertices.reduce((acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / vertices.length, lng: sum.lng / vertices.length };
+};
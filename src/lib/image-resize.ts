@@ -0,0 +1,43 @@
+export interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Scales an image down so its longest side is at most `maxSize` pixels and
+ * re-encodes it as JPEG. Smaller images keep their size but are still re-encoded,
+ * which also strips metadata such as GPS tags from phone photos.
+ */
+export const resizeImage = async (file: Blob, maxSize: number, quality = 0.85): Promise<ResizedImage> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) throw new Error('Could not encode image');
+  return { blob, width, height };
+};
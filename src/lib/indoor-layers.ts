@@ -0,0 +1,125 @@
+import type mapboxgl from 'mapbox-gl';
+import type { FeatureCollection, Polygon } from 'geojson';
+import { INDOOR_MIN_ZOOM } from '@/lib/indoor';
+import { CLUSTER_LAYER_ID } from '@/lib/location-layers';
+import type { CampusRoom } from '@/types/campus';
+
+export const ROOMS_SOURCE_ID = 'campus-rooms';
+export const ROOM_FILL_LAYER_ID = 'room-fills';
+export const ROOM_OUTLINE_LAYER_ID = 'room-outlines';
+export const ROOM_LABEL_LAYER_ID = 'room-labels';
+
+export type RoomFeatureCollection = FeatureCollection<Polygon, {
+  roomId: string;
+  floorId: string;
+  code: string;
+  label: string;
+}>;
+
+// Which floor is on show, and which room (if any) to highlight on it
+export interface IndoorView {
+  floorId: string | null;
+  highlightedRoomId: string | null;
+}
+
+export const roomsToGeoJSON = (rooms: CampusRoom[]): RoomFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: rooms.map(room => ({
+    type: 'Feature',
+    properties: {
+      roomId: room.id,
+      floorId: room.floorId,
+      code: room.code,
+      label: room.name ? `${room.code}\n${room.name}` : room.code
+    },
+    geometry: {
+      type: 'Polygon',
+      coordinates: room.footprint
+    }
+  }))
+});
+
+const floorFilter = (floorId: string | null): mapboxgl.FilterSpecification =>
+  ['==', ['get', 'floorId'], floorId ?? ''];
+
+const roomFillColor = (highlightedRoomId: string | null): mapboxgl.ExpressionSpecification =>
+  ['case', ['==', ['get', 'roomId'], highlightedRoomId ?? ''], '#f59e0b', '#e0e7ff'];
+
+/**
+ * Adds room polygons, outlines and labels. Only rooms on the floor in `view`
+ * are drawn, and only past INDOOR_MIN_ZOOM.
+ */
+export const addIndoorLayers = (map: mapboxgl.Map, data: RoomFeatureCollection, view: IndoorView) => {
+  if (!map.getSource(ROOMS_SOURCE_ID)) {
+    map.addSource(ROOMS_SOURCE_ID, {
+      type: 'geojson',
+      data
+    });
+  }
+
+  const beforeId = map.getLayer(CLUSTER_LAYER_ID) ? CLUSTER_LAYER_ID : undefined;
+
+  if (!map.getLayer(ROOM_FILL_LAYER_ID)) {
+    map.addLayer({
+      id: ROOM_FILL_LAYER_ID,
+      type: 'fill',
+      source: ROOMS_SOURCE_ID,
+      minzoom: INDOOR_MIN_ZOOM,
+      filter: floorFilter(view.floorId),
+      paint: {
+        'fill-color': roomFillColor(view.highlightedRoomId),
+        'fill-opacity': 0.85
+      }
+    }, beforeId);
+  }
+
+  if (!map.getLayer(ROOM_OUTLINE_LAYER_ID)) {
+    map.addLayer({
+      id: ROOM_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: ROOMS_SOURCE_ID,
+      minzoom: INDOOR_MIN_ZOOM,
+      filter: floorFilter(view.floorId),
+      paint: {
+        'line-color': '#4f46e5',
+        'line-width': 1.5
+      }
+    }, beforeId);
+  }
+
+  if (!map.getLayer(ROOM_LABEL_LAYER_ID)) {
+    map.addLayer({
+      id: ROOM_LABEL_LAYER_ID,
+      type: 'symbol',
+      source: ROOMS_SOURCE_ID,
+      minzoom: INDOOR_MIN_ZOOM,
+      filter: floorFilter(view.floorId),
+      layout: {
+        'text-field': ['get', 'label'],
+        'text-size': 12,
+        'text-max-width': 8
+      },
+      paint: {
+        'text-color': '#1e1b4b',
+        'text-halo-color': 'rgba(255,255,255,0.9)',
+        'text-halo-width': 1.5
+      }
+    }, beforeId);
+  }
+};
+
+export const setRoomData = (map: mapboxgl.Map, data: RoomFeatureCollection) => {
+  const source = map.getSource(ROOMS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+  source?.setData(data);
+};
+
+export const setIndoorView = (map: mapboxgl.Map, view: IndoorView) => {
+  [ROOM_FILL_LAYER_ID, ROOM_OUTLINE_LAYER_ID, ROOM_LABEL_LAYER_ID].forEach(layerId => {
+    if (map.getLayer(layerId)) {
+      map.setFilter(layerId, floorFilter(view.floorId));
+    }
+  });
+  if (map.getLayer(ROOM_FILL_LAYER_ID)) {
+    map.setPaintProperty(ROOM_FILL_LAYER_ID, 'fill-color', roomFillColor(view.highlightedRoomId));
+  }
+};
@@ -0,0 +1,115 @@
+import { supabase } from '@/integrations/supabase/client';
+import { haversineDistance, pointInPolygon, polygonCenter } from '@/lib/geo';
+import type { CampusGraph, PathNode } from '@/lib/routing';
+import type { CampusBuilding, CampusFloor, CampusLocation, CampusRoom, LatLng } from '@/types/campus';
+
+// Floors and rooms only appear once the map is zoomed in this far
+export const INDOOR_MIN_ZOOM = 17.5;
+
+export interface IndoorData {
+  floors: CampusFloor[];
+  rooms: CampusRoom[];
+}
+
+export interface ResolvedRoom {
+  room: CampusRoom;
+  floor: CampusFloor;
+  building: CampusBuilding;
+  location: CampusLocation;
+  // Closest way into the building from the room, if the path graph knows one
+  entrance: PathNode | null;
+  center: LatLng;
+}
+
+export interface IndoorContext {
+  floors: CampusFloor[];
+  buildings: CampusBuilding[];
+  locations: CampusLocation[];
+  graph: CampusGraph | null;
+}
+
+export const fetchIndoorData = async (): Promise<IndoorData> => {
+  const [floorsResponse, roomsResponse] = await Promise.all([
+    supabase.from('campus_floors').select('*'),
+    supabase.from('campus_rooms').select('*')
+  ]);
+
+  if (floorsResponse.error || roomsResponse.error) {
+    console.error('Error fetching indoor maps:', floorsResponse.error || roomsResponse.error);
+    return { floors: [], rooms: [] };
+  }
+
+  return {
+    floors: floorsResponse.data.map(floor => ({
+      id: floor.id,
+      buildingId: floor.building_id,
+      level: floor.level,
+      name: floor.name
+    })),
+    rooms: roomsResponse.data.map(room => ({
+      id: room.id,
+      floorId: room.floor_id,
+      code: room.code,
+      name: room.name,
+      footprint: room.footprint as [number, number][][]
+    }))
+  };
+};
+
+// "LT 2", "lt2" and "LT-2" should all find the same room
+export const normaliseRoomText = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const searchRooms = (rooms: CampusRoom[], query: string) => {
+  const needle = normaliseRoomText(query);
+  if (!needle) return [];
+  return rooms.filter(room =>
+    normaliseRoomText(room.code).includes(needle) || normaliseRoomText(room.name ?? '').includes(needle)
+  );
+};
+
+// Floors of a building, lowest first
+export const floorsOfBuilding = (floors: CampusFloor[], buildingId: string) =>
+  floors.filter(floor => floor.buildingId === buildingId).sort((a, b) => a.level - b.level);
+
+// The floor shown when a building first comes into view: ground level, or the lowest above it
+export const defaultFloor = (floors: CampusFloor[]) =>
+  floors.find(floor => floor.level === 0) ?? floors.find(floor => floor.level > 0) ?? floors[0] ?? null;
+
+export const buildingAt = (buildings: CampusBuilding[], point: LatLng) =>
+  buildings.find(building => pointInPolygon(point, building.footprint)) ?? null;
+
+const nearestEntrance = (graph: CampusGraph | null, locationId: string, point: LatLng) => {
+  if (!graph) return null;
+  let best: PathNode | null = null;
+  let bestDistance = Infinity;
+  for (const node of graph.nodes.values()) {
+    if (node.locationId !== locationId || !node.isEntrance) continue;
+    const distance = haversineDistance(node, point);
+    if (distance < bestDistance) {
+      best = node;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * Walks a room up to its floor, building and location, and picks the entrance
+ * nearest the room. Returns null if any link in that chain is missing.
+ */
+export const resolveRoom = (room: CampusRoom, { floors, buildings, locations, graph }: IndoorContext): ResolvedRoom | null => {
+  const floor = floors.find(f => f.id === room.floorId);
+  const building = floor && buildings.find(b => b.id === floor.buildingId);
+  const location = building && locations.find(l => l.id === building.locationId);
+  if (!floor || !building || !location) return null;
+
+  const center = polygonCenter(room.footprint);
+  return {
+    room,
+    floor,
+    building,
+    location,
+    entrance: nearestEntrance(graph, location.id, center),
+    center
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { optimiseStopOrder, planItinerary } from '@/lib/itinerary';
+import type { OffCampusLegFetcher } from '@/lib/routing';
+import type { CampusLocation } from '@/types/campus';
+
+// Walking costs as the crow flies between stops on a plan of the campus
+const costsBetween = (points: [number, number][]) =>
+  points.map(([ax, ay]) => points.map(([bx, by]) => Math.hypot(ax - bx, ay - by)));
+
+describe('optimiseStopOrder', () => {
+  it('keeps short plans as they are', () => {
+    expect(optimiseStopOrder([])).toEqual([]);
+    expect(optimiseStopOrder(costsBetween([[0, 0], [5, 5]]))).toEqual([0, 1]);
+  });
+
+  it('visits stops along a street in order, starting from the first', () => {
+    expect(optimiseStopOrder(costsBetween([[0, 0], [300, 0], [100, 0], [200, 0]]))).toEqual([0, 2, 3, 1]);
+    expect(optimiseStopOrder(costsBetween([[200, 0], [0, 0], [300, 0], [100, 0]]))).toEqual([0, 2, 3, 1]);
+  });
+
+  it('improves on always walking to the nearest stop next', () => {
+    // Nearest-first goes 0, 2, 4, 3, 1 and has to double back past stop 0
+    expect(optimiseStopOrder(costsBetween([[9, 8], [1, 5], [9, 7], [6, 6], [9, 9]]))).toEqual([0, 4, 2, 3, 1]);
+  });
+});
+
+describe('planItinerary', () => {
+  const stop = (id: string, latitude: number): CampusLocation => ({ id, name: id, category: 'academic', latitude, longitude: 0 });
+  const stops = [stop('library', 0), stop('cafe', 0.01), stop('gym', 0.02)];
+
+  // Straight lines between stops, except into the gym, which cannot be reached
+  const fetchOffCampusLeg: OffCampusLegFetcher = async (from, to) =>
+    to.lat === 0.02 ? null : { source: 'mapbox', coordinates: [[from.lng, from.lat], [to.lng, to.lat]], distance: 1000, duration: 700 };
+
+  it('joins the legs into one route', async () => {
+    const itinerary = await planItinerary(null, stops.slice(0, 2), { fetchOffCampusLeg });
+    expect(itinerary?.legs.map(leg => leg.route?.distance)).toEqual([1000]);
+    expect(itinerary?.route?.distance).toBe(1000);
+  });
+
+  it('leaves out the joined route when a leg cannot be routed', async () => {
+    const itinerary = await planItinerary(null, stops, { fetchOffCampusLeg });
+    expect(itinerary?.legs.map(leg => leg.route !== null)).toEqual([true, false]);
+    expect(itinerary?.route).toBeNull();
+  });
+});
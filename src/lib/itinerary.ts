@@ -0,0 +1,115 @@
+import { haversineDistance } from '@/lib/geo';
+import { joinRoutes, planWalkingRoute, type CampusGraph, type RouteOptions, type WalkingRoute } from '@/lib/routing';
+import type { CampusLocation, LatLng } from '@/types/campus';
+
+export interface ItineraryLeg {
+  from: CampusLocation;
+  to: CampusLocation;
+  // Null when no route could be found between the two stops
+  route: WalkingRoute | null;
+}
+
+export interface Itinerary {
+  stops: CampusLocation[];
+  legs: ItineraryLeg[];
+  // The whole walk as one line; null if any leg has no route, rather than jumping the gap
+  route: WalkingRoute | null;
+}
+
+export interface ItineraryOptions extends Omit<RouteOptions, 'toLocationId'> {
+  optimiseOrder?: boolean;
+}
+
+// Penalty that keeps unroutable pairs at the end of the optimiser's preferences
+const UNROUTABLE_COST = 1e7;
+
+const toPoint = (location: CampusLocation): LatLng => ({ lat: location.latitude, lng: location.longitude });
+
+const pathCost = (order: number[], costs: number[][]) => {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) total += costs[order[i - 1]][order[i]];
+  return total;
+};
+
+/**
+ * Orders stops to minimise total walking cost, keeping the first stop fixed
+ * as the starting point. Nearest-neighbour seed refined with 2-opt, which is
+ * near-optimal for the handful of stops in a day plan.
+ */
+export const optimiseStopOrder = (costs: number[][]) => {
+  const count = costs.length;
+  if (count <= 2) return [...Array(count).keys()];
+
+  const order = [0];
+  const unvisited = new Set([...Array(count).keys()].slice(1));
+  while (unvisited.size > 0) {
+    const last = order[order.length - 1];
+    let next = -1;
+    for (const candidate of unvisited) {
+      if (next === -1 || costs[last][candidate] < costs[last][next]) next = candidate;
+    }
+    order.push(next);
+    unvisited.delete(next);
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < count - 1; i++) {
+      for (let k = i + 1; k < count; k++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        if (pathCost(candidate, costs) < pathCost(order, costs) - 1e-6) {
+          order.splice(0, count, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+// Walking distances between every pair of stops, computed offline on the path network
+const buildCostMatrix = async (graph: CampusGraph | null, stops: CampusLocation[], options: RouteOptions) => {
+  const costs: number[][] = stops.map(() => stops.map(() => 0));
+  for (let i = 0; i < stops.length; i++) {
+    for (let j = 0; j < stops.length; j++) {
+      if (i === j) continue;
+      const route = await planWalkingRoute(graph, toPoint(stops[i]), toPoint(stops[j]), {
+        profile: options.profile,
+        toLocationId: stops[j].id
+      });
+      costs[i][j] = route ? route.distance : UNROUTABLE_COST + haversineDistance(toPoint(stops[i]), toPoint(stops[j]));
+    }
+  }
+  return costs;
+};
+
+export const planItinerary = async (
+  graph: CampusGraph | null,
+  stops: CampusLocation[],
+  { optimiseOrder = false, ...routeOptions }: ItineraryOptions = {}
+): Promise<Itinerary | null> => {
+  if (stops.length < 2) return null;
+
+  let ordered = stops;
+  if (optimiseOrder && stops.length > 2) {
+    const costs = await buildCostMatrix(graph, stops, routeOptions);
+    ordered = optimiseStopOrder(costs).map(index => stops[index]);
+  }
+
+  const legs: ItineraryLeg[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const from = ordered[i - 1];
+    const to = ordered[i];
+    const route = await planWalkingRoute(graph, toPoint(from), toPoint(to), { ...routeOptions, toLocationId: to.id });
+    legs.push({ from, to, route });
+  }
+
+  const complete = legs.every(leg => leg.route !== null);
+  return {
+    stops: ordered,
+    legs,
+    route: complete ? joinRoutes(legs.map(leg => leg.route as WalkingRoute)) : null
+  };
+};
@@ -0,0 +1,57 @@
+import type mapboxgl from 'mapbox-gl';
+
+// Adds a group of sources/layers to a freshly loaded style. Must be safe to call repeatedly.
+export type LayerInstaller = (map: mapboxgl.Map) => void | Promise<void>;
+
+export interface LayerRegistry {
+  register: (id: string, install: LayerInstaller) => void;
+  unregister: (id: string, remove?: (map: mapboxgl.Map) => void) => void;
+  // Use instead of map.setStyle so the registry knows the old style is going away
+  setStyle: (style: string) => void;
+}
+
+/**
+ * setStyle throws away every custom source and layer. The registry remembers
+ * how to add each group back and replays them, in registration order, on every
+ * style.load so routes, locations and overlays survive a basemap switch.
+ *
+ * Readiness is tracked here rather than read from map.isStyleLoaded(), which is
+ * also false while tiles load, e.g. mid-flyTo, and would drop a route drawn then.
+ * The registry must be created before the map's first style.load.
+ */
+export const createLayerRegistry = (map: mapboxgl.Map): LayerRegistry => {
+  const installers = new Map<string, LayerInstaller>();
+  let styleReady = false;
+
+  const install = async (installer: LayerInstaller) => {
+    try {
+      await installer(map);
+    } catch (error) {
+      console.error('Error adding map layers:', error);
+    }
+  };
+
+  map.on('style.load', () => {
+    styleReady = true;
+    installers.forEach(installer => {
+      install(installer);
+    });
+  });
+
+  return {
+    register: (id, installer) => {
+      installers.set(id, installer);
+      // Before the first style.load the replay above picks it up instead
+      if (styleReady) install(installer);
+    },
+    unregister: (id, remove) => {
+      installers.delete(id);
+      // While a new style loads there is nothing to remove; the replay simply skips it
+      if (remove && styleReady) remove(map);
+    },
+    setStyle: style => {
+      styleReady = false;
+      map.setStyle(style);
+    }
+  };
+};
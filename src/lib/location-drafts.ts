@@ -0,0 +1,146 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { CampusLocation } from '@/types/campus';
+
+// Session flag that makes the public map show drafts, for admins only
+const PREVIEW_STORAGE_KEY = 'campus-map-preview-drafts';
+
+// An unpublished change to one location
+export interface LocationDraft {
+  locationId: string;
+  deleted: boolean;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  description?: string;
+  updatedAt: string;
+}
+
+export type DraftStatus = 'new' | 'edited' | 'deleted';
+
+export interface MapVersion {
+  version: number;
+  note: string | null;
+  locationCount: number;
+  publishedAt: string;
+}
+
+export const fetchLocationDrafts = async (): Promise<LocationDraft[]> => {
+  const { data, error } = await supabase
+    .from('campus_location_drafts')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(row => ({
+    locationId: row.location_id,
+    deleted: row.deleted,
+    name: row.name,
+    category: row.category,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    description: row.description ?? undefined,
+    updatedAt: row.updated_at
+  }));
+};
+
+/** The locations as they will be once the drafts are published. */
+export const applyDrafts = (locations: CampusLocation[], drafts: LocationDraft[]): CampusLocation[] => {
+  const byLocation = new Map(drafts.map(draft => [draft.locationId, draft]));
+  const toLocation = (draft: LocationDraft): CampusLocation => ({
+    id: draft.locationId,
+    name: draft.name,
+    category: draft.category,
+    latitude: draft.latitude,
+    longitude: draft.longitude,
+    description: draft.description
+  });
+
+  const updated = locations
+    .filter(location => !byLocation.get(location.id)?.deleted)
+    .map(location => (byLocation.has(location.id) ? toLocation(byLocation.get(location.id)) : location));
+  const live = new Set(locations.map(location => location.id));
+  const created = drafts.filter(draft => !draft.deleted && !live.has(draft.locationId)).map(toLocation);
+  return [...updated, ...created];
+};
+
+export const draftStatus = (draft: LocationDraft | undefined, isLive: boolean): DraftStatus | null => {
+  if (!draft) return null;
+  if (draft.deleted) return 'deleted';
+  return isLive ? 'edited' : 'new';
+};
+
+// Drafts are keyed by location, so saving again replaces the earlier draft
+export const saveLocationDraft = async (draft: Omit<LocationDraft, 'updatedAt'>) => {
+  const { error } = await supabase.from('campus_location_drafts').upsert(
+    {
+      location_id: draft.locationId,
+      deleted: draft.deleted,
+      name: draft.name,
+      category: draft.category,
+      latitude: draft.latitude,
+      longitude: draft.longitude,
+      description: draft.description || null
+    },
+    { onConflict: 'location_id' }
+  );
+  if (error) throw error;
+};
+
+// Many drafts in one request, as a bulk import produces
+export const saveDraftRows = async (rows: TablesInsert<'campus_location_drafts'>[]) => {
+  if (rows.length === 0) return;
+  const { error } = await supabase.from('campus_location_drafts').upsert(rows, { onConflict: 'location_id' });
+  if (error) throw error;
+};
+
+export const discardLocationDraft = async (locationId: string) => {
+  const { error } = await supabase.from('campus_location_drafts').delete().eq('location_id', locationId);
+  if (error) throw error;
+};
+
+export const discardAllDrafts = async () => {
+  // PostgREST refuses an unfiltered delete, so match every row explicitly
+  const { error } = await supabase.from('campus_location_drafts').delete().not('location_id', 'is', null);
+  if (error) throw error;
+};
+
+/** Publishes every draft at once and returns the new version number. */
+export const publishDrafts = async (note: string) => {
+  const { data, error } = await supabase.rpc('publish_location_drafts', { note: note.trim() || undefined });
+  if (error) throw error;
+  return data;
+};
+
+export const fetchMapVersions = async (): Promise<MapVersion[]> => {
+  const { data, error } = await supabase
+    .from('campus_map_versions')
+    .select('version, note, location_count, created_at')
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data.map(row => ({
+    version: row.version,
+    note: row.note,
+    locationCount: row.location_count,
+    publishedAt: row.created_at
+  }));
+};
+
+/** Restores the live locations to `version`; returns the number of the version that records the rollback. */
+export const rollbackToVersion = async (version: number) => {
+  const { data, error } = await supabase.rpc('rollback_map_version', { target_version: version });
+  if (error) throw error;
+  return data;
+};
+
+export const isDraftPreview = () => sessionStorage.getItem(PREVIEW_STORAGE_KEY) === 'on';
+
+export const setDraftPreview = (enabled: boolean) => {
+  if (enabled) {
+    sessionStorage.setItem(PREVIEW_STORAGE_KEY, 'on');
+  } else {
+    sessionStorage.removeItem(PREVIEW_STORAGE_KEY);
+  }
+};
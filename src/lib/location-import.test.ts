@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import type { Category } from '@/lib/categories';
+import {
+  detectImportFormat,
+  guessColumnMapping,
+  parseCsv,
+  parseImportFile,
+  planImport,
+  type ColumnMapping
+} from '@/lib/location-import';
+import type { CampusLocation } from '@/types/campus';
+
+const category = (slug: string, label: string): Category => ({
+  slug,
+  label,
+  color: '#6b7280',
+  icon: 'map-pin',
+  sortOrder: 0,
+  parentSlug: null
+});
+
+const categories = [category('academic', 'Academic'), category('student-services', 'Student services')];
+
+const library: CampusLocation = {
+  id: 'library',
+  name: 'Main Library',
+  category: 'academic',
+  latitude: 40.7484,
+  longitude: -73.9857,
+  description: 'Open late'
+};
+
+const mapping: ColumnMapping = {
+  name: 'name',
+  category: 'category',
+  description: 'description',
+  latitude: 'lat',
+  longitude: 'lng'
+};
+
+const record = (fields: Partial<Record<'name' | 'category' | 'description' | 'lat' | 'lng', string>>) => ({
+  name: 'Science Hall',
+  category: 'academic',
+  description: '',
+  lat: '40.7490',
+  lng: '-73.9860',
+  ...fields
+});
+
+describe('detectImportFormat', () => {
+  it('goes by the file extension', () => {
+    expect(detectImportFormat('export.CSV')).toBe('csv');
+    expect(detectImportFormat('campus.json')).toBe('geojson');
+    expect(detectImportFormat('campus.kml')).toBe('kml');
+    expect(detectImportFormat('campus.xlsx')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted commas, quotes and line breaks', () => {
+    expect(parseCsv('name,description\r\n"Hall, North","Says ""hi""\non two lines"\n')).toEqual([
+      ['name', 'description'],
+      ['Hall, North', 'Says "hi"\non two lines']
+    ]);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFname\n\nLibrary\n ,\n')).toEqual([['name'], ['Library']]);
+  });
+
+  it('reads semicolon-separated files', () => {
+    expect(parseCsv('name;lat;lng\nLibrary;40,7484;-73,9857')).toEqual([
+      ['name', 'lat', 'lng'],
+      ['Library', '40,7484', '-73,9857']
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('turns CSV rows into records keyed by the trimmed header', () => {
+    const parsed = parseImportFile(' Name , Lat \nLibrary, 40.1 \nHall', 'csv');
+    expect(parsed.columns).toEqual(['Name', 'Lat']);
+    expect(parsed.records).toEqual([
+      { Name: 'Library', Lat: '40.1' },
+      { Name: 'Hall', Lat: '' }
+    ]);
+  });
+
+  it('takes GeoJSON points and polygon centres, letting properties override them', () => {
+    const parsed = parseImportFile(
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', properties: { name: 'Library', floors: 3 }, geometry: { type: 'Point', coordinates: [-73.98, 40.74] } },
+          {
+            type: 'Feature',
+            properties: { name: 'Quad' },
+            geometry: { type: 'Polygon', coordinates: [[[0, 0], [0, 2], [2, 2], [2, 0], [0, 0]]] }
+          },
+          { type: 'Feature', properties: { name: 'Gym', latitude: '1', longitude: '2' }, geometry: { type: 'Point', coordinates: [9, 9] } }
+        ]
+      }),
+      'geojson'
+    );
+    expect(parsed.records[0]).toEqual({ name: 'Library', floors: '3', latitude: '40.74', longitude: '-73.98' });
+    expect(Number(parsed.records[1].latitude)).toBeCloseTo(1);
+    expect(Number(parsed.records[1].longitude)).toBeCloseTo(1);
+    expect(parsed.records[2]).toEqual({ name: 'Gym', latitude: '1', longitude: '2' });
+    expect(parsed.columns).toEqual(['name', 'floors', 'latitude', 'longitude']);
+  });
+
+  it('reads KML placemarks with extended data', () => {
+    const parsed = parseImportFile(
+      `<kml><Document><Placemark>
+        <name>Caf&amp;eacute; <![CDATA[North]]></name>
+        <ExtendedData><Data name="category"><value>Student services</value></Data></ExtendedData>
+        <Point><coordinates>-73.98,40.74,0</coordinates></Point>
+      </Placemark></Document></kml>`,
+      'kml'
+    );
+    expect(parsed.records).toEqual([
+      { name: 'Caf&eacute; North', category: 'Student services', latitude: '40.74', longitude: '-73.98' }
+    ]);
+  });
+
+  it('throws a readable error for files it cannot read', () => {
+    expect(() => parseImportFile('{not json', 'geojson')).toThrow('The file is not valid JSON.');
+    expect(() => parseImportFile('{"type":"Point"}', 'geojson')).toThrow('Expected a GeoJSON Feature or FeatureCollection.');
+    expect(() => parseImportFile('<kml></kml>', 'kml')).toThrow('No placemarks found in the KML file.');
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches common column names in any case or spacing', () => {
+    expect(guessColumnMapping(['Building Name', 'Type', 'LAT', 'Lon', 'Notes'])).toEqual({
+      name: 'Building Name',
+      category: 'Type',
+      description: 'Notes',
+      latitude: 'LAT',
+      longitude: 'Lon'
+    });
+  });
+});
+
+describe('planImport', () => {
+  it('creates new places and resolves categories by label', () => {
+    const [row] = planImport([record({ category: 'student services' })], mapping, categories, [library]);
+    expect(row.action).toBe('create');
+    expect(row.values).toMatchObject({ name: 'Science Hall', category: 'student-services', latitude: 40.749 });
+    expect(row.errors).toEqual([]);
+  });
+
+  it('updates a place with the same name nearby, listing what changes', () => {
+    const [row] = planImport(
+      [record({ name: 'main library', lat: '40.7484', lng: '-73.9857', description: 'Open 24 hours' })],
+      mapping,
+      categories,
+      [library]
+    );
+    expect(row.action).toBe('update');
+    expect(row.match).toBe(library);
+    expect(row.changes).toEqual([
+      { field: 'name', from: 'Main Library', to: 'main library' },
+      { field: 'description', from: 'Open late', to: 'Open 24 hours' }
+    ]);
+  });
+
+  it('leaves an identical place unchanged', () => {
+    const [row] = planImport(
+      [record({ name: 'Main Library', lat: '40.7484', lng: '-73.9857', description: 'Open late' })],
+      mapping,
+      categories,
+      [library]
+    );
+    expect(row.action).toBe('unchanged');
+  });
+
+  it('rejects unknown categories, bad coordinates and repeated rows', () => {
+    const rows = planImport(
+      [record({ category: 'parking' }), record({ lat: '151.2093', lng: '-33.8688' }), record({ lat: '' }), record({}), record({})],
+      mapping,
+      categories,
+      []
+    );
+    expect(rows.map(row => row.action)).toEqual(['invalid', 'invalid', 'invalid', 'create', 'invalid']);
+    expect(rows[0].errors).toEqual(['Unknown category "parking"']);
+    expect(rows[1].errors).toContain('Latitude and longitude look swapped');
+    expect(rows[2].errors).toEqual(['Latitude is required']);
+    expect(rows[4].errors).toEqual(['Repeats row 4']);
+  });
+
+  it('warns about places far from the rest of the campus', () => {
+    const [row] = planImport([record({ lat: '41.7490' })], mapping, categories, [library]);
+    expect(row.action).toBe('create');
+    expect(row.warnings).toHaveLength(1);
+    expect(row.warnings[0]).toMatch(/from the rest of the campus/);
+  });
+});
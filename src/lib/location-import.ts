@@ -0,0 +1,354 @@
+import { formatDistance } from '@/lib/directions';
+import { haversineDistance, polygonCenter } from '@/lib/geo';
+import { locationSchema, type LocationFormValues } from '@/lib/location-schema';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { Category } from '@/lib/categories';
+import type { CampusLocation, LatLng } from '@/types/campus';
+
+// Everything here is plain parsing and comparison with no Supabase client,
+// so the admin console and the Node CLI (importLocations.js at the repo root) share it.
+
+export type ImportFormat = 'csv' | 'geojson' | 'kml';
+
+export const IMPORT_FIELDS = ['name', 'category', 'description', 'latitude', 'longitude'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Which file column feeds each location field; null leaves the field empty
+export type ColumnMapping = Record<ImportField, string | null>;
+
+// The same name within this distance is treated as the same place
+export const DUPLICATE_RADIUS_M = 100;
+// A differently named place this close is flagged, as it may be the same building
+export const NEARBY_RADIUS_M = 15;
+// Rows this far from the existing locations probably have bad coordinates
+export const FAR_FROM_CAMPUS_M = 5000;
+
+export interface ParsedImport {
+  format: ImportFormat;
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportChange {
+  field: ImportField;
+  from: string;
+  to: string;
+}
+
+export interface ImportRow {
+  // 1-based position among the file's records
+  row: number;
+  action: ImportAction;
+  values: LocationFormValues | null;
+  // The existing location this row updates or repeats
+  match: CampusLocation | null;
+  changes: ImportChange[];
+  errors: string[];
+  warnings: string[];
+}
+
+const COLUMN_SYNONYMS: Record<ImportField, string[]> = {
+  name: ['name', 'title', 'building', 'buildingname', 'location', 'placename'],
+  category: ['category', 'type', 'kind', 'class'],
+  description: ['description', 'desc', 'details', 'notes', 'summary'],
+  latitude: ['latitude', 'lat', 'y'],
+  longitude: ['longitude', 'lng', 'lon', 'long', 'x']
+};
+
+const normaliseColumn = (column: string) => column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normaliseName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const detectImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'kml') return 'kml';
+  return null;
+};
+
+/** RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks. Semicolons are accepted too. */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  // Spreadsheets in comma-decimal locales export with semicolons
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const toText = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Polygons are imported at their centre, since a location is a single pin
+const geometryPoint = (geometry: { type: string; coordinates?: unknown } | null): LatLng | null => {
+  if (!geometry?.coordinates) return null;
+  switch (geometry.type) {
+    case 'Point': {
+      const [lng, lat] = geometry.coordinates as number[];
+      return { lat, lng };
+    }
+    case 'Polygon':
+      return polygonCenter(geometry.coordinates as [number, number][][]);
+    case 'MultiPolygon':
+      return polygonCenter((geometry.coordinates as [number, number][][][])[0] ?? []);
+    default:
+      return null;
+  }
+};
+
+// Properties win over geometry, so a file can override where its pins go
+const withPoint = (fields: Record<string, string>, point: LatLng | null) =>
+  point && !('latitude' in fields) && !('longitude' in fields)
+    ? { ...fields, latitude: String(point.lat), longitude: String(point.lng) }
+    : fields;
+
+const parseGeoJson = (text: string) => {
+  let data: { type?: string; features?: unknown[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const features = data.type === 'FeatureCollection' ? data.features ?? [] : data.type === 'Feature' ? [data] : null;
+  if (!features) throw new Error('Expected a GeoJSON Feature or FeatureCollection.');
+
+  return (features as { properties?: Record<string, unknown>; geometry?: { type: string; coordinates?: unknown } }[]).map(feature => {
+    const fields = Object.fromEntries(
+      Object.entries(feature.properties ?? {}).map(([key, value]) => [key, toText(value)])
+    );
+    return withPoint(fields, geometryPoint(feature.geometry ?? null));
+  });
+};
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const kmlCoordinates = (text: string): [number, number][] =>
+  decodeXml(text)
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').map(Number))
+    .map(([lng, lat]) => [lng, lat] as [number, number]);
+
+// A light reader for the parts of KML that matter here; works the same in the browser and in Node
+const parseKml = (text: string) => {
+  const placemarks = text.match(/<Placemark\b[\s\S]*?<\/Placemark>/g);
+  if (!placemarks) throw new Error('No placemarks found in the KML file.');
+
+  return placemarks.map(placemark => {
+    const fields: Record<string, string> = {};
+    const name = placemark.match(/<name>([\s\S]*?)<\/name>/);
+    const description = placemark.match(/<description>([\s\S]*?)<\/description>/);
+    if (name) fields.name = decodeXml(name[1]);
+    if (description) fields.description = decodeXml(description[1]);
+    for (const [, key, value] of placemark.matchAll(/<Data\s+name="([^"]*)"[^>]*>[\s\S]*?<value>([\s\S]*?)<\/value>[\s\S]*?<\/Data>/g)) {
+      fields[key] = decodeXml(value);
+    }
+    for (const [, key, value] of placemark.matchAll(/<SimpleData\s+name="([^"]*)"[^>]*>([\s\S]*?)<\/SimpleData>/g)) {
+      fields[key] = decodeXml(value);
+    }
+
+    const point = placemark.match(/<Point\b[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/);
+    const outer = placemark.match(/<outerBoundaryIs>[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/);
+    const [lng, lat] = point ? kmlCoordinates(point[1])[0] ?? [] : [];
+    const position = point && Number.isFinite(lat) && Number.isFinite(lng)
+      ? { lat, lng }
+      : outer ? polygonCenter([kmlCoordinates(outer[1])]) : null;
+    return withPoint(fields, position);
+  });
+};
+
+/** Reads a file into flat records of column name to text. Throws with a readable message on malformed input. */
+export const parseImportFile = (text: string, format: ImportFormat): ParsedImport => {
+  let records: Record<string, string>[];
+  if (format === 'csv') {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = header.map(column => column.trim());
+    records = rows.map(row => Object.fromEntries(columns.map((column, i) => [column, (row[i] ?? '').trim()])));
+  } else {
+    records = format === 'geojson' ? parseGeoJson(text) : parseKml(text);
+  }
+
+  const columns: string[] = [];
+  records.forEach(record =>
+    Object.keys(record).forEach(column => {
+      if (column && !columns.includes(column)) columns.push(column);
+    })
+  );
+  return { format, columns, records };
+};
+
+export const guessColumnMapping = (columns: string[]): ColumnMapping =>
+  Object.fromEntries(
+    IMPORT_FIELDS.map(field => [
+      field,
+      columns.find(column => COLUMN_SYNONYMS[field].includes(normaliseColumn(column))) ?? null
+    ])
+  ) as ColumnMapping;
+
+// Categories can be given by slug or by label, in any case
+const resolveCategory = (value: string, categories: Category[]) => {
+  const wanted = normaliseColumn(value);
+  return categories.find(category => normaliseColumn(category.slug) === wanted || normaliseColumn(category.label) === wanted)?.slug ?? null;
+};
+
+const fieldText = (values: LocationFormValues | CampusLocation, field: ImportField) => {
+  const value = values[field];
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const differs = (field: ImportField, from: string, to: string) =>
+  field === 'latitude' || field === 'longitude'
+    ? Math.abs(Number(from) - Number(to)) > 1e-7
+    : from.trim() !== to.trim();
+
+const toPoint = (location: Pick<LocationFormValues, 'latitude' | 'longitude'>): LatLng => ({
+  lat: location.latitude,
+  lng: location.longitude
+});
+
+/**
+ * Validates every record and works out what importing it would do, compared
+ * with `existing`. Duplicates are matched by name within DUPLICATE_RADIUS_M.
+ */
+export const planImport = (
+  records: Record<string, string>[],
+  mapping: ColumnMapping,
+  categories: Category[],
+  existing: CampusLocation[]
+): ImportRow[] => {
+  const campusCenter = existing.length > 0
+    ? {
+        lat: existing.reduce((sum, l) => sum + l.latitude, 0) / existing.length,
+        lng: existing.reduce((sum, l) => sum + l.longitude, 0) / existing.length
+      }
+    : null;
+  const accepted: { row: number; name: string; point: LatLng }[] = [];
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    const raw = Object.fromEntries(
+      IMPORT_FIELDS.map(field => [field, mapping[field] ? record[mapping[field]] ?? '' : ''])
+    ) as Record<ImportField, string>;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const category = raw.category.trim() ? resolveCategory(raw.category, categories) : null;
+    if (raw.category.trim() && !category) errors.push(`Unknown category "${raw.category.trim()}"`);
+
+    const parsed = locationSchema.safeParse({ ...raw, category: category ?? raw.category });
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        if (!errors.includes(issue.message)) errors.push(issue.message);
+      });
+      const [lat, lng] = [Number(raw.latitude), Number(raw.longitude)];
+      if (Math.abs(lat) > 90 && Math.abs(lng) <= 90) errors.push('Latitude and longitude look swapped');
+    }
+    if (errors.length > 0 || !parsed.success) {
+      return { row, action: 'invalid', values: null, match: null, changes: [], errors, warnings };
+    }
+
+    const values = parsed.data;
+    const point = toPoint(values);
+    const name = normaliseName(values.name);
+
+    const repeat = accepted.find(other => other.name === name && haversineDistance(other.point, point) <= DUPLICATE_RADIUS_M);
+    if (repeat) {
+      return { row, action: 'invalid', values, match: null, changes: [], errors: [`Repeats row ${repeat.row}`], warnings };
+    }
+    accepted.push({ row, name, point });
+
+    const sameName = existing
+      .filter(location => normaliseName(location.name) === name)
+      .map(location => ({ location, distance: haversineDistance(toPoint(location), point) }))
+      .sort((a, b) => a.distance - b.distance);
+    const match = sameName[0]?.distance <= DUPLICATE_RADIUS_M ? sameName[0].location : null;
+
+    if (match) {
+      const changes = IMPORT_FIELDS
+        .map(field => ({ field, from: fieldText(match, field), to: fieldText(values, field) }))
+        .filter(change => differs(change.field, change.from, change.to));
+      return { row, action: changes.length > 0 ? 'update' : 'unchanged', values, match, changes, errors, warnings };
+    }
+
+    if (sameName[0]) {
+      warnings.push(`"${sameName[0].location.name}" already exists ${formatDistance(sameName[0].distance)} away`);
+    }
+    const nearby = existing.find(location => haversineDistance(toPoint(location), point) <= NEARBY_RADIUS_M);
+    if (nearby) warnings.push(`Within ${NEARBY_RADIUS_M} m of "${nearby.name}"; is it the same place?`);
+    if (campusCenter && haversineDistance(campusCenter, point) > FAR_FROM_CAMPUS_M) {
+      warnings.push(`${formatDistance(haversineDistance(campusCenter, point))} from the rest of the campus; check the coordinates`);
+    }
+    return { row, action: 'create', values, match: null, changes: [], errors, warnings };
+  });
+};
+
+export const summariseImport = (rows: ImportRow[]) => {
+  const counts: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  rows.forEach(row => {
+    counts[row.action]++;
+  });
+  return counts;
+};
+
+/** Draft rows for the creates and updates; new locations get their id here. */
+export const importDraftRows = (rows: ImportRow[]): TablesInsert<'campus_location_drafts'>[] =>
+  rows
+    .filter(row => row.action === 'create' || row.action === 'update')
+    .map(row => ({
+      location_id: row.match?.id ?? crypto.randomUUID(),
+      deleted: false,
+      name: row.values.name,
+      category: row.values.category,
+      description: row.values.description || null,
+      latitude: row.values.latitude,
+      longitude: row.values.longitude
+    }));
@@ -0,0 +1,112 @@
+import type mapboxgl from 'mapbox-gl';
+import type { FeatureCollection, Point } from 'geojson';
+import { DEFAULT_CATEGORY_IMAGE } from '@/lib/map-icons';
+import type { CampusLocation } from '@/types/campus';
+
+export const LOCATIONS_SOURCE_ID = 'campus-locations';
+export const CLUSTER_LAYER_ID = 'location-clusters';
+export const CLUSTER_COUNT_LAYER_ID = 'location-cluster-count';
+export const LOCATION_LAYER_ID = 'location-points';
+
+export const CLUSTER_MAX_ZOOM = 18;
+
+export type LocationFeatureCollection = FeatureCollection<Point, { locationId: string; category: string; name: string }>;
+
+export const locationsToGeoJSON = (locations: CampusLocation[]): LocationFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: locations.map(location => ({
+    type: 'Feature',
+    properties: {
+      locationId: location.id,
+      category: location.category,
+      name: location.name
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [location.longitude, location.latitude]
+    }
+  }))
+});
+
+/**
+ * Adds the clustered location source and its cluster, count and labelled
+ * icon layers. Safe to call again after a style change; existing pieces are kept.
+ */
+export const addLocationLayers = (map: mapboxgl.Map, data: LocationFeatureCollection) => {
+  if (!map.getSource(LOCATIONS_SOURCE_ID)) {
+    map.addSource(LOCATIONS_SOURCE_ID, {
+      type: 'geojson',
+      data,
+      cluster: true,
+      clusterRadius: 40,
+      clusterMaxZoom: CLUSTER_MAX_ZOOM - 1
+    });
+  }
+
+  if (!map.getLayer(CLUSTER_LAYER_ID)) {
+    map.addLayer({
+      id: CLUSTER_LAYER_ID,
+      type: 'circle',
+      source: LOCATIONS_SOURCE_ID,
+      filter: ['has', 'point_count'],
+      paint: {
+        'circle-color': '#6366f1',
+        'circle-radius': 20,
+        'circle-stroke-color': '#fff',
+        'circle-stroke-width': 2
+      }
+    });
+  }
+
+  if (!map.getLayer(CLUSTER_COUNT_LAYER_ID)) {
+    map.addLayer({
+      id: CLUSTER_COUNT_LAYER_ID,
+      type: 'symbol',
+      source: LOCATIONS_SOURCE_ID,
+      filter: ['has', 'point_count'],
+      layout: {
+        'text-field': ['get', 'point_count_abbreviated'],
+        'text-font': ['DIN Offc Pro Medium', 'Arial Unicode MS Bold'],
+        'text-size': 16,
+        'text-allow-overlap': true
+      },
+      paint: {
+        'text-color': '#fff'
+      }
+    });
+  }
+
+  if (!map.getLayer(LOCATION_LAYER_ID)) {
+    map.addLayer({
+      id: LOCATION_LAYER_ID,
+      type: 'symbol',
+      source: LOCATIONS_SOURCE_ID,
+      filter: ['!', ['has', 'point_count']],
+      layout: {
+        'icon-image': [
+          'coalesce',
+          ['image', ['concat', 'category-', ['get', 'category']]],
+          ['image', DEFAULT_CATEGORY_IMAGE]
+        ],
+        'icon-allow-overlap': true,
+        'text-field': ['get', 'name'],
+        'text-size': 14,
+        'text-anchor': 'bottom',
+        'text-offset': [0, -1.4],
+        'text-max-width': 10,
+        // Labels give way to each other (and to the icons) instead of piling up
+        'text-optional': true
+      },
+      paint: {
+        'text-color': '#222',
+        'text-halo-color': 'rgba(255,255,255,0.95)',
+        'text-halo-width': 2
+      }
+    });
+  }
+};
+
+export const setLocationData = (map: mapboxgl.Map, data: LocationFeatureCollection) => {
+  const source = map.getSource(LOCATIONS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+  source?.setData(data);
+};
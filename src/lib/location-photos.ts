@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import { resizeImage } from '@/lib/image-resize';
+
+export const PHOTOS_BUCKET = 'location-photos';
+
+// Longest side in pixels of stored photos and of their thumbnails
+const PHOTO_MAX_SIZE = 1600;
+const THUMBNAIL_MAX_SIZE = 320;
+
+export interface LocationPhoto {
+  id: string;
+  locationId: string;
+  url: string;
+  thumbnailUrl: string;
+  caption: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+const publicUrl = (path: string) => supabase.storage.from(PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+
+/** Loads every location's photos, keyed by location id, in display order. */
+export const fetchLocationPhotos = async (): Promise<Record<string, LocationPhoto[]>> => {
+  const { data, error } = await supabase
+    .from('campus_location_photos')
+    .select('*')
+    .order('sort_order')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching location photos:', error);
+    return {};
+  }
+
+  const photos: Record<string, LocationPhoto[]> = {};
+  data.forEach(row => {
+    (photos[row.location_id] ??= []).push({
+      id: row.id,
+      locationId: row.location_id,
+      url: publicUrl(row.storage_path),
+      thumbnailUrl: publicUrl(row.thumbnail_path),
+      caption: row.caption,
+      width: row.width,
+      height: row.height
+    });
+  });
+  return photos;
+};
+
+/**
+ * Resizes a photo in the browser, uploads it with a thumbnail and records it
+ * against the location. Requires an admin session; storage and table policies
+ * reject anyone else. Uploaded files are removed again if the insert fails.
+ */
+export const uploadLocationPhoto = async (locationId: string, file: File, caption: string | null, sortOrder = 0) => {
+  const [photo, thumbnail] = await Promise.all([
+    resizeImage(file, PHOTO_MAX_SIZE),
+    resizeImage(file, THUMBNAIL_MAX_SIZE, 0.75)
+  ]);
+
+  const id = crypto.randomUUID();
+  const storagePath = `${locationId}/${id}.jpg`;
+  const thumbnailPath = `${locationId}/${id}-thumb.jpg`;
+  const bucket = supabase.storage.from(PHOTOS_BUCKET);
+
+  const uploads = await Promise.all([
+    bucket.upload(storagePath, photo.blob, { contentType: 'image/jpeg' }),
+    bucket.upload(thumbnailPath, thumbnail.blob, { contentType: 'image/jpeg' })
+  ]);
+  const uploadError = uploads.find(result => result.error)?.error;
+
+  const { error } = uploadError
+    ? { error: uploadError }
+    : await supabase.from('campus_location_photos').insert({
+        location_id: locationId,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        caption,
+        width: photo.width,
+        height: photo.height,
+        sort_order: sortOrder
+      });
+
+  if (error) {
+    await bucket.remove([storagePath, thumbnailPath]);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistance } from '@/lib/geo';
+import { GRID_CELL_M, applySharePrecision, coarsenToGrid, describeSharedPosition, snapToLandmark } from '@/lib/location-privacy';
+import type { CampusLocation } from '@/types/campus';
+
+const library: CampusLocation = { id: 'library', name: 'Main Library', category: 'academic', latitude: 40.7484, longitude: -73.9857 };
+const gym: CampusLocation = { id: 'gym', name: 'Gym', category: 'recreation', latitude: 40.7500, longitude: -73.9857 };
+
+describe('coarsenToGrid', () => {
+  it('moves every position in a cell to the same centre, within the cell', () => {
+    const point = { lat: 40.7484, lng: -73.9857 };
+    const centre = coarsenToGrid(point);
+    expect(haversineDistance(point, centre)).toBeLessThanOrEqual(centre.accuracy!);
+    expect(coarsenToGrid(centre)).toEqual(centre);
+    expect(coarsenToGrid({ lat: centre.lat + 0.0001, lng: centre.lng - 0.0001 })).toEqual(centre);
+  });
+
+  it('puts positions a cell apart in different cells', () => {
+    const centre = coarsenToGrid({ lat: 40.7484, lng: -73.9857 });
+    const north = coarsenToGrid({ lat: centre.lat + (GRID_CELL_M / 111320), lng: centre.lng });
+    expect(haversineDistance(centre, north)).toBeCloseTo(GRID_CELL_M, -1);
+  });
+});
+
+describe('snapToLandmark', () => {
+  it('picks the nearest campus location', () => {
+    expect(snapToLandmark({ lat: 40.7488, lng: -73.9857 }, [gym, library])).toEqual({
+      lat: library.latitude,
+      lng: library.longitude,
+      label: 'Main Library'
+    });
+  });
+
+  it('gives up when nothing is close', () => {
+    expect(snapToLandmark({ lat: 40.8, lng: -73.9857 }, [gym, library])).toBeNull();
+  });
+});
+
+describe('applySharePrecision', () => {
+  const point = { lat: 40.7488, lng: -73.9857, accuracy: 12 };
+
+  it('only changes the position when asked to', () => {
+    expect(applySharePrecision(point, 'exact', [library])).toBe(point);
+    expect(applySharePrecision(point, 'landmark', [library])).toMatchObject({ label: 'Main Library' });
+    expect(applySharePrecision(point, 'grid', [library])).toEqual(coarsenToGrid(point));
+  });
+
+  it('falls back to the grid away from every landmark', () => {
+    const far = { lat: 40.8, lng: -73.9857 };
+    expect(applySharePrecision(far, 'landmark', [library])).toEqual(coarsenToGrid(far));
+  });
+});
+
+describe('describeSharedPosition', () => {
+  it('names the landmark when there is one', () => {
+    expect(describeSharedPosition('Sam', 'landmark', 'Main Library')).toBe('Sam is near Main Library');
+    expect(describeSharedPosition('Sam', 'grid', null)).toBe('Sam is somewhere in the marked area');
+    expect(describeSharedPosition('Sam', 'exact', null)).toBe('Sam is sharing their live location');
+  });
+});
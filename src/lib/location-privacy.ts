@@ -0,0 +1,64 @@
+import { haversineDistance } from '@/lib/geo';
+import type { SharedPosition } from '@/lib/location-sharing';
+import type { CampusLocation, LatLng } from '@/types/campus';
+
+// How precisely a live share reveals where the sharer is. Anything but 'exact' is
+// applied in the sharer's browser, so the precise position is never sent anywhere.
+export type SharePrecision = 'exact' | 'landmark' | 'grid';
+
+// Side of the square cells that 'grid' sharing rounds positions into
+export const GRID_CELL_M = 250;
+// Further than this from every campus location, 'landmark' falls back to the grid
+export const LANDMARK_MAX_M = 300;
+
+export const SHARE_PRECISIONS: { value: SharePrecision; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact', description: 'Your precise position, updated as you move.' },
+  { value: 'landmark', label: 'Nearest place', description: 'Shown at the campus location you are closest to.' },
+  { value: 'grid', label: 'Approximate area', description: `Shown somewhere within a ${GRID_CELL_M} m square.` }
+];
+
+const METRES_PER_DEGREE_LAT = 111320;
+
+/**
+ * Centre of the grid cell containing `point`. Rows are fixed bands of latitude and
+ * each row's columns are sized at its own latitude, so every position in a cell
+ * maps to the same centre and moving inside it reveals nothing.
+ */
+export const coarsenToGrid = (point: LatLng, cellMetres = GRID_CELL_M): SharedPosition => {
+  const latStep = cellMetres / METRES_PER_DEGREE_LAT;
+  const lat = (Math.floor(point.lat / latStep) + 0.5) * latStep;
+  const lngStep = cellMetres / (METRES_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180));
+  const lng = (Math.floor(point.lng / lngStep) + 0.5) * lngStep;
+  return { lat, lng, accuracy: Math.round((cellMetres * Math.SQRT2) / 2) };
+};
+
+/** The nearest campus location within LANDMARK_MAX_M, or null if none is that close. */
+export const snapToLandmark = (point: LatLng, locations: CampusLocation[]): SharedPosition | null => {
+  let nearest: { location: CampusLocation; distance: number } | null = null;
+  for (const location of locations) {
+    const distance = haversineDistance(point, { lat: location.latitude, lng: location.longitude });
+    if (distance <= LANDMARK_MAX_M && (!nearest || distance < nearest.distance)) {
+      nearest = { location, distance };
+    }
+  }
+  return nearest
+    ? { lat: nearest.location.latitude, lng: nearest.location.longitude, label: nearest.location.name }
+    : null;
+};
+
+export const applySharePrecision = (
+  point: SharedPosition,
+  precision: SharePrecision,
+  locations: CampusLocation[]
+): SharedPosition => {
+  if (precision === 'exact') return point;
+  if (precision === 'landmark') return snapToLandmark(point, locations) ?? coarsenToGrid(point);
+  return coarsenToGrid(point);
+};
+
+// How a recipient describes where the sharer is
+export const describeSharedPosition = (name: string, precision: SharePrecision, label: string | null) => {
+  if (label) return `${name} is near ${label}`;
+  if (precision === 'exact') return `${name} is sharing their live location`;
+  return `${name} is somewhere in the marked area`;
+};
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// Number inputs hand back strings; an empty one must fail as missing rather than coerce to 0
+const coordinate = (label: string, limit: number) =>
+  z.preprocess(
+    value => (value === '' || value === null || value === undefined ? undefined : Number(value)),
+    z.number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+      .min(-limit, `${label} must be between -${limit} and ${limit}`)
+      .max(limit, `${label} must be between -${limit} and ${limit}`)
+  );
+
+export const locationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(120, 'Keep the name under 120 characters'),
+  category: z.string().trim().min(1, 'Pick a category'),
+  description: z.string().trim().max(1000, 'Keep the description under 1000 characters'),
+  latitude: coordinate('Latitude', 90),
+  longitude: coordinate('Longitude', 180)
+});
+
+export type LocationFormValues = z.infer<typeof locationSchema>;
@@ -0,0 +1,202 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { SharePrecision } from '@/lib/location-privacy';
+import { createShareLink } from '@/lib/share-links';
+import type { LatLng } from '@/types/campus';
+
+// The session this browser is sharing, so a reload carries on rather than orphaning it
+const OWNED_SHARE_STORAGE_KEY = 'campus-map-live-share';
+const DISPLAY_NAME_STORAGE_KEY = 'campus-map-share-name';
+
+export const SHARE_DURATIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 480, label: '8 hours' }
+];
+
+// Position updates are sent at most this often, and only once the sharer has moved a little
+export const SHARE_UPDATE_INTERVAL_MS = 5000;
+export const SHARE_MIN_MOVE_M = 5;
+
+export interface SharedPosition extends LatLng {
+  // Metres either side of the point; for approximate sharing, how far off it may be
+  accuracy?: number;
+  // The campus location an approximate position was snapped to
+  label?: string;
+}
+
+// A session as a recipient sees it
+export interface LiveShare {
+  id: string;
+  displayName: string;
+  precision: SharePrecision;
+  // null once the session has been stopped or has expired
+  position: SharedPosition | null;
+  updatedAt: string;
+  expiresAt: string;
+  stoppedAt: string | null;
+}
+
+// A session this browser started; the token proves it
+export interface OwnedShare {
+  id: string;
+  token: string;
+  displayName: string;
+  precision: SharePrecision;
+  expiresAt: string;
+  // Signed link that recipients open
+  link: string;
+  // Set when the session is this browser's place in a group meetup
+  meetupId?: string;
+}
+
+export type LiveShareState = 'live' | 'stopped' | 'expired';
+
+// `position` is sent as given, so approximate sessions must already have had their precision applied.
+// With a meetupId the session joins that meetup and ends no later than it does.
+export const startLiveShare = async (
+  displayName: string,
+  position: SharedPosition,
+  minutes: number,
+  precision: SharePrecision,
+  meetupId?: string
+): Promise<OwnedShare> => {
+  const { data, error } = await supabase.rpc('start_location_share', {
+    display_name: displayName.trim(),
+    latitude: position.lat,
+    longitude: position.lng,
+    accuracy_m: position.accuracy ?? null,
+    duration_minutes: minutes,
+    precision_mode: precision,
+    place_label: position.label ?? null,
+    meetup_id: meetupId ?? null
+  });
+  if (error) throw error;
+  const [row] = data;
+  const share: OwnedShare = {
+    id: row.id,
+    token: row.owner_token,
+    displayName: displayName.trim(),
+    precision,
+    expiresAt: row.expires_at,
+    link: '',
+    ...(meetupId ? { meetupId } : {})
+  };
+
+  // A session nobody can be sent a link to is no use, so it does not outlive a signing failure
+  try {
+    share.link = await createShareLink({ kind: 'live', shareId: share.id });
+  } catch (linkError) {
+    await stopLiveShare(share).catch(() => undefined);
+    throw linkError;
+  }
+  return share;
+};
+
+export const pushLiveShare = async (share: OwnedShare, position: SharedPosition) => {
+  const { error } = await supabase.rpc('update_location_share', {
+    share_id: share.id,
+    owner_token: share.token,
+    latitude: position.lat,
+    longitude: position.lng,
+    accuracy_m: position.accuracy ?? null,
+    place_label: position.label ?? null
+  });
+  if (error) throw error;
+};
+
+// update_location_share raises P0002 once the session has been stopped or has run out;
+// anything else (a dropped request, being offline) is worth retrying
+export const isShareEndedError = (error: unknown) => (error as { code?: string } | null)?.code === 'P0002';
+
+export const stopLiveShare = async (share: OwnedShare) => {
+  const { error } = await supabase.rpc('stop_location_share', { share_id: share.id, owner_token: share.token });
+  if (error) throw error;
+};
+
+type LiveShareRow = Database['public']['Functions']['get_location_share']['Returns'][number];
+
+export const toLiveShare = (row: LiveShareRow): LiveShare => ({
+  id: row.id,
+  displayName: row.display_name,
+  precision: row.precision_mode as SharePrecision,
+  position: row.latitude === null || row.longitude === null
+    ? null
+    : {
+      lat: row.latitude,
+      lng: row.longitude,
+      accuracy: row.accuracy_m ?? undefined,
+      label: row.place_label ?? undefined
+    },
+  updatedAt: row.updated_at,
+  expiresAt: row.expires_at,
+  stoppedAt: row.stopped_at
+});
+
+export const fetchLiveShare = async (id: string): Promise<LiveShare | null> => {
+  const { data, error } = await supabase.rpc('get_location_share', { share_id: id });
+  if (error) throw error;
+  const [row] = data;
+  return row ? toLiveShare(row) : null;
+};
+
+const LIVE_SHARE_EVENT = 'changed';
+
+/**
+ * Realtime channel on which sharers only announce that something changed; recipients
+ * then re-read what they follow, so a forged broadcast cannot move a pin.
+ * `onChange` also runs once the channel (re)connects, to catch up on anything missed.
+ */
+export const openChangeChannel = (topic: string, onChange?: () => void) => {
+  const channel = supabase.channel(topic);
+  if (onChange) channel.on('broadcast', { event: LIVE_SHARE_EVENT }, () => onChange());
+  channel.subscribe(status => {
+    if (status === 'SUBSCRIBED') onChange?.();
+  });
+  return {
+    announce: () => channel.send({ type: 'broadcast', event: LIVE_SHARE_EVENT, payload: {} }),
+    close: () => supabase.removeChannel(channel)
+  };
+};
+
+export const openLiveShareChannel = (id: string, onChange?: () => void) => openChangeChannel(`location-share:${id}`, onChange);
+
+export const liveShareState = (share: Pick<LiveShare, 'expiresAt' | 'stoppedAt'>, now: number): LiveShareState => {
+  if (share.stoppedAt) return 'stopped';
+  return new Date(share.expiresAt).getTime() <= now ? 'expired' : 'live';
+};
+
+/** "just now", "40 s", "12 min" or "2 h 5 min": how long ago, or how long until, `time` is. */
+export const formatShareAge = (time: string, now: number) => {
+  const seconds = Math.round(Math.abs(now - new Date(time).getTime()) / 1000);
+  if (seconds < 5) return 'just now';
+  if (seconds < 60) return `${seconds} s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min`;
+  return `${Math.floor(seconds / 3600)} h ${Math.floor((seconds % 3600) / 60)} min`;
+};
+
+export const loadOwnedShare = (): OwnedShare | null => {
+  try {
+    const share: OwnedShare | null = JSON.parse(localStorage.getItem(OWNED_SHARE_STORAGE_KEY) ?? 'null');
+    // Sessions saved before links were signed have no link to hand out, so they are left to expire
+    if (!share?.link || new Date(share.expiresAt).getTime() <= Date.now()) return null;
+    // Sessions saved before precision could be chosen were exact
+    return { ...share, precision: share.precision ?? 'exact' };
+  } catch {
+    return null;
+  }
+};
+
+export const saveOwnedShare = (share: OwnedShare | null) => {
+  if (share) {
+    localStorage.setItem(OWNED_SHARE_STORAGE_KEY, JSON.stringify(share));
+  } else {
+    localStorage.removeItem(OWNED_SHARE_STORAGE_KEY);
+  }
+};
+
+// The name is remembered so the next share is one tap
+export const loadShareName = () => localStorage.getItem(DISPLAY_NAME_STORAGE_KEY) ?? '';
+
+export const saveShareName = (name: string) => localStorage.setItem(DISPLAY_NAME_STORAGE_KEY, name.trim());
@@ -0,0 +1,305 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Undo steps kept in memory
+const MAX_HISTORY = 100;
+
+// How close, in screen pixels, the pointer must be to an existing point to snap onto it
+export const SNAP_DISTANCE_PX = 12;
+
+export interface EditorLocation {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface EditorBuilding {
+  id: string;
+  locationId: string;
+  name: string | null;
+  // Outer ring as [lng, lat] vertices, without repeating the first one at the end
+  ring: [number, number][];
+  // Holes are preserved but not editable
+  holes: [number, number][][];
+}
+
+export interface EditorNode {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+export interface EditorEdge {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface EditorState {
+  locations: Record<string, EditorLocation>;
+  buildings: Record<string, EditorBuilding>;
+  nodes: Record<string, EditorNode>;
+  edges: Record<string, EditorEdge>;
+}
+
+// What the admin has clicked on; vertices are addressed by building and ring position
+export type EditorSelection =
+  | { kind: 'location' | 'node' | 'edge' | 'building'; id: string }
+  | { kind: 'vertex'; id: string; index: number }
+  | null;
+
+export interface EditorHistory {
+  past: EditorState[];
+  present: EditorState;
+  future: EditorState[];
+}
+
+// Payload for the apply_map_edits database function, which applies it in one transaction
+export interface MapEdits {
+  locations: { id: string; latitude: number; longitude: number }[];
+  buildings_upsert: { id: string; location_id: string; name: string | null; footprint: [number, number][][] }[];
+  buildings_delete: string[];
+  nodes_upsert: { id: string; latitude: number; longitude: number }[];
+  nodes_delete: string[];
+  edges_upsert: { id: string; from_node_id: string; to_node_id: string }[];
+  edges_delete: string[];
+}
+
+const byId = <T extends { id: string }>(items: T[]) =>
+  Object.fromEntries(items.map(item => [item.id, item])) as Record<string, T>;
+
+const without = <T>(record: Record<string, T>, ids: string[]) => {
+  const next = { ...record };
+  ids.forEach(id => delete next[id]);
+  return next;
+};
+
+const openRing = (ring: [number, number][]) => {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+};
+
+/**
+ * Loads everything the editor can change. Unlike the map's loaders this fails loudly instead of using a cache.
+ * Pins sit where their draft puts them, since moving a pin only updates its draft.
+ */
+export const fetchEditorState = async (): Promise<EditorState> => {
+  const [locations, drafts, buildings, nodes, edges] = await Promise.all([
+    supabase.from('campus_locations').select('id, name, latitude, longitude'),
+    supabase.from('campus_location_drafts').select('location_id, name, latitude, longitude'),
+    supabase.from('campus_buildings').select('id, location_id, name, footprint'),
+    supabase.from('campus_path_nodes').select('id, latitude, longitude'),
+    supabase.from('campus_path_edges').select('id, from_node_id, to_node_id')
+  ]);
+  const error = locations.error || drafts.error || buildings.error || nodes.error || edges.error;
+  if (error) throw error;
+
+  // Unpublished locations are left out: buildings can only belong to live ones
+  const draftOf = new Map(drafts.data.map(d => [d.location_id, d]));
+  return {
+    locations: byId(locations.data.map(l => {
+      const pin = draftOf.get(l.id) ?? l;
+      return { id: l.id, name: pin.name, lat: Number(pin.latitude), lng: Number(pin.longitude) };
+    })),
+    buildings: byId(buildings.data.map(b => {
+      const [outer = [], ...holes] = b.footprint as [number, number][][];
+      return { id: b.id, locationId: b.location_id, name: b.name, ring: openRing(outer), holes };
+    })),
+    nodes: byId(nodes.data.map(n => ({ id: n.id, lat: Number(n.latitude), lng: Number(n.longitude) }))),
+    edges: byId(edges.data.map(e => ({ id: e.id, from: e.from_node_id, to: e.to_node_id })))
+  };
+};
+
+export const moveLocation = (state: EditorState, id: string, [lng, lat]: [number, number]): EditorState => ({
+  ...state,
+  locations: { ...state.locations, [id]: { ...state.locations[id], lat, lng } }
+});
+
+export const moveNode = (state: EditorState, id: string, [lng, lat]: [number, number]): EditorState => ({
+  ...state,
+  nodes: { ...state.nodes, [id]: { ...state.nodes[id], lat, lng } }
+});
+
+export const addNode = (state: EditorState, [lng, lat]: [number, number]) => {
+  const node = { id: crypto.randomUUID(), lat, lng };
+  return { state: { ...state, nodes: { ...state.nodes, [node.id]: node } }, nodeId: node.id };
+};
+
+// Connecting two nodes that are already connected (either way round) is a no-op
+export const addEdge = (state: EditorState, from: string, to: string): EditorState => {
+  const exists = Object.values(state.edges).some(e => (e.from === from && e.to === to) || (e.from === to && e.to === from));
+  if (from === to || exists) return state;
+  const edge = { id: crypto.randomUUID(), from, to };
+  return { ...state, edges: { ...state.edges, [edge.id]: edge } };
+};
+
+export const removeEdge = (state: EditorState, id: string): EditorState => ({
+  ...state,
+  edges: without(state.edges, [id])
+});
+
+// Removing a node also removes every path that used it
+export const removeNode = (state: EditorState, id: string): EditorState => ({
+  ...state,
+  nodes: without(state.nodes, [id]),
+  edges: without(state.edges, Object.values(state.edges).filter(e => e.from === id || e.to === id).map(e => e.id))
+});
+
+export const addBuilding = (state: EditorState, locationId: string, ring: [number, number][]) => {
+  const building: EditorBuilding = {
+    id: crypto.randomUUID(),
+    locationId,
+    name: state.locations[locationId]?.name ?? null,
+    ring,
+    holes: []
+  };
+  return { state: { ...state, buildings: { ...state.buildings, [building.id]: building } }, buildingId: building.id };
+};
+
+export const moveBuildingVertex = (state: EditorState, id: string, index: number, position: [number, number]): EditorState => {
+  const building = state.buildings[id];
+  const ring = building.ring.map((vertex, i) => (i === index ? position : vertex));
+  return { ...state, buildings: { ...state.buildings, [id]: { ...building, ring } } };
+};
+
+// A footprint needs at least three corners, so the last three cannot be removed
+export const removeBuildingVertex = (state: EditorState, id: string, index: number): EditorState => {
+  const building = state.buildings[id];
+  if (building.ring.length <= 3) return state;
+  const ring = building.ring.filter((_, i) => i !== index);
+  return { ...state, buildings: { ...state.buildings, [id]: { ...building, ring } } };
+};
+
+export const removeBuilding = (state: EditorState, id: string): EditorState => ({
+  ...state,
+  buildings: without(state.buildings, [id])
+});
+
+export const removeSelection = (state: EditorState, selection: EditorSelection): EditorState => {
+  switch (selection?.kind) {
+    case 'node':
+      return removeNode(state, selection.id);
+    case 'edge':
+      return removeEdge(state, selection.id);
+    case 'building':
+      return removeBuilding(state, selection.id);
+    case 'vertex':
+      return removeBuildingVertex(state, selection.id, selection.index);
+    // Locations are removed from the admin table, not the editor
+    default:
+      return state;
+  }
+};
+
+export interface SnapTarget {
+  position: [number, number];
+  // Set when snapping onto a path node, so a new path can join it
+  nodeId?: string;
+}
+
+interface SnapOptions {
+  // Building corners are snap targets too, except the one being dragged
+  includeVertices?: boolean;
+  excludeNodeId?: string;
+  excludeVertex?: { id: string; index: number };
+}
+
+/**
+ * Finds the existing point nearest to `point` on screen, within SNAP_DISTANCE_PX.
+ * `project` turns [lng, lat] into screen pixels, e.g. map.project.
+ */
+export const findSnapTarget = (
+  state: EditorState,
+  point: { x: number; y: number },
+  project: (lngLat: [number, number]) => { x: number; y: number },
+  { includeVertices = false, excludeNodeId, excludeVertex }: SnapOptions = {}
+): SnapTarget | null => {
+  const candidates: SnapTarget[] = Object.values(state.nodes)
+    .filter(node => node.id !== excludeNodeId)
+    .map(node => ({ position: [node.lng, node.lat], nodeId: node.id }));
+  if (includeVertices) {
+    Object.values(state.buildings).forEach(building =>
+      building.ring.forEach((vertex, index) => {
+        if (building.id !== excludeVertex?.id || index !== excludeVertex.index) candidates.push({ position: vertex });
+      })
+    );
+  }
+
+  let best: SnapTarget | null = null;
+  let bestDistance = SNAP_DISTANCE_PX;
+  candidates.forEach(candidate => {
+    const projected = project(candidate.position);
+    const distance = Math.hypot(projected.x - point.x, projected.y - point.y);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+export const createHistory = (state: EditorState): EditorHistory => ({ past: [], present: state, future: [] });
+
+// Records a change; anything that was undone can no longer be redone
+export const commit = (history: EditorHistory, next: EditorState): EditorHistory =>
+  next === history.present
+    ? history
+    : { past: [...history.past, history.present].slice(-MAX_HISTORY), present: next, future: [] };
+
+export const undo = (history: EditorHistory): EditorHistory =>
+  history.past.length === 0
+    ? history
+    : {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future]
+      };
+
+export const redo = (history: EditorHistory): EditorHistory =>
+  history.future.length === 0
+    ? history
+    : {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1)
+      };
+
+const samePoint = (a: [number, number], b: [number, number]) => a[0] === b[0] && a[1] === b[1];
+
+const buildingChanged = (a: EditorBuilding, b: EditorBuilding) =>
+  a.locationId !== b.locationId ||
+  a.name !== b.name ||
+  a.ring.length !== b.ring.length ||
+  a.ring.some((vertex, i) => !samePoint(vertex, b.ring[i]));
+
+/** Everything that differs between the loaded state and the edited one. */
+export const diffEditorState = (original: EditorState, current: EditorState): MapEdits => {
+  const removed = <T>(before: Record<string, T>, after: Record<string, T>) =>
+    Object.keys(before).filter(id => !(id in after));
+
+  return {
+    locations: Object.values(current.locations)
+      .filter(l => original.locations[l.id] && (original.locations[l.id].lat !== l.lat || original.locations[l.id].lng !== l.lng))
+      .map(l => ({ id: l.id, latitude: l.lat, longitude: l.lng })),
+    buildings_upsert: Object.values(current.buildings)
+      .filter(b => !original.buildings[b.id] || buildingChanged(original.buildings[b.id], b))
+      .map(b => ({ id: b.id, location_id: b.locationId, name: b.name, footprint: [[...b.ring, b.ring[0]], ...b.holes] })),
+    buildings_delete: removed(original.buildings, current.buildings),
+    nodes_upsert: Object.values(current.nodes)
+      .filter(n => !original.nodes[n.id] || original.nodes[n.id].lat !== n.lat || original.nodes[n.id].lng !== n.lng)
+      .map(n => ({ id: n.id, latitude: n.lat, longitude: n.lng })),
+    nodes_delete: removed(original.nodes, current.nodes),
+    edges_upsert: Object.values(current.edges)
+      .filter(e => !original.edges[e.id])
+      .map(e => ({ id: e.id, from_node_id: e.from, to_node_id: e.to })),
+    edges_delete: removed(original.edges, current.edges)
+  };
+};
+
+export const countEdits = (edits: MapEdits) =>
+  Object.values(edits).reduce((sum, list: unknown[]) => sum + list.length, 0);
+
+export const saveMapEdits = async (edits: MapEdits) => {
+  const { error } = await supabase.rpc('apply_map_edits', { edits: JSON.parse(JSON.stringify(edits)) });
+  if (error) throw error;
+};
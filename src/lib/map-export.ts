@@ -0,0 +1,53 @@
+import {
+  exportPlaces,
+  exportRoute,
+  type ExportFile,
+  type ExportFormat,
+  type ExportPlace
+} from '../../supabase/functions/_shared/map-export';
+import { categoryLabel, type CategoryLookup } from '@/lib/categories';
+import type { WalkingRoute } from '@/lib/routing';
+import type { CampusLocation } from '@/types/campus';
+
+// The serialisers are shared with the export-map edge function
+export { EXPORT_FORMATS, type ExportFormat } from '../../supabase/functions/_shared/map-export';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML (Google Earth)',
+  gpx: 'GPX',
+  csv: 'CSV (spreadsheet)'
+};
+
+const toExportPlace = (location: CampusLocation, lookup: CategoryLookup): ExportPlace => ({
+  id: location.id,
+  name: location.name,
+  category: location.category,
+  categoryLabel: categoryLabel(lookup, location.category),
+  latitude: location.latitude,
+  longitude: location.longitude,
+  description: location.description
+});
+
+export const exportLocations = (locations: CampusLocation[], lookup: CategoryLookup, format: ExportFormat) =>
+  exportPlaces(locations.map(location => toExportPlace(location, lookup)), format);
+
+export const exportWalkingRoute = (route: WalkingRoute, name: string, format: ExportFormat) =>
+  exportRoute({ name, coordinates: route.coordinates, distance: route.distance, duration: route.duration }, format);
+
+// Turns free text such as a destination name into a safe file name
+const fileSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+
+/** Saves the file through the browser's download prompt. */
+export const downloadExport = (file: ExportFile, name: string) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileSlug(name)}.${file.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download only after the click handler returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
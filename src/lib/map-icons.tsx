@@ -0,0 +1,64 @@
+import React from 'react';
+import type mapboxgl from 'mapbox-gl';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { CATEGORY_ICONS, FALLBACK_CATEGORY_COLOR, categoryIcon, type Category } from '@/lib/categories';
+
+export const DEFAULT_CATEGORY_IMAGE = 'category-default';
+
+export const categoryImageId = (category: string) => `category-${category}`;
+
+// Icons are drawn at twice their on-screen size and registered with pixelRatio 2
+const ICON_PIXEL_RATIO = 2;
+const ICON_SIZE = 28;
+
+// Helper to render Lucide icon as SVG string
+const renderIconSVG = (IconComponent: React.ComponentType<React.SVGProps<SVGSVGElement>>) => {
+  if (!IconComponent) return '';
+  // Remove Tailwind className, use width/height directly
+  const svgString = renderToStaticMarkup(
+    <IconComponent width={24} height={24} color="white" stroke="white" fill="none" />
+  );
+  return svgString;
+};
+
+// SVG images have no access to the page's CSS variables, so resolve `hsl(var(--x))` up front
+const resolveCssColor = (color: string) =>
+  color.replace(/var\((--[\w-]+)\)/g, (_, name: string) =>
+    getComputedStyle(document.documentElement).getPropertyValue(name).trim()
+  );
+
+const createIconImage = async (Icon: React.ComponentType<React.SVGProps<SVGSVGElement>>, color: string) => {
+  const size = ICON_SIZE * ICON_PIXEL_RATIO;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${ICON_SIZE} ${ICON_SIZE}">
+    <circle cx="14" cy="14" r="12.5" fill="${resolveCssColor(color)}" stroke="#fff" stroke-width="3"/>
+    <g transform="translate(6 6) scale(0.6667)">${renderIconSVG(Icon)}</g>
+  </svg>`;
+  const image = new Image(size, size);
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+  return image;
+};
+
+// Rasterised markers by icon and colour, reused across style changes and categories that look alike
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+const getIconImage = (Icon: React.ComponentType<React.SVGProps<SVGSVGElement>>, iconName: string, color: string) => {
+  const key = `${iconName}|${color}`;
+  if (!imageCache.has(key)) imageCache.set(key, createIconImage(Icon, color));
+  return imageCache.get(key);
+};
+
+/** Registers one marker image per category, plus the default used for unknown categories. */
+export const addCategoryImages = async (map: mapboxgl.Map, categories: Category[]) => {
+  const images = await Promise.all([
+    getIconImage(CATEGORY_ICONS['map-pin'], 'map-pin', FALLBACK_CATEGORY_COLOR).then(image => [DEFAULT_CATEGORY_IMAGE, image] as const),
+    ...categories.map(category =>
+      getIconImage(categoryIcon(category), category.icon, category.color).then(image => [categoryImageId(category.slug), image] as const)
+    )
+  ]);
+  images.forEach(([id, image]) => {
+    if (!map.hasImage(id)) {
+      map.addImage(id, image, { pixelRatio: ICON_PIXEL_RATIO });
+    }
+  });
+};
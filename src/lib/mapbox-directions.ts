@@ -0,0 +1,24 @@
+import type { RouteSegment } from '@/lib/routing';
+import type { LatLng } from '@/types/campus';
+
+export type MapboxProfile = 'walking' | 'cycling' | 'driving';
+
+export const fetchMapboxRoute = async (
+  token: string,
+  profile: MapboxProfile,
+  from: LatLng,
+  to: LatLng
+): Promise<RouteSegment | null> => {
+  const url = `https://api.mapbox.com/directions/v5/mapbox/${profile}/${from.lng},${from.lat};${to.lng},${to.lat}?geometries=geojson&access_token=${token}`;
+  const res = await fetch(url);
+  const data = await res.json();
+  if (!data.routes || !data.routes[0]) return null;
+
+  const route = data.routes[0];
+  return {
+    source: 'mapbox',
+    coordinates: route.geometry.coordinates,
+    distance: route.distance,
+    duration: route.duration
+  };
+};
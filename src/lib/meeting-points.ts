@@ -0,0 +1,82 @@
+import { haversineDistance } from '@/lib/geo';
+import {
+  WALKING_SPEED_MPS,
+  findNearestNode,
+  hasAllowedEdge,
+  shortestDistances,
+  type CampusGraph,
+  type PathNode,
+  type RoutingProfile
+} from '@/lib/routing';
+import type { CampusLocation, LatLng } from '@/types/campus';
+
+export interface MeetingPoint {
+  location: CampusLocation;
+  // Walking time in seconds for each person, in the order they were given
+  durations: number[];
+}
+
+export interface MeetingPointOptions {
+  profile?: RoutingProfile;
+  limit?: number;
+  // Only places that pass are considered, e.g. cafés
+  filter?: (location: CampusLocation) => boolean;
+}
+
+const toPoint = (location: CampusLocation): LatLng => ({ lat: location.latitude, lng: location.longitude });
+
+// Walking distance from one person to every candidate: one search over the network, then
+// the same entrance-or-nearest-node rule planWalkingRoute uses to reach each place
+const distancesFrom = (
+  graph: CampusGraph | null,
+  from: LatLng,
+  candidates: CampusLocation[],
+  profile: RoutingProfile
+) => {
+  const reachable = (node: PathNode) => hasAllowedEdge(graph!, node.id, profile);
+  const start = graph ? findNearestNode(graph, from, reachable) : null;
+  const network = start ? shortestDistances(graph!, start.node.id, profile) : null;
+
+  return candidates.map(location => {
+    const straight = haversineDistance(from, toPoint(location));
+    if (!network) return straight;
+
+    const entrances = [...graph!.nodes.values()].filter(
+      node => node.isEntrance && node.locationId === location.id && (profile !== 'step-free' || node.stepFree)
+    );
+    const ends = entrances.length > 0 ? entrances : [findNearestNode(graph!, toPoint(location), reachable)?.node].filter(Boolean);
+    let best = Infinity;
+    ends.forEach(node => {
+      const along = network.get(node.id);
+      if (along !== undefined) best = Math.min(best, start!.distance + along + haversineDistance(node, toPoint(location)));
+    });
+    // Off the network for this profile: estimate as the crow flies, like an off-campus leg
+    return Number.isFinite(best) ? best : straight;
+  });
+};
+
+/**
+ * Places everyone can walk to quickly. Ranked by the longest walk any one person
+ * faces, so nobody is left with a trek, then by total walking time.
+ */
+export const suggestMeetingPoints = (
+  graph: CampusGraph | null,
+  people: LatLng[],
+  locations: CampusLocation[],
+  { profile = 'walking', limit = 3, filter }: MeetingPointOptions = {}
+): MeetingPoint[] => {
+  const candidates = filter ? locations.filter(filter) : locations;
+  if (people.length === 0 || candidates.length === 0) return [];
+
+  const perPerson = people.map(person => distancesFrom(graph, person, candidates, profile));
+  return candidates
+    .map((location, index) => ({
+      location,
+      durations: perPerson.map(distances => distances[index] / WALKING_SPEED_MPS)
+    }))
+    .sort((a, b) =>
+      Math.max(...a.durations) - Math.max(...b.durations) ||
+      a.durations.reduce((sum, d) => sum + d, 0) - b.durations.reduce((sum, d) => sum + d, 0)
+    )
+    .slice(0, limit);
+};
@@ -0,0 +1,118 @@
+import { supabase } from '@/integrations/supabase/client';
+import { formatDuration } from '@/lib/directions';
+import { haversineDistance } from '@/lib/geo';
+import { openChangeChannel, toLiveShare, type LiveShare } from '@/lib/location-sharing';
+import { WALKING_SPEED_MPS, planWalkingRoute, type CampusGraph, type RoutingProfile } from '@/lib/routing';
+import { createShareLink } from '@/lib/share-links';
+import type { CampusLocation, LatLng } from '@/types/campus';
+
+// The meetup this browser created or joined, so a reload brings it back
+const MEETUP_STORAGE_KEY = 'campus-map-meetup';
+
+// Marker colours, handed out in joining order and reused after the last one
+export const PARTICIPANT_COLORS = ['#2563eb', '#db2777', '#ea580c', '#7c3aed', '#0d9488', '#ca8a04', '#dc2626', '#4f46e5'];
+
+// Participants this close to the destination are shown as having arrived
+export const ARRIVED_WITHIN_M = 30;
+
+export interface Meetup {
+  id: string;
+  name: string;
+  destinationId: string;
+  expiresAt: string;
+  // In joining order, including anyone who has since stopped sharing
+  participants: LiveShare[];
+}
+
+// A meetup this browser knows about, with the signed link to invite others
+export interface SavedMeetup {
+  id: string;
+  expiresAt: string;
+  link: string;
+}
+
+export const participantColor = (index: number) => PARTICIPANT_COLORS[index % PARTICIPANT_COLORS.length];
+
+export const createMeetup = async (name: string, destination: CampusLocation, minutes: number): Promise<SavedMeetup> => {
+  const { data, error } = await supabase.rpc('create_meetup', {
+    name: name.trim(),
+    destination_id: destination.id,
+    duration_minutes: minutes
+  });
+  if (error) throw error;
+  const [row] = data;
+  return { id: row.id, expiresAt: row.expires_at, link: await createShareLink({ kind: 'meetup', meetupId: row.id }) };
+};
+
+export const fetchMeetup = async (id: string): Promise<Meetup | null> => {
+  const [meetup, participants] = await Promise.all([
+    supabase.rpc('get_meetup', { meetup_id: id }),
+    supabase.rpc('get_meetup_participants', { meetup_id: id })
+  ]);
+  if (meetup.error) throw meetup.error;
+  if (participants.error) throw participants.error;
+  const [row] = meetup.data;
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    destinationId: row.destination_id,
+    expiresAt: row.expires_at,
+    participants: participants.data.map(toLiveShare)
+  };
+};
+
+// Participants announce their moves here as well as on their own session's channel
+export const openMeetupChannel = (id: string, onChange?: () => void) => openChangeChannel(`meetup:${id}`, onChange);
+
+/**
+ * Walking time in seconds from each participant's last position to the destination,
+ * over the campus paths only so a large group does not fan out into Mapbox requests.
+ * Null for participants who are not sharing a position.
+ */
+export const estimateArrivals = async (
+  graph: CampusGraph | null,
+  participants: LiveShare[],
+  destination: CampusLocation,
+  profile: RoutingProfile
+) => {
+  const to: LatLng = { lat: destination.latitude, lng: destination.longitude };
+  const arrivals: Record<string, number | null> = {};
+  for (const participant of participants) {
+    if (!participant.position) {
+      arrivals[participant.id] = null;
+      continue;
+    }
+    const straight = haversineDistance(participant.position, to);
+    if (straight <= ARRIVED_WITHIN_M) {
+      arrivals[participant.id] = 0;
+      continue;
+    }
+    const route = await planWalkingRoute(graph, participant.position, to, { profile, toLocationId: destination.id });
+    arrivals[participant.id] = (route ? route.distance : straight) / WALKING_SPEED_MPS;
+  }
+  return arrivals;
+};
+
+// How a participant's estimate from estimateArrivals reads; undefined while it is worked out
+export const formatArrival = (seconds: number | null | undefined) => {
+  if (seconds === undefined || seconds === null) return 'locating...';
+  return seconds === 0 ? 'arrived' : `${formatDuration(seconds)} away`;
+};
+
+export const loadSavedMeetup = (): SavedMeetup | null => {
+  try {
+    const meetup: SavedMeetup | null = JSON.parse(localStorage.getItem(MEETUP_STORAGE_KEY) ?? 'null');
+    return meetup && new Date(meetup.expiresAt).getTime() > Date.now() ? meetup : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveMeetup = (meetup: SavedMeetup | null) => {
+  if (meetup) {
+    localStorage.setItem(MEETUP_STORAGE_KEY, JSON.stringify(meetup));
+  } else {
+    localStorage.removeItem(MEETUP_STORAGE_KEY);
+  }
+};
@@ -0,0 +1,110 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { LocationHours } from '@/lib/opening-hours';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+// Campus in New York, device in Tokyo: results must follow the campus clock, not the device's
+vi.stubEnv('VITE_CAMPUS_TIME_ZONE', 'America/New_York');
+vi.stubEnv('TZ', 'Asia/Tokyo');
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+const { CAMPUS_TIME_ZONE, arrivalWarning, describeOpenStatus, getOpenStatus } = await import('@/lib/opening-hours');
+
+const at = (iso: string) => new Date(iso);
+const hm = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+// Weekdays 09:00-17:00 and Saturdays 10:00-14:00
+const library: LocationHours = {
+  weekly: [
+    ...[1, 2, 3, 4, 5].map(day => ({ day, opens: hm(9), closes: hm(17) })),
+    { day: 6, opens: hm(10), closes: hm(14) }
+  ],
+  exceptions: [
+    { date: '2025-12-24', opens: hm(10), closes: hm(12), name: 'Christmas Eve' },
+    { date: '2025-12-25', opens: null, closes: null, name: 'Christmas Day' }
+  ]
+};
+
+// Friday and Saturday nights until 02:00
+const bar: LocationHours = {
+  weekly: [5, 6].map(day => ({ day, opens: hm(20), closes: hm(2) })),
+  exceptions: []
+};
+
+// Sundays from 05:00, when the clocks may have changed a few hours earlier
+const bakery: LocationHours = {
+  weekly: [{ day: 0, opens: hm(5), closes: hm(11) }],
+  exceptions: []
+};
+
+describe('getOpenStatus', () => {
+  it('works in the campus time zone whatever the device is set to', () => {
+    expect(CAMPUS_TIME_ZONE).toBe('America/New_York');
+    // 13:00 UTC is already 22:00 on the device
+    expect(at('2025-10-20T13:00:00Z').getHours()).toBe(22);
+    expect(getOpenStatus(library, at('2025-10-20T13:00:00Z'))).toEqual({ state: 'open', closesAt: at('2025-10-20T21:00:00Z') });
+    expect(getOpenStatus(library, at('2025-10-20T12:59:00Z'))).toMatchObject({ state: 'closed', opensAt: at('2025-10-20T13:00:00Z') });
+  });
+
+  it('keeps wall-clock times across the end of daylight saving', () => {
+    // Saturday 14:00 EDT; the next opening is Monday 09:00, by then EST
+    expect(getOpenStatus(library, at('2025-11-01T18:00:00Z'))).toEqual({
+      state: 'closed',
+      opensAt: at('2025-11-03T14:00:00Z'),
+      reason: null
+    });
+    // The clocks went back at 02:00, so 05:00 is six hours after midnight
+    expect(getOpenStatus(bakery, at('2025-11-02T04:00:00Z'))).toMatchObject({ opensAt: at('2025-11-02T10:00:00Z') });
+  });
+
+  it('keeps wall-clock times across the start of daylight saving', () => {
+    // The clocks went forward at 02:00, so 05:00 is only four hours after midnight
+    expect(getOpenStatus(bakery, at('2025-03-09T05:00:00Z'))).toMatchObject({ opensAt: at('2025-03-09T09:00:00Z') });
+    expect(getOpenStatus(bakery, at('2025-03-09T09:00:00Z'))).toEqual({ state: 'open', closesAt: at('2025-03-09T15:00:00Z') });
+  });
+
+  it('runs late periods past midnight', () => {
+    // Saturday 01:00, still inside Friday night's opening
+    expect(getOpenStatus(bar, at('2025-10-25T05:00:00Z'))).toEqual({ state: 'open', closesAt: at('2025-10-25T06:00:00Z') });
+    // Sunday 02:00 closes Saturday night; it reopens at 20:00 on Friday
+    expect(getOpenStatus(bar, at('2025-10-26T06:00:00Z'))).toMatchObject({ state: 'closed', opensAt: at('2025-11-01T00:00:00Z') });
+  });
+
+  it('lets exceptions replace the weekly hours', () => {
+    expect(getOpenStatus(library, at('2025-12-24T16:00:00Z'))).toEqual({ state: 'open', closesAt: at('2025-12-24T17:00:00Z') });
+    expect(getOpenStatus(library, at('2025-12-25T15:00:00Z'))).toEqual({
+      state: 'closed',
+      opensAt: at('2025-12-26T14:00:00Z'),
+      reason: 'Christmas Day'
+    });
+  });
+
+  it('does not guess when there are no hours', () => {
+    expect(getOpenStatus(undefined, at('2025-10-20T13:00:00Z'))).toEqual({ state: 'unknown' });
+    expect(getOpenStatus({ weekly: [], exceptions: [] }, at('2025-10-20T13:00:00Z'))).toEqual({ state: 'unknown' });
+  });
+});
+
+describe('closing soon', () => {
+  // Monday 16:40, twenty minutes before closing
+  const now = at('2025-10-20T20:40:00Z');
+  const status = getOpenStatus(library, now);
+
+  it('counts down the last half hour', () => {
+    expect(describeOpenStatus(status, now)).toBe('Closes in 20 min');
+    expect(describeOpenStatus(getOpenStatus(library, at('2025-10-20T20:29:00Z')), at('2025-10-20T20:29:00Z'))).toMatch(/^Closes (?!in)/);
+  });
+
+  it('warns how long is left after the walk', () => {
+    expect(arrivalWarning(status, now, 10 * 60)).toBe("Closes in 20 min. You'll have about 10 min when you arrive.");
+    expect(arrivalWarning(status, now, 25 * 60)).toBe('Closes in 20 min, before you arrive.');
+    expect(arrivalWarning(getOpenStatus(library, at('2025-10-20T13:00:00Z')), at('2025-10-20T13:00:00Z'), 10 * 60)).toBeNull();
+  });
+
+  it('gives the reason a place is closed', () => {
+    const christmas = at('2025-12-25T15:00:00Z');
+    expect(describeOpenStatus(getOpenStatus(library, christmas), christmas)).toMatch(/^Opens \S+ .+ \(Christmas Day\)$/);
+  });
+});
@@ -0,0 +1,204 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Within this many minutes of closing a place is flagged as closing soon
+export const CLOSING_SOON_MINUTES = 30;
+
+// Opening hours are wall-clock times on campus, whatever zone the visitor's device is in
+export const CAMPUS_TIME_ZONE = import.meta.env.VITE_CAMPUS_TIME_ZONE || 'America/New_York';
+
+// Times are minutes after midnight in CAMPUS_TIME_ZONE
+export interface OpeningPeriod {
+  day: number;
+  opens: number;
+  closes: number;
+}
+
+export interface HoursException {
+  // YYYY-MM-DD
+  date: string;
+  // Null on both means closed all day
+  opens: number | null;
+  closes: number | null;
+  name: string | null;
+}
+
+export interface LocationHours {
+  weekly: OpeningPeriod[];
+  exceptions: HoursException[];
+}
+
+export type OpenStatus =
+  | { state: 'unknown' }
+  | { state: 'open'; closesAt: Date }
+  | { state: 'closed'; opensAt: Date | null; reason: string | null };
+
+const MINUTE_MS = 60 * 1000;
+
+// "08:30:00" -> 510
+const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Loads weekly hours and exceptions for every location, keyed by location id.
+ * Locations without any rows have unknown hours rather than being closed.
+ */
+export const fetchOpeningHours = async (): Promise<Record<string, LocationHours>> => {
+  const [hoursResponse, exceptionsResponse] = await Promise.all([
+    supabase.from('campus_opening_hours').select('*'),
+    supabase.from('campus_hours_exceptions').select('*')
+  ]);
+
+  if (hoursResponse.error || exceptionsResponse.error) {
+    console.error('Error fetching opening hours:', hoursResponse.error || exceptionsResponse.error);
+    return {};
+  }
+
+  const hours: Record<string, LocationHours> = {};
+  const entry = (locationId: string) => (hours[locationId] ??= { weekly: [], exceptions: [] });
+
+  hoursResponse.data.forEach(row => {
+    entry(row.location_id).weekly.push({
+      day: row.day_of_week,
+      opens: parseTime(row.opens_at),
+      closes: parseTime(row.closes_at)
+    });
+  });
+  exceptionsResponse.data.forEach(row => {
+    entry(row.location_id).exceptions.push({
+      date: row.date,
+      opens: row.opens_at !== null ? parseTime(row.opens_at) : null,
+      closes: row.closes_at !== null ? parseTime(row.closes_at) : null,
+      name: row.name
+    });
+  });
+  return hours;
+};
+
+const campusParts = new Intl.DateTimeFormat('en-US', {
+  timeZone: CAMPUS_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric'
+});
+
+// The campus wall clock at `date`, expressed as a UTC timestamp with the same fields
+const campusWallClock = (date: Date) => {
+  const parts: Record<string, number> = {};
+  campusParts.formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// The campus calendar day containing `date`, as UTC midnight; only its UTC fields are meaningful
+const campusDay = (date: Date) => {
+  const day = new Date(campusWallClock(date));
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+// YYYY-MM-DD of a day from campusDay
+const dateKey = (day: Date) => day.toISOString().slice(0, 10);
+
+// The instant the campus clock reads `minutes` past midnight on `day`. Checking the offset
+// again at the result keeps times right on the days the clocks change.
+const atMinutes = (day: Date, minutes: number) => {
+  const wall = day.getTime() + minutes * MINUTE_MS;
+  const guess = wall - (campusWallClock(new Date(wall)) - wall);
+  return new Date(wall - (campusWallClock(new Date(guess)) - guess));
+};
+
+// Concrete opening intervals for one calendar day, exceptions taking precedence over the weekly hours
+const intervalsOn = (hours: LocationHours, day: Date) => {
+  const exceptions = hours.exceptions.filter(e => e.date === dateKey(day));
+  const periods = exceptions.length > 0
+    ? exceptions.flatMap(e => (e.opens !== null && e.closes !== null ? [{ opens: e.opens, closes: e.closes }] : []))
+    : hours.weekly.filter(p => p.day === day.getUTCDay());
+
+  return periods.map(period => ({
+    start: atMinutes(day, period.opens),
+    // Closing at or before opening time means the period runs past midnight
+    end: atMinutes(day, period.closes <= period.opens ? period.closes + 24 * 60 : period.closes)
+  }));
+};
+
+/** Whether a location is open at `now`, and when that changes within the next week. */
+export const getOpenStatus = (hours: LocationHours | undefined, now: Date): OpenStatus => {
+  if (!hours || (hours.weekly.length === 0 && hours.exceptions.length === 0)) {
+    return { state: 'unknown' };
+  }
+
+  // Start from yesterday so a late-night period that began then is included
+  const today = campusDay(now);
+  const intervals = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(today);
+    day.setUTCDate(day.getUTCDate() + offset);
+    intervals.push(...intervalsOn(hours, day));
+  }
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const current = intervals.find(i => i.start <= now && now < i.end);
+  if (current) {
+    // Back-to-back periods (e.g. 22:00-00:00 then 00:00-02:00) count as one
+    let closesAt = current.end;
+    for (const interval of intervals) {
+      if (interval.start <= closesAt && interval.end > closesAt) closesAt = interval.end;
+    }
+    return { state: 'open', closesAt };
+  }
+
+  const todayException = hours.exceptions.find(e => e.date === dateKey(today) && e.opens === null);
+  return {
+    state: 'closed',
+    opensAt: intervals.find(i => i.start > now)?.start ?? null,
+    reason: todayException?.name ?? null
+  };
+};
+
+export const minutesUntil = (date: Date, now: Date) => Math.max(0, Math.round((date.getTime() - now.getTime()) / MINUTE_MS));
+
+// In campus time, so the times match the signs on the doors
+export const formatClockTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: CAMPUS_TIME_ZONE });
+
+// "Closes 17:00", "Opens Mon 08:00", "Closed today (Christmas Day)"
+export const describeOpenStatus = (status: OpenStatus, now: Date) => {
+  if (status.state === 'open') {
+    const minutes = minutesUntil(status.closesAt, now);
+    return minutes <= CLOSING_SOON_MINUTES ? `Closes in ${minutes} min` : `Closes ${formatClockTime(status.closesAt)}`;
+  }
+  if (status.state === 'closed') {
+    if (!status.opensAt) return status.reason ? `Closed (${status.reason})` : 'Closed';
+    const sameDay = dateKey(campusDay(status.opensAt)) === dateKey(campusDay(now));
+    const day = sameDay ? '' : `${status.opensAt.toLocaleDateString([], { weekday: 'short', timeZone: CAMPUS_TIME_ZONE })} `;
+    const opens = `Opens ${day}${formatClockTime(status.opensAt)}`;
+    return status.reason ? `${opens} (${status.reason})` : opens;
+  }
+  return '';
+};
+
+/**
+ * Warning for a trip that reaches a place close to (or after) closing time,
+ * or null when there is enough time. `travelSeconds` is the walking time.
+ */
+export const arrivalWarning = (status: OpenStatus, now: Date, travelSeconds: number) => {
+  if (status.state === 'closed') {
+    return status.opensAt
+      ? `Closed now. ${describeOpenStatus(status, now)}.`
+      : 'Closed now.';
+  }
+  if (status.state !== 'open') return null;
+
+  const closesIn = minutesUntil(status.closesAt, now);
+  const spare = closesIn - Math.ceil(travelSeconds / 60);
+  if (spare < 0) return `Closes in ${closesIn} min, before you arrive.`;
+  if (closesIn <= CLOSING_SOON_MINUTES) return `Closes in ${closesIn} min. You'll have about ${spare} min when you arrive.`;
+  return null;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoomCode } from '@/lib/room-codes';
+
+describe('parseRoomCode', () => {
+  it('splits building codes from room numbers', () => {
+    expect(parseRoomCode('SCI-LT3')).toEqual([{ building: 'SCI', room: 'LT3' }]);
+    expect(parseRoomCode('ENG.204')).toEqual([{ building: 'ENG', room: '204' }]);
+  });
+
+  it('tries the building reading before taking the whole text as a room', () => {
+    expect(parseRoomCode('  eng   204 ')).toEqual([
+      { building: 'eng', room: '204' },
+      { building: null, room: 'eng 204' }
+    ]);
+  });
+
+  it('reads named blocks and buildings with a room', () => {
+    expect(parseRoomCode('Block B, Rm 12')).toContainEqual({ building: 'Block B', room: '12' });
+    expect(parseRoomCode('Main Library, Room 3')).toEqual([{ building: 'Main Library', room: '3' }]);
+  });
+
+  it('does not take a room word for a building code', () => {
+    expect(parseRoomCode('Room 12')).toEqual([{ building: null, room: '12' }]);
+    expect(parseRoomCode('RM12')).toEqual([{ building: null, room: '12' }]);
+    expect(parseRoomCode('LT 2')).toEqual([{ building: null, room: 'LT 2' }]);
+  });
+
+  it('finds nothing in plain names', () => {
+    expect(parseRoomCode('Student Union')).toEqual([]);
+  });
+});
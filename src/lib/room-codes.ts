@@ -0,0 +1,49 @@
+/**
+ * How a campus writes its venues on timetables. Each pattern is tried in
+ * order against the whole search text and may capture a `building` and/or a
+ * `room` named group; every pattern that matches gives one candidate reading.
+ */
+export interface RoomCodeGrammar {
+  patterns: RegExp[];
+}
+
+export interface ParsedRoomCode {
+  building: string | null;
+  room: string | null;
+}
+
+const DEFAULT_GRAMMAR: RoomCodeGrammar = {
+  patterns: [
+    // SCI-LT3, ENG 204, ENG.204; Rm, Room and LT start a room, not a building code
+    /^(?!(?:rm|room|lt)(?![A-Z]))(?<building>[A-Z]{2,5})[\s./-]*(?<room>[A-Z]{0,3}\s*\d+[A-Z]?)$/i,
+    // Block B, Rm 12 / Bldg C room 3.02 / Building 5 R12
+    /^(?<building>(?:block|bldg|building)\.?\s*[A-Z0-9]+)\s*[,/-]?\s*(?:rm|room|r)\.?\s*(?<room>[A-Z0-9.]+)$/i,
+    // Main Library, Room 3
+    /^(?<building>[A-Z][A-Z\s]*?)\s*,?\s*(?:rm|room)\.?\s*(?<room>[A-Z0-9.]+)$/i,
+    // LT 2, Rm 12, 204
+    /^(?:rm|room)?\.?\s*(?<room>[A-Z]{0,3}\s*\d+[A-Z]?)$/i
+  ]
+};
+
+// Add a campus here and set VITE_CAMPUS_ID to switch to its conventions
+export const ROOM_CODE_GRAMMARS: Record<string, RoomCodeGrammar> = {
+  default: DEFAULT_GRAMMAR
+};
+
+export const getRoomCodeGrammar = (campusId = import.meta.env.VITE_CAMPUS_ID) =>
+  (campusId && ROOM_CODE_GRAMMARS[campusId]) || DEFAULT_GRAMMAR;
+
+// Every reading of `text` the grammar allows, most specific pattern first
+export const parseRoomCode = (text: string, grammar: RoomCodeGrammar = getRoomCodeGrammar()): ParsedRoomCode[] => {
+  const input = text.trim().replace(/\s+/g, ' ');
+  const readings: ParsedRoomCode[] = [];
+  for (const pattern of grammar.patterns) {
+    const groups = pattern.exec(input)?.groups;
+    if (!groups || (!groups.building && !groups.room)) continue;
+    readings.push({
+      building: groups.building?.trim() || null,
+      room: groups.room?.trim() || null
+    });
+  }
+  return readings;
+};
@@ -0,0 +1,57 @@
+import type mapboxgl from 'mapbox-gl';
+import type { Feature, LineString } from 'geojson';
+import { CLUSTER_LAYER_ID } from '@/lib/location-layers';
+
+export const ROUTE_SOURCE_ID = 'route';
+export const ROUTE_LAYER_ID = 'route';
+
+const routeFeature = (coordinates: [number, number][]): Feature<LineString> => ({
+  type: 'Feature',
+  properties: {},
+  geometry: {
+    type: 'LineString',
+    coordinates
+  }
+});
+
+/**
+ * Draws the route line, or updates it in place if it is already on the map.
+ * The line sits under the location pins so they stay clickable.
+ */
+export const addRouteLayer = (map: mapboxgl.Map, coordinates: [number, number][]) => {
+  const source = map.getSource(ROUTE_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(routeFeature(coordinates));
+  } else {
+    map.addSource(ROUTE_SOURCE_ID, {
+      type: 'geojson',
+      data: routeFeature(coordinates)
+    });
+  }
+
+  if (!map.getLayer(ROUTE_LAYER_ID)) {
+    map.addLayer({
+      id: ROUTE_LAYER_ID,
+      type: 'line',
+      source: ROUTE_SOURCE_ID,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': '#3b82f6', // Tailwind blue
+        'line-width': 6,
+        'line-opacity': 0.8
+      }
+    }, map.getLayer(CLUSTER_LAYER_ID) ? CLUSTER_LAYER_ID : undefined);
+  }
+};
+
+export const removeRouteLayer = (map: mapboxgl.Map) => {
+  if (map.getLayer(ROUTE_LAYER_ID)) {
+    map.removeLayer(ROUTE_LAYER_ID);
+  }
+  if (map.getSource(ROUTE_SOURCE_ID)) {
+    map.removeSource(ROUTE_SOURCE_ID);
+  }
+};
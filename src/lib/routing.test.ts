@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from 'vitest';
+import { haversineDistance } from '@/lib/geo';
+import {
+  buildCampusGraph,
+  planWalkingRoute,
+  shortestDistances,
+  shortestPath,
+  type PathEdgeRecord,
+  type PathNode,
+  type RouteSegment
+} from '@/lib/routing';
+
+const node = (id: string, lat: number, lng: number, extra: Partial<PathNode> = {}): PathNode => ({
+  id,
+  lat,
+  lng,
+  locationId: null,
+  name: null,
+  isEntrance: false,
+  stepFree: true,
+  ...extra
+});
+
+const edge = (id: string, from: string, to: string, extra: Partial<PathEdgeRecord> = {}): PathEdgeRecord => ({
+  id,
+  from,
+  to,
+  length: null,
+  bidirectional: true,
+  name: null,
+  kind: 'path',
+  hasKerb: false,
+  incline: null,
+  ...extra
+});
+
+// a - b - c is the short way round but climbs steps; a - d - c is longer and step-free
+const a = node('a', 0, 0);
+const b = node('b', 0, 0.001);
+const c = node('c', 0.001, 0.001, { isEntrance: true, locationId: 'library' });
+const d = node('d', 0.001, -0.0005);
+const nodes = [a, b, c, d];
+const edges = [
+  edge('ab', 'a', 'b'),
+  edge('bc', 'b', 'c', { kind: 'steps' }),
+  edge('ad', 'a', 'd'),
+  edge('dc', 'd', 'c', { kind: 'ramp', incline: 5 })
+];
+
+const point = ({ lat, lng }: PathNode) => ({ lat, lng });
+
+describe('buildCampusGraph', () => {
+  it('fills in missing lengths from the coordinates', () => {
+    const graph = buildCampusGraph(nodes, [edge('ab', 'a', 'b'), edge('ad', 'a', 'd', { length: 42 })]);
+    const [ab, ad] = graph.adjacency.get('a')!;
+    expect(ab.edge.length).toBeCloseTo(haversineDistance(a, b));
+    expect(ad.edge.length).toBe(42);
+  });
+
+  it('links one-way edges in their own direction only', () => {
+    const graph = buildCampusGraph(nodes, [edge('ab', 'a', 'b', { bidirectional: false })]);
+    expect(graph.adjacency.get('a')!.map(link => link.to)).toEqual(['b']);
+    expect(graph.adjacency.get('b')).toEqual([]);
+  });
+
+  it('skips edges to nodes it did not receive', () => {
+    const graph = buildCampusGraph([a, b], [edge('ab', 'a', 'b'), edge('ax', 'a', 'missing')]);
+    expect(graph.adjacency.get('a')!.map(link => link.to)).toEqual(['b']);
+  });
+});
+
+describe('shortestPath', () => {
+  const graph = buildCampusGraph(nodes, edges);
+
+  it('takes the shortest way when walking', () => {
+    const path = shortestPath(graph, 'a', 'c');
+    expect(path?.nodeIds).toEqual(['a', 'b', 'c']);
+    expect(path?.edges.map(e => e.id)).toEqual(['ab', 'bc']);
+    expect(path?.distance).toBeCloseTo(haversineDistance(a, b) + haversineDistance(b, c));
+  });
+
+  it('avoids steps, kerbs and steep slopes when step-free', () => {
+    expect(shortestPath(graph, 'a', 'c', 'step-free')?.nodeIds).toEqual(['a', 'd', 'c']);
+
+    const steep = buildCampusGraph(nodes, edges.map(e => (e.id === 'dc' ? { ...e, incline: 12 } : e)));
+    expect(shortestPath(steep, 'a', 'c', 'step-free')).toBeNull();
+
+    const kerbed = buildCampusGraph(nodes, edges.map(e => (e.id === 'ad' ? { ...e, hasKerb: true } : e)));
+    expect(shortestPath(kerbed, 'a', 'c', 'step-free')).toBeNull();
+  });
+
+  it('does not travel one-way edges backwards', () => {
+    const oneWay = buildCampusGraph([a, b], [edge('ab', 'a', 'b', { bidirectional: false })]);
+    expect(shortestPath(oneWay, 'a', 'b')?.nodeIds).toEqual(['a', 'b']);
+    expect(shortestPath(oneWay, 'b', 'a')).toBeNull();
+  });
+
+  it('returns null for unknown nodes', () => {
+    expect(shortestPath(graph, 'a', 'nowhere')).toBeNull();
+  });
+});
+
+describe('shortestDistances', () => {
+  it('agrees with shortestPath for every reachable node', () => {
+    const graph = buildCampusGraph(nodes, edges);
+    const distances = shortestDistances(graph, 'a', 'step-free');
+    expect(distances.get('a')).toBe(0);
+    for (const id of ['b', 'c', 'd']) {
+      expect(distances.get(id)).toBeCloseTo(shortestPath(graph, 'a', id, 'step-free')!.distance);
+    }
+  });
+
+  it('leaves out nodes the profile cannot reach', () => {
+    const graph = buildCampusGraph([a, b], [edge('ab', 'a', 'b', { kind: 'steps' })]);
+    expect([...shortestDistances(graph, 'a', 'step-free').keys()]).toEqual(['a']);
+  });
+});
+
+describe('planWalkingRoute', () => {
+  const graph = buildCampusGraph(nodes, edges);
+  const mapboxLeg = (from: { lat: number; lng: number }, to: { lat: number; lng: number }): RouteSegment => ({
+    source: 'mapbox',
+    coordinates: [
+      [from.lng, from.lat],
+      [to.lng, to.lat]
+    ],
+    distance: 1000,
+    duration: 700
+  });
+
+  it('routes over the campus paths without asking Mapbox', async () => {
+    const fetchOffCampusLeg = vi.fn(async () => null);
+    const route = await planWalkingRoute(graph, point(a), point(c), { fetchOffCampusLeg });
+    expect(route?.nodeIds).toEqual(['a', 'b', 'c']);
+    expect(route?.segments.map(segment => segment.source)).toEqual(['campus']);
+    expect(route?.coordinates).toEqual([[0, 0], [0.001, 0], [0.001, 0.001]]);
+    expect(fetchOffCampusLeg).not.toHaveBeenCalled();
+  });
+
+  it('walks straight to and from the network for nearby points', async () => {
+    const route = await planWalkingRoute(graph, { lat: -0.0002, lng: 0 }, point(b));
+    expect(route?.segments).toHaveLength(2);
+    expect(route?.distance).toBeCloseTo(haversineDistance({ lat: -0.0002, lng: 0 }, a) + haversineDistance(a, b));
+  });
+
+  it('uses the step-free way round when asked', async () => {
+    const route = await planWalkingRoute(graph, point(a), point(c), { profile: 'step-free' });
+    expect(route?.nodeIds).toEqual(['a', 'd', 'c']);
+  });
+
+  it('ends at an entrance the profile can use', async () => {
+    const stepped = buildCampusGraph([a, b, { ...c, stepFree: false }, d], edges);
+    const to = { lat: 0.0011, lng: 0.001 };
+    expect(await planWalkingRoute(stepped, point(a), to, { toLocationId: 'library' })).not.toBeNull();
+    expect(await planWalkingRoute(stepped, point(a), to, { profile: 'step-free', toLocationId: 'library' })).toBeNull();
+  });
+
+  it('falls back to Mapbox without a path network, except for step-free routes', async () => {
+    const to = { lat: 0.01, lng: 0.01 };
+    const route = await planWalkingRoute(null, point(a), to, { fetchOffCampusLeg: async (from, end) => mapboxLeg(from, end) });
+    expect(route?.segments.map(segment => segment.source)).toEqual(['mapbox']);
+    expect(route?.distance).toBe(1000);
+
+    expect(
+      await planWalkingRoute(null, point(a), to, { profile: 'step-free', fetchOffCampusLeg: async (from, end) => mapboxLeg(from, end) })
+    ).toBeNull();
+  });
+
+  it('asks Mapbox only for the leg that joins an off-campus point to the network', async () => {
+    const offCampus = { lat: -0.01, lng: 0 };
+    const fetchOffCampusLeg = vi.fn(async (from: { lat: number; lng: number }, to: { lat: number; lng: number }) => mapboxLeg(from, to));
+    const route = await planWalkingRoute(graph, offCampus, point(c), { fetchOffCampusLeg });
+    expect(fetchOffCampusLeg).toHaveBeenCalledTimes(1);
+    expect(fetchOffCampusLeg).toHaveBeenCalledWith(offCampus, a);
+    expect(route?.segments.map(segment => segment.source)).toEqual(['mapbox', 'campus']);
+  });
+});
@@ -0,0 +1,333 @@
+import { haversineDistance, toLngLat } from '@/lib/geo';
+import type { LatLng } from '@/types/campus';
+
+// Average walking pace used for all duration estimates (~5 km/h)
+export const WALKING_SPEED_MPS = 1.4;
+
+// Points further than this from the path network are treated as off campus
+export const OFF_CAMPUS_THRESHOLD_M = 150;
+
+// Steepest gradient allowed on a step-free route (1:12, the usual ramp limit)
+export const MAX_STEP_FREE_INCLINE_PERCENT = 8.33;
+
+export type RoutingProfile = 'walking' | 'step-free';
+
+export type PathEdgeKind = 'path' | 'steps' | 'ramp' | 'elevator';
+
+export interface PathNode {
+  id: string;
+  lat: number;
+  lng: number;
+  locationId: string | null;
+  name: string | null;
+  isEntrance: boolean;
+  stepFree: boolean;
+}
+
+export interface PathEdge {
+  id: string;
+  from: string;
+  to: string;
+  length: number;
+  bidirectional: boolean;
+  name: string | null;
+  kind: PathEdgeKind;
+  hasKerb: boolean;
+  incline: number | null;
+}
+
+// Edge as stored, before a missing surveyed length is filled in
+export type PathEdgeRecord = Omit<PathEdge, 'length'> & { length: number | null };
+
+interface GraphLink {
+  to: string;
+  edge: PathEdge;
+}
+
+export interface CampusGraph {
+  nodes: Map<string, PathNode>;
+  adjacency: Map<string, GraphLink[]>;
+}
+
+export interface RouteSegment {
+  source: 'campus' | 'mapbox';
+  coordinates: [number, number][];
+  distance: number;
+  duration: number;
+  // Path edges behind each consecutive pair of coordinates, for campus path segments
+  edges?: PathEdge[];
+}
+
+export interface WalkingRoute {
+  segments: RouteSegment[];
+  coordinates: [number, number][];
+  distance: number;
+  duration: number;
+  nodeIds: string[];
+  edges: PathEdge[];
+}
+
+export type OffCampusLegFetcher = (from: LatLng, to: LatLng) => Promise<RouteSegment | null>;
+
+export interface RouteOptions {
+  profile?: RoutingProfile;
+  // Lets the route end at one of the destination's entrances instead of the nearest node
+  toLocationId?: string;
+  fetchOffCampusLeg?: OffCampusLegFetcher;
+}
+
+export const isEdgeAllowed = (edge: PathEdge, profile: RoutingProfile) => {
+  if (profile === 'walking') return true;
+  return (
+    edge.kind !== 'steps' &&
+    !edge.hasKerb &&
+    (edge.incline === null || Math.abs(edge.incline) <= MAX_STEP_FREE_INCLINE_PERCENT)
+  );
+};
+
+export const hasAllowedEdge = (graph: CampusGraph, nodeId: string, profile: RoutingProfile) =>
+  (graph.adjacency.get(nodeId) ?? []).some(link => isEdgeAllowed(link.edge, profile));
+
+export const buildCampusGraph = (nodes: PathNode[], edges: PathEdgeRecord[]): CampusGraph => {
+  const graph: CampusGraph = { nodes: new Map(), adjacency: new Map() };
+
+  nodes.forEach(node => {
+    graph.nodes.set(node.id, node);
+    graph.adjacency.set(node.id, []);
+  });
+
+  edges.forEach(rawEdge => {
+    const from = graph.nodes.get(rawEdge.from);
+    const to = graph.nodes.get(rawEdge.to);
+    // Skip edges pointing at nodes we did not receive rather than failing the whole graph
+    if (!from || !to) return;
+
+    const edge: PathEdge = { ...rawEdge, length: rawEdge.length ?? haversineDistance(from, to) };
+    graph.adjacency.get(from.id)!.push({ to: to.id, edge });
+    if (edge.bidirectional) {
+      graph.adjacency.get(to.id)!.push({ to: from.id, edge });
+    }
+  });
+
+  return graph;
+};
+
+export const findNearestNode = (graph: CampusGraph, point: LatLng, filter?: (node: PathNode) => boolean) => {
+  let nearest: { node: PathNode; distance: number } | null = null;
+  for (const node of graph.nodes.values()) {
+    if (filter && !filter(node)) continue;
+    const distance = haversineDistance(point, node);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { node, distance };
+    }
+  }
+  return nearest;
+};
+
+// A* search over the path graph using straight-line distance as the heuristic
+export const shortestPath = (
+  graph: CampusGraph,
+  startId: string,
+  endId: string,
+  profile: RoutingProfile = 'walking'
+) => {
+  const end = graph.nodes.get(endId);
+  if (!graph.nodes.has(startId) || !end) return null;
+
+  const open = new Set<string>([startId]);
+  const cameFrom = new Map<string, GraphLink & { from: string }>();
+  const gScore = new Map<string, number>([[startId, 0]]);
+  const fScore = new Map<string, number>([[startId, haversineDistance(graph.nodes.get(startId)!, end)]]);
+
+  while (open.size > 0) {
+    let current = '';
+    for (const id of open) {
+      if (!current || fScore.get(id)! < fScore.get(current)!) current = id;
+    }
+
+    if (current === endId) {
+      const nodeIds = [endId];
+      const edges: PathEdge[] = [];
+      let step = cameFrom.get(endId);
+      while (step) {
+        nodeIds.unshift(step.from);
+        edges.unshift(step.edge);
+        step = cameFrom.get(step.from);
+      }
+      return { nodeIds, edges, distance: gScore.get(endId)! };
+    }
+
+    open.delete(current);
+    for (const link of graph.adjacency.get(current) ?? []) {
+      if (!isEdgeAllowed(link.edge, profile)) continue;
+      const tentative = gScore.get(current)! + link.edge.length;
+      if (tentative < (gScore.get(link.to) ?? Infinity)) {
+        cameFrom.set(link.to, { ...link, from: current });
+        gScore.set(link.to, tentative);
+        fScore.set(link.to, tentative + haversineDistance(graph.nodes.get(link.to)!, end));
+        open.add(link.to);
+      }
+    }
+  }
+
+  return null;
+};
+
+// Dijkstra from one node to every node it can reach, for ranking many destinations at once
+export const shortestDistances = (graph: CampusGraph, startId: string, profile: RoutingProfile = 'walking') => {
+  const distances = new Map<string, number>();
+  if (!graph.nodes.has(startId)) return distances;
+
+  const open = new Map<string, number>([[startId, 0]]);
+  while (open.size > 0) {
+    let current = '';
+    for (const [id, distance] of open) {
+      if (!current || distance < open.get(current)!) current = id;
+    }
+    const distance = open.get(current)!;
+    open.delete(current);
+    distances.set(current, distance);
+
+    for (const link of graph.adjacency.get(current) ?? []) {
+      if (distances.has(link.to) || !isEdgeAllowed(link.edge, profile)) continue;
+      const tentative = distance + link.edge.length;
+      if (tentative < (open.get(link.to) ?? Infinity)) open.set(link.to, tentative);
+    }
+  }
+
+  return distances;
+};
+
+const straightSegment = (from: LatLng, to: LatLng): RouteSegment => {
+  const distance = haversineDistance(from, to);
+  return {
+    source: 'campus',
+    coordinates: [toLngLat(from), toLngLat(to)],
+    distance,
+    duration: distance / WALKING_SPEED_MPS
+  };
+};
+
+// Connects a point to the network, asking Mapbox for a real route when the point is off campus
+const connectorSegment = async (
+  from: LatLng,
+  to: LatLng,
+  gap: number,
+  fetchOffCampusLeg?: OffCampusLegFetcher
+) => {
+  if (gap > OFF_CAMPUS_THRESHOLD_M && fetchOffCampusLeg) {
+    const leg = await fetchOffCampusLeg(from, to).catch(() => null);
+    if (leg) return leg;
+  }
+  return gap > 0 ? straightSegment(from, to) : null;
+};
+
+const combineSegments = (segments: RouteSegment[], nodeIds: string[], edges: PathEdge[]): WalkingRoute => {
+  const coordinates: [number, number][] = [];
+  segments.forEach(segment => {
+    segment.coordinates.forEach(coord => {
+      const last = coordinates[coordinates.length - 1];
+      if (!last || last[0] !== coord[0] || last[1] !== coord[1]) coordinates.push(coord);
+    });
+  });
+
+  return {
+    segments,
+    coordinates,
+    distance: segments.reduce((sum, segment) => sum + segment.distance, 0),
+    duration: segments.reduce((sum, segment) => sum + segment.duration, 0),
+    nodeIds,
+    edges
+  };
+};
+
+// Picks the path to whichever usable entrance of the destination is closest by walking distance
+const pathToEntrance = (graph: CampusGraph, startId: string, entrances: PathNode[], profile: RoutingProfile) => {
+  let best: { node: PathNode; path: NonNullable<ReturnType<typeof shortestPath>> } | null = null;
+  for (const node of entrances) {
+    const path = shortestPath(graph, startId, node.id, profile);
+    if (path && (!best || path.distance < best.path.distance)) {
+      best = { node, path };
+    }
+  }
+  return best;
+};
+
+/**
+ * Computes a walking route over the campus path network. Only the legs that
+ * join an off-campus point to the network are delegated to `fetchOffCampusLeg`;
+ * everything else runs locally so routing keeps working without a connection.
+ * With the step-free profile, returns null rather than a route that uses
+ * steps, kerbs, steep slopes or an inaccessible entrance.
+ */
+export const planWalkingRoute = async (
+  graph: CampusGraph | null,
+  from: LatLng,
+  to: LatLng,
+  { profile = 'walking', toLocationId, fetchOffCampusLeg }: RouteOptions = {}
+): Promise<WalkingRoute | null> => {
+  const reachable = (node: PathNode) => hasAllowedEdge(graph!, node.id, profile);
+  const start = graph ? findNearestNode(graph, from, reachable) : null;
+
+  const entrances = graph && toLocationId
+    ? [...graph.nodes.values()].filter(node => node.isEntrance && node.locationId === toLocationId)
+    : [];
+  const usableEntrances = entrances.filter(node => profile !== 'step-free' || node.stepFree);
+  // The building has entrances, but none the chosen profile can use
+  if (entrances.length > 0 && usableEntrances.length === 0) return null;
+
+  let end: { node: PathNode; distance: number } | null = null;
+  let path: ReturnType<typeof shortestPath> = null;
+  if (start && usableEntrances.length > 0) {
+    const best = pathToEntrance(graph!, start.node.id, usableEntrances, profile);
+    if (best) {
+      end = { node: best.node, distance: haversineDistance(best.node, to) };
+      path = best.path;
+    }
+  } else if (start) {
+    end = findNearestNode(graph!, to, reachable);
+    path = end ? shortestPath(graph!, start.node.id, end.node.id, profile) : null;
+  }
+
+  if (!start || !end || !path) {
+    // Mapbox cannot promise a step-free path, so only plain walking may fall back to it
+    if (profile === 'step-free') return null;
+    // No usable network between the two points: fall back to a single external leg
+    const leg = fetchOffCampusLeg ? await fetchOffCampusLeg(from, to).catch(() => null) : null;
+    return leg ? combineSegments([leg], [], []) : null;
+  }
+
+  const pathCoordinates = path.nodeIds.map(id => toLngLat(graph!.nodes.get(id)!));
+  const segments: RouteSegment[] = [];
+
+  const approach = await connectorSegment(from, start.node, start.distance, fetchOffCampusLeg);
+  if (approach) segments.push(approach);
+
+  if (pathCoordinates.length > 1) {
+    segments.push({
+      source: 'campus',
+      coordinates: pathCoordinates,
+      distance: path.distance,
+      duration: path.distance / WALKING_SPEED_MPS,
+      edges: path.edges
+    });
+  }
+
+  const exit = await connectorSegment(end.node, to, end.distance, fetchOffCampusLeg);
+  if (exit) segments.push(exit);
+
+  if (segments.length === 0) {
+    // Start and destination snap to the same spot
+    segments.push(straightSegment(from, to));
+  }
+
+  return combineSegments(segments, path.nodeIds, path.edges);
+};
+
+// Chains consecutive routes (e.g. the legs of an itinerary) into one continuous route
+export const joinRoutes = (routes: WalkingRoute[]): WalkingRoute =>
+  combineSegments(
+    routes.flatMap(route => route.segments),
+    routes.flatMap(route => route.nodeIds),
+    routes.flatMap(route => route.edges)
+  );
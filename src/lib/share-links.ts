@@ -0,0 +1,103 @@
+import {
+  importVerifyingKey,
+  verifyShareToken,
+  type SharePayload
+} from '../../supabase/functions/_shared/share-token';
+import { supabase } from '@/integrations/supabase/client';
+import { shareLinkPath } from '@/lib/deep-links';
+
+// Token format and checks are shared with the share-link edge function, which signs them
+export type { SharePayload } from '../../supabase/functions/_shared/share-token';
+
+export type ShareLinkRequest =
+  | { kind: 'live'; shareId: string }
+  | { kind: 'meetup'; meetupId: string }
+  | { kind: 'place'; placeId: string; name?: string | null };
+
+export type ShareLinkCheck = { ok: true; payload: SharePayload } | { ok: false; message: string };
+
+export const UNSIGNED_LINK_MESSAGE =
+  'This link was made by an older version of the map and cannot be verified. Ask the sender to share it again.';
+
+let publicKeyCache: Promise<CryptoKey> | null = null;
+
+// Fetched once per page; a failed fetch is retried on the next check
+const fetchPublicKey = () => {
+  if (!publicKeyCache) {
+    publicKeyCache = (async () => {
+      const { data, error } = await supabase.functions.invoke('share-link', { method: 'GET' });
+      if (error) throw error;
+      return importVerifyingKey(data.publicKey);
+    })().catch(error => {
+      publicKeyCache = null;
+      throw error;
+    });
+  }
+  return publicKeyCache;
+};
+
+/** Asks the share-link function to sign a link and returns its full URL. */
+export const createShareLink = async (request: ShareLinkRequest) => {
+  const { data, error } = await supabase.functions.invoke('share-link', { body: request });
+  if (error) throw error;
+  return `${window.location.origin}${shareLinkPath(data.token)}`;
+};
+
+// Place links are signed ahead of time, because browsers only allow sharing and copying
+// straight after a click, too soon to wait for the share-link function
+const preparedPlaceLinks = new Map<string, { url: string | null; signedAt: number }>();
+// Well inside the default week a place link lasts, so a prepared link is never close to expiring
+const PREPARED_LINK_MAX_AGE_MS = 60 * 60 * 1000;
+
+const placeLinkKey = (placeId: string, name: string | null) => `${placeId}\n${name ?? ''}`;
+
+/** Starts signing a place link unless a recent one is ready or on its way. */
+export const preparePlaceLink = (placeId: string, name: string | null) => {
+  const key = placeLinkKey(placeId, name);
+  const prepared = preparedPlaceLinks.get(key);
+  if (prepared && Date.now() - prepared.signedAt < PREPARED_LINK_MAX_AGE_MS) return;
+
+  const entry = { url: null as string | null, signedAt: Date.now() };
+  preparedPlaceLinks.set(key, entry);
+  createShareLink({ kind: 'place', placeId, name })
+    .then(url => {
+      entry.url = url;
+    })
+    .catch(error => {
+      console.error('Error signing share link:', error);
+      if (preparedPlaceLinks.get(key) === entry) preparedPlaceLinks.delete(key);
+    });
+};
+
+/** The signed link prepared for a place, or null if signing has not finished. */
+export const preparedPlaceLink = (placeId: string, name: string | null) => {
+  const prepared = preparedPlaceLinks.get(placeLinkKey(placeId, name));
+  return prepared && Date.now() - prepared.signedAt < PREPARED_LINK_MAX_AGE_MS ? prepared.url : null;
+};
+
+/** Verifies a share link's token, turning any failure into a message for the recipient. */
+export const checkShareLink = async (token: string): Promise<ShareLinkCheck> => {
+  let key: CryptoKey;
+  try {
+    key = await fetchPublicKey();
+  } catch (error) {
+    console.error('Error fetching share link key:', error);
+    return { ok: false, message: 'Could not check this share link. Check your connection and reload the page.' };
+  }
+
+  const result = await verifyShareToken(token, key);
+  if (result.ok === true) return result;
+  switch (result.reason) {
+    case 'expired':
+      return {
+        ok: false,
+        message: `This share link${result.payload.name ? ` from ${result.payload.name}` : ''} expired on ${new Date(
+          result.payload.exp * 1000
+        ).toLocaleString()}. Ask for a new one.`
+      };
+    case 'signature':
+      return { ok: false, message: 'This share link has been changed since it was sent, so it cannot be trusted.' };
+    default:
+      return { ok: false, message: 'This share link is incomplete or damaged. Ask the sender to share it again.' };
+  }
+};
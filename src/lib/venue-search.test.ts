@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { exactVenue, searchVenues, type VenueContext } from '@/lib/venue-search';
+import type { CampusBuilding, CampusLocation, CampusRoom } from '@/types/campus';
+
+// The indoor helpers share a module with the Supabase loaders
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const square: [number, number][][] = [[[0, 0], [0, 0.0001], [0.0001, 0.0001], [0.0001, 0], [0, 0]]];
+
+const location = (id: string, name: string): CampusLocation => ({ id, name, category: 'academic', latitude: 0, longitude: 0 });
+
+const building = (id: string, code: string | null, name: string | null = null): CampusBuilding => ({
+  id,
+  locationId: id,
+  name,
+  code,
+  aliases: [],
+  footprint: square,
+  height: 10,
+  minHeight: 0
+});
+
+const room = (id: string, buildingId: string, code: string): CampusRoom => ({
+  id,
+  floorId: `${buildingId}-ground`,
+  code,
+  name: null,
+  footprint: square
+});
+
+const buildings = [building('science', 'SCI'), building('engineering', 'ENG'), building('block-b', null, 'Block B'), building('library', 'LIB')];
+
+const context: VenueContext = {
+  locations: [
+    location('science', 'Science Hall'),
+    location('engineering', 'Engineering'),
+    location('block-b', 'Block B'),
+    location('library', 'Main Library')
+  ],
+  buildings,
+  floors: buildings.map(({ id }) => ({ id: `${id}-ground`, buildingId: id, level: 0, name: 'Ground' })),
+  rooms: [
+    room('sci-lt3', 'science', 'SCI-LT3'),
+    room('sci-lt2', 'science', 'LT2'),
+    room('sci-204', 'science', 'SCI-204'),
+    room('eng-204', 'engineering', 'ENG-204'),
+    room('b-12', 'block-b', '012'),
+    room('lib-3', 'library', 'LIB-3')
+  ],
+  graph: null
+};
+
+const roomIds = (query: string) => searchVenues(query, context).rooms.map(resolved => resolved.room.id);
+
+describe('searchVenues', () => {
+  it('finds the room a timetable code points to', () => {
+    expect(roomIds('SCI-LT3')).toEqual(['sci-lt3']);
+    expect(roomIds('ENG.204')).toEqual(['eng-204']);
+    expect(roomIds('Block B, Rm 12')).toEqual(['b-12']);
+    expect(roomIds('Main Library, Room 3')).toEqual(['lib-3']);
+  });
+
+  it('finds rooms written without a building', () => {
+    expect(searchVenues('LT 2', context)).toMatchObject({ code: { building: null, room: 'LT 2' }, ambiguous: false });
+    expect(roomIds('LT 2')).toEqual(['sci-lt2']);
+    expect(searchVenues('Room 12', context)).toMatchObject({ code: { building: null, room: '12' }, ambiguous: false });
+    expect(roomIds('Room 12')).toEqual(['b-12']);
+  });
+
+  it('points at the building when the room is unknown', () => {
+    const result = searchVenues('SCI 999', context);
+    expect(result.rooms).toEqual([]);
+    expect(result.locations.map(({ id }) => id)).toEqual(['science']);
+    expect(exactVenue(result)).toBe(result.locations[0]);
+  });
+
+  it('offers every match for a code that fits several rooms', () => {
+    const result = searchVenues('204', context);
+    expect(result.rooms.map(resolved => resolved.room.id)).toEqual(['sci-204', 'eng-204']);
+    expect(result.ambiguous).toBe(true);
+    expect(exactVenue(result)).toBeNull();
+  });
+
+  it('falls back to matching names', () => {
+    const result = searchVenues('library', context);
+    expect(result.code).toBeNull();
+    expect(result.locations.map(({ id }) => id)).toEqual(['library']);
+    expect(exactVenue(result)).toBeNull();
+  });
+});
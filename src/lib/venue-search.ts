@@ -0,0 +1,114 @@
+import { normaliseRoomText, resolveRoom, searchRooms, type IndoorContext, type ResolvedRoom } from '@/lib/indoor';
+import { getRoomCodeGrammar, parseRoomCode, type ParsedRoomCode, type RoomCodeGrammar } from '@/lib/room-codes';
+import type { CampusBuilding, CampusLocation, CampusRoom } from '@/types/campus';
+
+export interface VenueContext extends IndoorContext {
+  rooms: CampusRoom[];
+}
+
+export interface VenueSearchResult {
+  rooms: ResolvedRoom[];
+  locations: CampusLocation[];
+  // The reading of the query that produced the results, when it parsed as a venue code
+  code: ParsedRoomCode | null;
+  // A venue code fits more than one place; the results are suggestions, not an answer
+  ambiguous: boolean;
+}
+
+// "012" and "12" are the same room number
+const withoutLeadingZeros = (code: string) => code.replace(/\d+/g, digits => String(Number(digits)));
+
+const buildingNames = (building: CampusBuilding, locations: CampusLocation[]) => [
+  building.code,
+  building.name,
+  locations.find(location => location.id === building.locationId)?.name,
+  ...building.aliases
+].filter((name): name is string => !!name);
+
+const matchBuildings = (token: string, { buildings, locations }: VenueContext) => {
+  const needle = normaliseRoomText(token);
+  return buildings.filter(building =>
+    buildingNames(building, locations).some(name => normaliseRoomText(name) === needle)
+  );
+};
+
+// Room code without the building prefix, so ENG-204 can be found as "204" in Block B
+const localRoomCode = (room: CampusRoom, building: CampusBuilding) => {
+  const code = normaliseRoomText(room.code);
+  const prefix = building.code ? normaliseRoomText(building.code) : '';
+  return prefix && code.startsWith(prefix) ? code.slice(prefix.length) : code;
+};
+
+const roomMatches = (resolved: ResolvedRoom, token: string) => {
+  const needle = withoutLeadingZeros(normaliseRoomText(token));
+  return [localRoomCode(resolved.room, resolved.building), normaliseRoomText(resolved.room.code)]
+    .some(code => withoutLeadingZeros(code) === needle);
+};
+
+const resolveCode = (code: ParsedRoomCode, context: VenueContext, rooms: ResolvedRoom[]) => {
+  const buildings = code.building ? matchBuildings(code.building, context) : null;
+  if (buildings?.length === 0) return null;
+
+  if (code.room) {
+    const candidates = buildings ? rooms.filter(r => buildings.includes(r.building)) : rooms;
+    const matches = candidates.filter(r => roomMatches(r, code.room));
+    if (matches.length > 0) return { rooms: matches, locations: [] };
+  }
+
+  // The building is known but not the room: point at the building instead
+  if (buildings) {
+    const locations = context.locations.filter(location => buildings.some(b => b.locationId === location.id));
+    if (locations.length > 0) return { rooms: [], locations };
+  }
+  return null;
+};
+
+/**
+ * Resolves what was typed or pasted into the search box. Timetable venue codes
+ * ("SCI-LT3", "Block B, Rm 12") are parsed with the campus grammar and matched
+ * to rooms or buildings; anything else falls back to a name match.
+ */
+export const searchVenues = (
+  query: string,
+  context: VenueContext,
+  grammar: RoomCodeGrammar = getRoomCodeGrammar()
+): VenueSearchResult => {
+  const text = query.trim();
+  if (!text) {
+    return { rooms: [], locations: context.locations, code: null, ambiguous: false };
+  }
+
+  const rooms = context.rooms
+    .map(room => resolveRoom(room, context))
+    .filter((resolved): resolved is ResolvedRoom => resolved !== null);
+
+  for (const code of parseRoomCode(text, grammar)) {
+    const match = resolveCode(code, context, rooms);
+    if (match) {
+      return { ...match, code, ambiguous: match.rooms.length + match.locations.length > 1 };
+    }
+  }
+
+  const needle = text.toLowerCase();
+  const normalisedNeedle = normaliseRoomText(text);
+  const matchedRoomIds = new Set(searchRooms(context.rooms, text).map(room => room.id));
+  return {
+    rooms: rooms.filter(resolved => matchedRoomIds.has(resolved.room.id)),
+    locations: context.locations.filter(location =>
+      location.name.toLowerCase().includes(needle) ||
+      context.buildings.some(building =>
+        building.locationId === location.id &&
+        !!normalisedNeedle &&
+        [building.code, ...building.aliases].some(name => name && normaliseRoomText(name).startsWith(normalisedNeedle))
+      )
+    ),
+    code: null,
+    ambiguous: false
+  };
+};
+
+// The single place a venue search points to, if it is unambiguous
+export const exactVenue = (result: VenueSearchResult) => {
+  if (!result.code || result.ambiguous) return null;
+  return result.rooms[0] ?? result.locations[0] ?? null;
+};
@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import AdminConsole from '@/components/admin/AdminConsole';
+import AdminSignIn from '@/components/admin/AdminSignIn';
+import MapEditor from '@/components/admin/MapEditor';
+import { useAuth } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+
+interface AdminProps {
+  // Which admin tool to show once signed in
+  section?: 'locations' | 'map';
+}
+
+const Admin = ({ section = 'locations' }: AdminProps) => {
+  const { session, isAdmin, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <AdminSignIn />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-sm p-6 text-center space-y-4">
+          <h1 className="text-xl font-bold">Not an admin</h1>
+          <p className="text-sm text-muted-foreground">
+            {session.user.email} does not have access to the admin console.
+          </p>
+          <Button variant="outline" onClick={() => supabase.auth.signOut()}>
+            Sign out
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return section === 'map' ? <MapEditor /> : <AdminConsole email={session.user.email ?? ''} />;
+};
+
+export default Admin;
@@ -0,0 +1,42 @@
+export interface CampusLocation {
+  id: string;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  description?: string;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface CampusBuilding {
+  id: string;
+  locationId: string;
+  name: string | null;
+  // Timetable short code, e.g. SCI, and any other names the building goes by
+  code: string | null;
+  aliases: string[];
+  // GeoJSON Polygon rings of [lng, lat], outer ring first
+  footprint: [number, number][][];
+  height: number;
+  minHeight: number;
+}
+
+export interface CampusFloor {
+  id: string;
+  buildingId: string;
+  // 0 is ground level; basements are negative
+  level: number;
+  name: string;
+}
+
+export interface CampusRoom {
+  id: string;
+  floorId: string;
+  code: string;
+  name: string | null;
+  footprint: [number, number][][];
+}
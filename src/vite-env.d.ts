@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Picks the campus's entry in ROOM_CODE_GRAMMARS; unset uses the default grammar
+  readonly VITE_CAMPUS_ID?: string
+  // IANA zone the opening hours are written in, e.g. "Europe/London"; unset uses America/New_York
+  readonly VITE_CAMPUS_TIME_ZONE?: string
+}
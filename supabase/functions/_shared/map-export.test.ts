@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { exportPlaces, exportRoute, isExportFormat, type ExportPlace } from './map-export.ts';
+
+const place = (fields: Partial<ExportPlace> = {}): ExportPlace => ({
+  id: 'library',
+  name: 'Main Library',
+  category: 'academic',
+  categoryLabel: 'Academic',
+  latitude: 40.7484,
+  longitude: -73.9857,
+  description: null,
+  ...fields
+});
+
+describe('isExportFormat', () => {
+  it('accepts only the formats it can write', () => {
+    expect(['geojson', 'kml', 'gpx', 'csv'].every(isExportFormat)).toBe(true);
+    expect(isExportFormat('xlsx')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('XML exports', () => {
+  const awkward = place({ id: 'a"b', name: 'Tom & Jerry\'s <Café>', description: '1 < 2 > 0' });
+
+  it('escapes names, descriptions and attributes in KML', () => {
+    const { content, mimeType } = exportPlaces([awkward], 'kml', 'Rock & Roll');
+    expect(mimeType).toBe('application/vnd.google-earth.kml+xml;charset=utf-8');
+    expect(content).toContain('<name>Rock &amp; Roll</name>');
+    expect(content).toContain('<Placemark id="a&quot;b">');
+    expect(content).toContain('<name>Tom &amp; Jerry&apos;s &lt;Café&gt;</name>');
+    expect(content).toContain('<description>1 &lt; 2 &gt; 0</description>');
+    expect(content).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+  });
+
+  it('escapes GPX waypoints and tracks', () => {
+    expect(exportPlaces([awkward], 'gpx').content).toContain('<wpt lat="40.7484" lon="-73.9857"><name>Tom &amp; Jerry&apos;s &lt;Café&gt;</name>');
+    const track = exportRoute({ name: 'To <B>', coordinates: [[-73.98, 40.74], [-73.99, 40.75]] }, 'gpx').content;
+    expect(track).toContain('<trk><name>To &lt;B&gt;</name><trkseg>');
+    expect(track).toContain('<trkpt lat="40.75" lon="-73.99"></trkpt>');
+  });
+
+  it('leaves out empty elements', () => {
+    expect(exportPlaces([place()], 'kml').content).not.toContain('<description>');
+  });
+});
+
+describe('CSV exports', () => {
+  const rows = (content: string) => content.split('\r\n');
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    const { content } = exportPlaces([place({ name: 'Hall, North', description: 'Says "hi"\non two lines' })], 'csv');
+    expect(rows(content)[0]).toBe('id,name,category,category_label,latitude,longitude,description');
+    expect(content).toContain('library,"Hall, North",academic,Academic,40.7484,-73.9857,"Says ""hi""\non two lines"');
+    expect(content.endsWith('\r\n')).toBe(true);
+  });
+
+  it('stops spreadsheets from running cells as formulas', () => {
+    const { content } = exportPlaces(
+      [place({ name: '=HYPERLINK("http://example.com")', description: '+1', category: '-x', categoryLabel: '@sum' })],
+      'csv'
+    );
+    expect(rows(content)[1]).toBe(`library,"'=HYPERLINK(""http://example.com"")",'-x,'@sum,40.7484,-73.9857,'+1`);
+  });
+
+  it('keeps negative coordinates as numbers', () => {
+    const { content } = exportRoute({ name: 'Walk', coordinates: [[-73.98, -40.74]] }, 'csv');
+    expect(rows(content)).toEqual(['sequence,latitude,longitude', '1,-40.74,-73.98', '']);
+  });
+});
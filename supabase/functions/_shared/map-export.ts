@@ -0,0 +1,221 @@
+// Serialises campus locations and routes to GeoJSON, KML, GPX and CSV.
+// Imported by the export-map edge function and by the web app (src/lib/map-export.ts),
+// so it must stay free of imports that only resolve in one of them.
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['geojson', 'kml', 'gpx', 'csv'];
+
+export interface ExportPlace {
+  id: string;
+  name: string;
+  category: string;
+  categoryLabel?: string;
+  latitude: number;
+  longitude: number;
+  description?: string | null;
+}
+
+export interface ExportRoute {
+  name: string;
+  // [lng, lat] pairs, as the map draws them
+  coordinates: [number, number][];
+  // Metres and seconds, when known
+  distance?: number;
+  duration?: number;
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+  csv: 'text/csv'
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+const toFile = (content: string, format: ExportFormat): ExportFile => ({
+  content,
+  mimeType: `${MIME_TYPES[format]};charset=utf-8`,
+  extension: format
+});
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const xmlElement = (tag: string, value: string | undefined | null) =>
+  value ? `<${tag}>${escapeXml(value)}</${tag}>` : '';
+
+// Spreadsheets run text that starts like a formula, so such cells are prefixed with a quote
+const csvCell = (value: string | number | undefined | null) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (header: string[], rows: (string | number | undefined | null)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const kmlDocument = (name: string, placemarks: string[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document>${xmlElement('name', name)}`,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+
+const gpxDocument = (name: string, body: string[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Campus Map" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata>${xmlElement('name', name)}</metadata>`,
+    ...body,
+    '</gpx>',
+    ''
+  ].join('\n');
+
+/** The locations as points, with their category and description as attributes. */
+export const exportPlaces = (places: ExportPlace[], format: ExportFormat, title = 'Campus locations'): ExportFile => {
+  switch (format) {
+    case 'geojson':
+      return toFile(
+        JSON.stringify({
+          type: 'FeatureCollection',
+          features: places.map(place => ({
+            type: 'Feature',
+            id: place.id,
+            geometry: { type: 'Point', coordinates: [place.longitude, place.latitude] },
+            properties: {
+              id: place.id,
+              name: place.name,
+              category: place.category,
+              category_label: place.categoryLabel ?? place.category,
+              description: place.description ?? null
+            }
+          }))
+        }, null, 2),
+        format
+      );
+    case 'kml':
+      return toFile(
+        kmlDocument(
+          title,
+          places.map(place =>
+            [
+              `<Placemark id="${escapeXml(place.id)}">`,
+              xmlElement('name', place.name),
+              xmlElement('description', place.description),
+              '<ExtendedData>',
+              `<Data name="category"><value>${escapeXml(place.category)}</value></Data>`,
+              `<Data name="category_label"><value>${escapeXml(place.categoryLabel ?? place.category)}</value></Data>`,
+              '</ExtendedData>',
+              `<Point><coordinates>${place.longitude},${place.latitude}</coordinates></Point>`,
+              '</Placemark>'
+            ].join('')
+          )
+        ),
+        format
+      );
+    case 'gpx':
+      return toFile(
+        gpxDocument(
+          title,
+          places.map(place =>
+            [
+              `<wpt lat="${place.latitude}" lon="${place.longitude}">`,
+              xmlElement('name', place.name),
+              xmlElement('desc', place.description),
+              xmlElement('type', place.categoryLabel ?? place.category),
+              '</wpt>'
+            ].join('')
+          )
+        ),
+        format
+      );
+    case 'csv':
+      return toFile(
+        csvRows(
+          ['id', 'name', 'category', 'category_label', 'latitude', 'longitude', 'description'],
+          places.map(place => [
+            place.id,
+            place.name,
+            place.category,
+            place.categoryLabel ?? place.category,
+            place.latitude,
+            place.longitude,
+            place.description
+          ])
+        ),
+        format
+      );
+  }
+};
+
+/** The route as a line; CSV lists its points in order instead. */
+export const exportRoute = (route: ExportRoute, format: ExportFormat): ExportFile => {
+  switch (format) {
+    case 'geojson':
+      return toFile(
+        JSON.stringify({
+          type: 'FeatureCollection',
+          features: [{
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: route.coordinates },
+            properties: {
+              name: route.name,
+              distance_m: route.distance ?? null,
+              duration_s: route.duration ?? null
+            }
+          }]
+        }, null, 2),
+        format
+      );
+    case 'kml':
+      return toFile(
+        kmlDocument(route.name, [
+          [
+            '<Placemark>',
+            xmlElement('name', route.name),
+            '<LineString><tessellate>1</tessellate><coordinates>',
+            route.coordinates.map(([lng, lat]) => `${lng},${lat}`).join(' '),
+            '</coordinates></LineString>',
+            '</Placemark>'
+          ].join('')
+        ]),
+        format
+      );
+    case 'gpx':
+      return toFile(
+        gpxDocument(route.name, [
+          `<trk>${xmlElement('name', route.name)}<trkseg>`,
+          ...route.coordinates.map(([lng, lat]) => `<trkpt lat="${lat}" lon="${lng}"></trkpt>`),
+          '</trkseg></trk>'
+        ]),
+        format
+      );
+    case 'csv':
+      return toFile(
+        csvRows(
+          ['sequence', 'latitude', 'longitude'],
+          route.coordinates.map(([lng, lat], index) => [index + 1, lat, lng])
+        ),
+        format
+      );
+  }
+};
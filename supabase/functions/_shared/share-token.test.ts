@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  importSigningKey,
+  importVerifyingKey,
+  publicJwk,
+  signShareToken,
+  verifyShareToken,
+  type SharePayload
+} from './share-token.ts';
+
+const NOW = Date.UTC(2025, 9, 20, 12);
+
+const keyPair = async () => {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const jwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+  return { signing: await importSigningKey(jwk), verifying: await importVerifyingKey(publicJwk(jwk)) };
+};
+
+const place: SharePayload = { kind: 'place', placeId: 'library', name: 'Sam', exp: NOW / 1000 + 3600 };
+
+// Replaces one character of the signed body, keeping it valid base64url
+const tamper = (token: string) => {
+  const [body, signature] = token.split('.');
+  const flipped = body[5] === 'A' ? 'B' : 'A';
+  return `${body.slice(0, 5)}${flipped}${body.slice(6)}.${signature}`;
+};
+
+describe('share tokens', () => {
+  it('round-trips every kind of payload', async () => {
+    const { signing, verifying } = await keyPair();
+    const payloads: SharePayload[] = [
+      place,
+      { kind: 'live', shareId: 'share-1', name: null, exp: place.exp },
+      { kind: 'meetup', meetupId: 'meetup-1', name: 'Lunch', exp: place.exp }
+    ];
+    for (const payload of payloads) {
+      const token = await signShareToken(payload, signing);
+      expect(await verifyShareToken(token, verifying, NOW)).toEqual({ ok: true, payload });
+    }
+  });
+
+  it('rejects a token whose payload was edited', async () => {
+    const { signing, verifying } = await keyPair();
+    const token = await signShareToken(place, signing);
+    expect(await verifyShareToken(tamper(token), verifying, NOW)).toEqual({ ok: false, reason: 'signature' });
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const { signing } = await keyPair();
+    const { verifying } = await keyPair();
+    const token = await signShareToken(place, signing);
+    expect(await verifyShareToken(token, verifying, NOW)).toEqual({ ok: false, reason: 'signature' });
+  });
+
+  it('reports an expired token along with what it held', async () => {
+    const { signing, verifying } = await keyPair();
+    const token = await signShareToken(place, signing);
+    expect(await verifyShareToken(token, verifying, place.exp * 1000)).toEqual({ ok: false, reason: 'expired', payload: place });
+  });
+
+  it('rejects malformed tokens', async () => {
+    const { signing, verifying } = await keyPair();
+    const token = await signShareToken(place, signing);
+    for (const malformed of ['', 'abc', `${token}.extra`, `${token.split('.')[0]}.!!!`]) {
+      expect(await verifyShareToken(malformed, verifying, NOW)).toMatchObject({ ok: false, reason: 'malformed' });
+    }
+  });
+
+  it('rejects a correctly signed payload of an unknown shape', async () => {
+    const { signing, verifying } = await keyPair();
+    const token = await signShareToken({ kind: 'place', name: null, exp: place.exp } as unknown as SharePayload, signing);
+    expect(await verifyShareToken(token, verifying, NOW)).toEqual({ ok: false, reason: 'malformed' });
+  });
+});
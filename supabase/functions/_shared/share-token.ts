@@ -0,0 +1,71 @@
+// Signed share-link tokens: base64url(JSON payload) + "." + base64url(ECDSA P-256 signature).
+// The share-link edge function signs with the private key; the web app verifies with the
+// public one, so a link cannot be edited without the signature check failing.
+// Uses only Web Crypto, which Deno and browsers both provide.
+
+export type SharePayload =
+  | { kind: 'live'; shareId: string; name: string | null; exp: number }
+  | { kind: 'place'; placeId: string; name: string | null; exp: number }
+  | { kind: 'meetup'; meetupId: string; name: string | null; exp: number };
+
+export type ShareTokenResult =
+  | { ok: true; payload: SharePayload }
+  | { ok: false; reason: 'malformed' | 'signature' | 'expired'; payload?: SharePayload };
+
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+const isPayload = (value: unknown): value is SharePayload => {
+  const payload = value as SharePayload;
+  if (!payload || typeof payload.exp !== 'number') return false;
+  if (payload.name !== null && typeof payload.name !== 'string') return false;
+  if (payload.kind === 'live') return typeof payload.shareId === 'string';
+  if (payload.kind === 'place') return typeof payload.placeId === 'string';
+  if (payload.kind === 'meetup') return typeof payload.meetupId === 'string';
+  return false;
+};
+
+export const importSigningKey = (jwk: JsonWebKey) => crypto.subtle.importKey('jwk', jwk, ALGORITHM, false, ['sign']);
+
+export const importVerifyingKey = (jwk: JsonWebKey) => crypto.subtle.importKey('jwk', jwk, ALGORITHM, false, ['verify']);
+
+// The private JWK minus its secret part
+export const publicJwk = ({ kty, crv, x, y }: JsonWebKey): JsonWebKey => ({ kty, crv, x, y });
+
+export const signShareToken = async (payload: SharePayload, key: CryptoKey) => {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(SIGNATURE, key, new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/** Checks the signature first and the expiry (`exp`, in seconds) second. */
+export const verifyShareToken = async (token: string, key: CryptoKey, now = Date.now()): Promise<ShareTokenResult> => {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return { ok: false, reason: 'malformed' };
+
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify(SIGNATURE, key, fromBase64Url(signature), new TextEncoder().encode(body));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (!valid) return { ok: false, reason: 'signature' };
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (!isPayload(payload)) return { ok: false, reason: 'malformed' };
+  if (payload.exp * 1000 <= now) return { ok: false, reason: 'expired', payload };
+  return { ok: true, payload };
+};
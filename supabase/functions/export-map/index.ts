@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { exportPlaces, exportRoute, isExportFormat, type ExportFile } from "../_shared/map-export.ts";
+
+// GET  /export-map?format=csv&category=dining,housing&q=library
+//      The published locations, optionally filtered like the map's search and category filter.
+//      A parent category includes its children.
+// POST /export-map { "format": "gpx", "route": { "name": "...", "coordinates": [[lng, lat], ...] } }
+//      Converts a route drawn in the app.
+// format is one of geojson (default), kml, gpx or csv.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonError = (message: string, status: number) =>
+  new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+
+const fileResponse = (file: ExportFile, name: string) =>
+  new Response(file.content, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': file.mimeType,
+      'Content-Disposition': `attachment; filename="${name}.${file.extension}"`
+    }
+  });
+
+const isCoordinate = (value: unknown) =>
+  Array.isArray(value) && value.length >= 2 &&
+  Number.isFinite(value[0]) && Math.abs(value[0]) <= 180 &&
+  Number.isFinite(value[1]) && Math.abs(value[1]) <= 90;
+
+const exportLocations = async (params: URLSearchParams) => {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!);
+  const [locations, categories] = await Promise.all([
+    supabase.from('campus_locations').select('id, name, category, latitude, longitude, description').order('name'),
+    supabase.from('categories').select('slug, label, parent_slug')
+  ]);
+  if (locations.error) throw locations.error;
+  if (categories.error) throw categories.error;
+
+  // Expand the requested categories with everything filed beneath them
+  const wanted = new Set((params.get('category') ?? '').split(',').map(slug => slug.trim()).filter(Boolean));
+  for (let size = -1; wanted.size > 0 && size !== wanted.size;) {
+    size = wanted.size;
+    categories.data.forEach(category => {
+      if (category.parent_slug && wanted.has(category.parent_slug)) wanted.add(category.slug);
+    });
+  }
+  const needle = (params.get('q') ?? '').trim().toLowerCase();
+  const labels = new Map(categories.data.map(category => [category.slug, category.label]));
+
+  return locations.data
+    .filter(location => wanted.size === 0 || wanted.has(location.category))
+    .filter(location =>
+      !needle ||
+      location.name.toLowerCase().includes(needle) ||
+      (location.description ?? '').toLowerCase().includes(needle)
+    )
+    .map(location => ({
+      id: location.id,
+      name: location.name,
+      category: location.category,
+      categoryLabel: labels.get(location.category),
+      latitude: Number(location.latitude),
+      longitude: Number(location.longitude),
+      description: location.description
+    }));
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+
+    if (req.method === 'POST') {
+      const body = await req.json().catch(() => null);
+      const format = body?.format ?? params.get('format') ?? 'geojson';
+      if (!isExportFormat(format)) return jsonError(`Unknown format "${format}"`, 400);
+      const coordinates = body?.route?.coordinates;
+      if (!Array.isArray(coordinates) || coordinates.length < 2 || !coordinates.every(isCoordinate)) {
+        return jsonError('route.coordinates must be at least two [lng, lat] pairs', 400);
+      }
+      const name = typeof body.route.name === 'string' && body.route.name.trim() ? body.route.name.trim() : 'Route';
+      return fileResponse(exportRoute({ name, coordinates }, format), 'route');
+    }
+
+    if (req.method !== 'GET') return jsonError('Method not allowed', 405);
+    const format = params.get('format') ?? 'geojson';
+    if (!isExportFormat(format)) return jsonError(`Unknown format "${format}"`, 400);
+
+    const places = await exportLocations(params);
+    console.log(`Exported ${places.length} locations as ${format}`);
+    return fileResponse(exportPlaces(places, format), 'campus-locations');
+  } catch (error) {
+    console.error('Error in export-map function:', error);
+    return jsonError(error.message, 500);
+  }
+});
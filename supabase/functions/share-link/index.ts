@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { importSigningKey, publicJwk, signShareToken, type SharePayload } from "../_shared/share-token.ts";
+
+// GET  /share-link  -> { publicKey }  the key the web app verifies links with
+// POST /share-link  { kind: "live", shareId } | { kind: "meetup", meetupId }
+//                   | { kind: "place", placeId, name?, expiresInMinutes? }
+//                   -> { token, expiresAt }
+//
+// SHARE_LINK_SIGNING_KEY holds an ECDSA P-256 private key as JWK, e.g. the output of
+// crypto.subtle.exportKey('jwk', (await crypto.subtle.generateKey(
+//   { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])).privateKey)
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Place links outlive live sessions, but still run out
+const DEFAULT_PLACE_LINK_MINUTES = 7 * 24 * 60;
+const MAX_PLACE_LINK_MINUTES = 30 * 24 * 60;
+
+const json = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+
+const signingJwk = () => {
+  const raw = Deno.env.get('SHARE_LINK_SIGNING_KEY');
+  if (!raw) throw new Error('Share link signing key not configured');
+  return JSON.parse(raw) as JsonWebKey;
+};
+
+const cleanName = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, 60) : null;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return json({ publicKey: publicJwk(signingJwk()) });
+    }
+    if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+    const body = await req.json().catch(() => null);
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!);
+    let payload: SharePayload;
+
+    if (body?.kind === 'live' && typeof body.shareId === 'string') {
+      // A live link lasts exactly as long as its session and carries the name it was started with
+      const { data, error } = await supabase.rpc('get_location_share', { share_id: body.shareId });
+      if (error) return json({ error: 'Unknown sharing session' }, 400);
+      const session = data?.[0];
+      if (!session || session.stopped_at || new Date(session.expires_at).getTime() <= Date.now()) {
+        return json({ error: 'This sharing session has ended' }, 400);
+      }
+      payload = {
+        kind: 'live',
+        shareId: session.id,
+        name: session.display_name,
+        exp: Math.floor(new Date(session.expires_at).getTime() / 1000)
+      };
+    } else if (body?.kind === 'meetup' && typeof body.meetupId === 'string') {
+      // Likewise a meetup link carries the meetup's own name and runs out with it
+      const { data, error } = await supabase.rpc('get_meetup', { meetup_id: body.meetupId });
+      if (error) return json({ error: 'Unknown meetup' }, 400);
+      const meetup = data?.[0];
+      if (!meetup || new Date(meetup.expires_at).getTime() <= Date.now()) {
+        return json({ error: 'This meetup has ended' }, 400);
+      }
+      payload = {
+        kind: 'meetup',
+        meetupId: meetup.id,
+        name: meetup.name,
+        exp: Math.floor(new Date(meetup.expires_at).getTime() / 1000)
+      };
+    } else if (body?.kind === 'place' && typeof body.placeId === 'string') {
+      const { data, error } = await supabase.from('campus_locations').select('id').eq('id', body.placeId).maybeSingle();
+      if (error || !data) return json({ error: 'Unknown place' }, 400);
+      const minutes = Number.isFinite(body.expiresInMinutes)
+        ? Math.min(Math.max(body.expiresInMinutes, 1), MAX_PLACE_LINK_MINUTES)
+        : DEFAULT_PLACE_LINK_MINUTES;
+      payload = {
+        kind: 'place',
+        placeId: data.id,
+        name: cleanName(body.name),
+        exp: Math.floor(Date.now() / 1000) + Math.round(minutes * 60)
+      };
+    } else {
+      return json({ error: 'Expected a live shareId, a meetupId or a placeId' }, 400);
+    }
+
+    const token = await signShareToken(payload, await importSigningKey(signingJwk()));
+    console.log(`Signed ${payload.kind} share link`);
+    return json({ token, expiresAt: new Date(payload.exp * 1000).toISOString() });
+  } catch (error) {
+    console.error('Error in share-link function:', error);
+    return json({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,77 @@
+-- Create campus walking-path graph (nodes and the footpaths between them)
+CREATE TABLE public.campus_path_nodes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  location_id UUID REFERENCES public.campus_locations(id) ON DELETE SET NULL,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.campus_path_edges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_node_id UUID NOT NULL REFERENCES public.campus_path_nodes(id) ON DELETE CASCADE,
+  to_node_id UUID NOT NULL REFERENCES public.campus_path_nodes(id) ON DELETE CASCADE,
+  -- Optional surveyed length; the client falls back to the straight-line distance
+  length_m DECIMAL(8, 2),
+  bidirectional BOOLEAN NOT NULL DEFAULT true,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_path_edges_distinct_nodes CHECK (from_node_id <> to_node_id)
+);
+
+CREATE INDEX idx_campus_path_nodes_location_id ON public.campus_path_nodes(location_id);
+CREATE INDEX idx_campus_path_edges_from_node_id ON public.campus_path_edges(from_node_id);
+CREATE INDEX idx_campus_path_edges_to_node_id ON public.campus_path_edges(to_node_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.campus_path_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campus_path_edges ENABLE ROW LEVEL SECURITY;
+
+-- Paths are public reference data, same as campus locations
+CREATE POLICY "Campus path nodes are publicly viewable"
+ON public.campus_path_nodes
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Campus path edges are publicly viewable"
+ON public.campus_path_edges
+FOR SELECT
+USING (true);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_campus_path_nodes_updated_at
+BEFORE UPDATE ON public.campus_path_nodes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_campus_path_edges_updated_at
+BEFORE UPDATE ON public.campus_path_edges
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Insert sample footpath network around the sample campus locations
+INSERT INTO public.campus_path_nodes (id, name, latitude, longitude, location_id) VALUES
+  ('6f1c2a10-0000-4000-8000-000000000001', 'Library Walk', 40.7590, -73.9853, (SELECT id FROM public.campus_locations WHERE name = 'Main Library' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000002', 'Central Quad', 40.7586, -73.9850, NULL),
+  ('6f1c2a10-0000-4000-8000-000000000003', 'Union Plaza', 40.7583, -73.9846, (SELECT id FROM public.campus_locations WHERE name = 'Student Union Building' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000004', 'Science Path', 40.7594, -73.9842, (SELECT id FROM public.campus_locations WHERE name = 'Science Complex' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000005', 'Engineering Gate', 40.7586, -73.9837, (SELECT id FROM public.campus_locations WHERE name = 'Engineering Building' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000006', 'Residence Walk', 40.7574, -73.9855, (SELECT id FROM public.campus_locations WHERE name = 'Residence Hall B' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000007', 'Sports Path', 40.7593, -73.9863, (SELECT id FROM public.campus_locations WHERE name = 'Gymnasium' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000008', 'Health Path', 40.7587, -73.9864, (SELECT id FROM public.campus_locations WHERE name = 'Health Center' LIMIT 1)),
+  ('6f1c2a10-0000-4000-8000-000000000009', 'Admin Steps', 40.7579, -73.9840, (SELECT id FROM public.campus_locations WHERE name = 'Administration Building' LIMIT 1));
+
+INSERT INTO public.campus_path_edges (from_node_id, to_node_id, name) VALUES
+  ('6f1c2a10-0000-4000-8000-000000000001', '6f1c2a10-0000-4000-8000-000000000002', 'Library Walk'),
+  ('6f1c2a10-0000-4000-8000-000000000002', '6f1c2a10-0000-4000-8000-000000000003', 'Quad Path'),
+  ('6f1c2a10-0000-4000-8000-000000000001', '6f1c2a10-0000-4000-8000-000000000004', 'Science Path'),
+  ('6f1c2a10-0000-4000-8000-000000000004', '6f1c2a10-0000-4000-8000-000000000005', 'Engineering Walk'),
+  ('6f1c2a10-0000-4000-8000-000000000003', '6f1c2a10-0000-4000-8000-000000000005', 'Union Path'),
+  ('6f1c2a10-0000-4000-8000-000000000003', '6f1c2a10-0000-4000-8000-000000000009', 'Admin Path'),
+  ('6f1c2a10-0000-4000-8000-000000000002', '6f1c2a10-0000-4000-8000-000000000006', 'Residence Walk'),
+  ('6f1c2a10-0000-4000-8000-000000000001', '6f1c2a10-0000-4000-8000-000000000007', 'Sports Path'),
+  ('6f1c2a10-0000-4000-8000-000000000007', '6f1c2a10-0000-4000-8000-000000000008', 'Health Path'),
+  ('6f1c2a10-0000-4000-8000-000000000008', '6f1c2a10-0000-4000-8000-000000000006', 'West Walk');
@@ -0,0 +1,25 @@
+-- Accessibility attributes for footpaths and building entrances
+ALTER TABLE public.campus_path_edges
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'path',
+  ADD COLUMN has_kerb BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN incline_percent DECIMAL(5, 2),
+  ADD CONSTRAINT campus_path_edges_kind_check CHECK (kind IN ('path', 'steps', 'ramp', 'elevator'));
+
+ALTER TABLE public.campus_path_nodes
+  ADD COLUMN is_entrance BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN step_free BOOLEAN NOT NULL DEFAULT true;
+
+-- Nodes already linked to a location are the way into that building
+UPDATE public.campus_path_nodes SET is_entrance = true WHERE location_id IS NOT NULL;
+
+-- Tag the sample network: the admin approach has steps, with a ramp around the side,
+-- and the gym entrance is only reachable by steps
+UPDATE public.campus_path_edges SET kind = 'steps'
+WHERE from_node_id = '6f1c2a10-0000-4000-8000-000000000003'
+  AND to_node_id = '6f1c2a10-0000-4000-8000-000000000009';
+
+INSERT INTO public.campus_path_edges (from_node_id, to_node_id, name, kind, incline_percent) VALUES
+  ('6f1c2a10-0000-4000-8000-000000000005', '6f1c2a10-0000-4000-8000-000000000009', 'Admin Ramp', 'ramp', 6.5);
+
+UPDATE public.campus_path_nodes SET step_free = false
+WHERE id = '6f1c2a10-0000-4000-8000-000000000007';
@@ -0,0 +1,46 @@
+-- Building footprints, drawn as 2D fills or 3D extrusions on the map
+CREATE TABLE public.campus_buildings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.campus_locations(id) ON DELETE CASCADE,
+  name TEXT,
+  -- GeoJSON Polygon coordinates: [lng, lat] rings, outer ring first
+  footprint JSONB NOT NULL,
+  height_m DECIMAL(6, 2) NOT NULL DEFAULT 10,
+  -- Raised base for parts that start above ground, e.g. a bridge between blocks
+  min_height_m DECIMAL(6, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_buildings_height_check CHECK (height_m >= min_height_m)
+);
+
+CREATE INDEX idx_campus_buildings_location_id ON public.campus_buildings(location_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.campus_buildings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campus buildings are publicly viewable"
+ON public.campus_buildings
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_campus_buildings_updated_at
+BEFORE UPDATE ON public.campus_buildings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Insert sample footprints around the sample campus locations
+INSERT INTO public.campus_buildings (id, location_id, name, footprint, height_m)
+SELECT b.id::uuid, l.id, b.name, b.footprint::jsonb, b.height_m
+FROM (VALUES
+  ('7a2d3b20-0000-4000-8000-000000000001', 'Main Library', 'Main Library',
+    '[[[-73.98535, 40.75875], [-73.98485, 40.75875], [-73.98485, 40.75905], [-73.98535, 40.75905], [-73.98535, 40.75875]]]', 18),
+  ('7a2d3b20-0000-4000-8000-000000000002', 'Science Complex', 'Science Complex',
+    '[[[-73.98430, 40.75935], [-73.98370, 40.75935], [-73.98370, 40.75965], [-73.98400, 40.75965], [-73.98400, 40.75980], [-73.98430, 40.75980], [-73.98430, 40.75935]]]', 24),
+  ('7a2d3b20-0000-4000-8000-000000000003', 'Engineering Building', 'Engineering Building',
+    '[[[-73.98375, 40.75835], [-73.98325, 40.75835], [-73.98325, 40.75865], [-73.98375, 40.75865], [-73.98375, 40.75835]]]', 15),
+  ('7a2d3b20-0000-4000-8000-000000000004', 'Student Union Building', 'Student Union',
+    '[[[-73.98475, 40.75785], [-73.98425, 40.75785], [-73.98425, 40.75815], [-73.98475, 40.75815], [-73.98475, 40.75785]]]', 12)
+) AS b(id, location_name, name, footprint, height_m)
+JOIN LATERAL (
+  SELECT id FROM public.campus_locations WHERE name = b.location_name LIMIT 1
+) l ON true;
@@ -0,0 +1,80 @@
+-- Indoor maps: floors inside each building and the rooms on each floor
+CREATE TABLE public.campus_floors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  building_id UUID NOT NULL REFERENCES public.campus_buildings(id) ON DELETE CASCADE,
+  -- 0 is ground level; basements are negative
+  level INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_floors_building_level_key UNIQUE (building_id, level)
+);
+
+CREATE TABLE public.campus_rooms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  floor_id UUID NOT NULL REFERENCES public.campus_floors(id) ON DELETE CASCADE,
+  -- The code students see on timetables and door signs, e.g. ENG-204
+  code TEXT NOT NULL,
+  name TEXT,
+  -- GeoJSON Polygon coordinates: [lng, lat] rings, outer ring first
+  footprint JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_campus_rooms_floor_id ON public.campus_rooms(floor_id);
+CREATE INDEX idx_campus_rooms_code ON public.campus_rooms(upper(code));
+
+-- Enable Row Level Security
+ALTER TABLE public.campus_floors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campus_rooms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campus floors are publicly viewable"
+ON public.campus_floors
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Campus rooms are publicly viewable"
+ON public.campus_rooms
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_campus_floors_updated_at
+BEFORE UPDATE ON public.campus_floors
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_campus_rooms_updated_at
+BEFORE UPDATE ON public.campus_rooms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Insert sample floors and rooms for the seeded Science and Engineering buildings
+INSERT INTO public.campus_floors (id, building_id, level, name)
+SELECT f.id::uuid, b.id, f.level, f.name
+FROM (VALUES
+  ('8b3e4c30-0000-4000-8000-000000000001', '7a2d3b20-0000-4000-8000-000000000002', 0, 'Ground Floor'),
+  ('8b3e4c30-0000-4000-8000-000000000002', '7a2d3b20-0000-4000-8000-000000000002', 1, 'First Floor'),
+  ('8b3e4c30-0000-4000-8000-000000000003', '7a2d3b20-0000-4000-8000-000000000003', 0, 'Ground Floor'),
+  ('8b3e4c30-0000-4000-8000-000000000004', '7a2d3b20-0000-4000-8000-000000000003', 1, 'First Floor'),
+  ('8b3e4c30-0000-4000-8000-000000000005', '7a2d3b20-0000-4000-8000-000000000003', 2, 'Second Floor')
+) AS f(id, building_id, level, name)
+JOIN public.campus_buildings b ON b.id = f.building_id::uuid;
+
+INSERT INTO public.campus_rooms (floor_id, code, name, footprint)
+SELECT fl.id, r.code, r.name, r.footprint::jsonb
+FROM (VALUES
+  ('8b3e4c30-0000-4000-8000-000000000001', 'SCI-LT1', 'Lecture Theatre 1',
+    '[[[-73.98430, 40.75935], [-73.98400, 40.75935], [-73.98400, 40.75965], [-73.98430, 40.75965], [-73.98430, 40.75935]]]'),
+  ('8b3e4c30-0000-4000-8000-000000000001', 'SCI-LT2', 'Lecture Theatre 2',
+    '[[[-73.98400, 40.75935], [-73.98370, 40.75935], [-73.98370, 40.75965], [-73.98400, 40.75965], [-73.98400, 40.75935]]]'),
+  ('8b3e4c30-0000-4000-8000-000000000002', 'SCI-101', 'Chemistry Lab',
+    '[[[-73.98430, 40.75935], [-73.98400, 40.75935], [-73.98400, 40.75980], [-73.98430, 40.75980], [-73.98430, 40.75935]]]'),
+  ('8b3e4c30-0000-4000-8000-000000000003', 'ENG-001', 'Workshop',
+    '[[[-73.98375, 40.75835], [-73.98350, 40.75835], [-73.98350, 40.75865], [-73.98375, 40.75865], [-73.98375, 40.75835]]]'),
+  ('8b3e4c30-0000-4000-8000-000000000004', 'ENG-101', 'Computer Lab',
+    '[[[-73.98375, 40.75835], [-73.98350, 40.75835], [-73.98350, 40.75865], [-73.98375, 40.75865], [-73.98375, 40.75835]]]'),
+  ('8b3e4c30-0000-4000-8000-000000000005', 'ENG-204', 'Seminar Room',
+    '[[[-73.98350, 40.75835], [-73.98325, 40.75835], [-73.98325, 40.75865], [-73.98350, 40.75865], [-73.98350, 40.75835]]]')
+) AS r(floor_id, code, name, footprint)
+JOIN public.campus_floors fl ON fl.id = r.floor_id::uuid;
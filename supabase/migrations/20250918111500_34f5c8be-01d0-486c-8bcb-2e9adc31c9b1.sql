@@ -0,0 +1,17 @@
+-- Short codes and alternative names timetables use for buildings, e.g. SCI or "Block B"
+ALTER TABLE public.campus_buildings
+  ADD COLUMN code TEXT,
+  ADD COLUMN aliases TEXT[] NOT NULL DEFAULT '{}',
+  ADD CONSTRAINT campus_buildings_code_key UNIQUE (code);
+
+UPDATE public.campus_buildings SET code = 'LIB' WHERE id = '7a2d3b20-0000-4000-8000-000000000001';
+UPDATE public.campus_buildings SET code = 'SCI', aliases = '{"Block A"}' WHERE id = '7a2d3b20-0000-4000-8000-000000000002';
+UPDATE public.campus_buildings SET code = 'ENG', aliases = '{"Block B"}' WHERE id = '7a2d3b20-0000-4000-8000-000000000003';
+UPDATE public.campus_buildings SET code = 'SU' WHERE id = '7a2d3b20-0000-4000-8000-000000000004';
+
+-- A ground-floor tutorial room so "Block B, Rm 12" style venues resolve
+INSERT INTO public.campus_rooms (floor_id, code, name, footprint)
+SELECT fl.id, 'ENG-012', 'Tutorial Room',
+  '[[[-73.98350, 40.75835], [-73.98325, 40.75835], [-73.98325, 40.75865], [-73.98350, 40.75865], [-73.98350, 40.75835]]]'::jsonb
+FROM public.campus_floors fl
+WHERE fl.id = '8b3e4c30-0000-4000-8000-000000000003';
@@ -0,0 +1,80 @@
+-- Weekly opening hours per location, plus dated exceptions for holidays and closures
+CREATE TABLE public.campus_opening_hours (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.campus_locations(id) ON DELETE CASCADE,
+  -- 0 = Sunday ... 6 = Saturday, matching JavaScript's Date.getDay()
+  day_of_week SMALLINT NOT NULL,
+  opens_at TIME NOT NULL,
+  -- A closing time at or before the opening time runs past midnight
+  closes_at TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_opening_hours_day_check CHECK (day_of_week BETWEEN 0 AND 6)
+);
+
+CREATE TABLE public.campus_hours_exceptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.campus_locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  -- Both NULL means closed all day; otherwise replaces the weekly hours for that date
+  opens_at TIME,
+  closes_at TIME,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_hours_exceptions_times_check CHECK ((opens_at IS NULL) = (closes_at IS NULL))
+);
+
+CREATE INDEX idx_campus_opening_hours_location_id ON public.campus_opening_hours(location_id);
+CREATE INDEX idx_campus_hours_exceptions_location_id ON public.campus_hours_exceptions(location_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.campus_opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campus_hours_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campus opening hours are publicly viewable"
+ON public.campus_opening_hours
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Campus hours exceptions are publicly viewable"
+ON public.campus_hours_exceptions
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_campus_opening_hours_updated_at
+BEFORE UPDATE ON public.campus_opening_hours
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_campus_hours_exceptions_updated_at
+BEFORE UPDATE ON public.campus_hours_exceptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Insert sample hours for the sample campus locations
+INSERT INTO public.campus_opening_hours (location_id, day_of_week, opens_at, closes_at)
+SELECT l.id, d.day, h.opens_at::time, h.closes_at::time
+FROM (VALUES
+  ('Main Library', 1, 5, '08:00', '22:00'),
+  ('Main Library', 0, 0, '10:00', '18:00'),
+  ('Main Library', 6, 6, '10:00', '18:00'),
+  ('Campus Cafeteria', 1, 5, '07:30', '19:00'),
+  ('Campus Cafeteria', 6, 6, '09:00', '14:00'),
+  ('Coffee Shop', 1, 5, '07:00', '16:00'),
+  ('Administration Building', 1, 5, '09:00', '17:00'),
+  ('Health Center', 1, 5, '08:30', '17:00'),
+  ('Gymnasium', 0, 6, '06:00', '23:00')
+) AS h(location_name, first_day, last_day, opens_at, closes_at)
+CROSS JOIN LATERAL generate_series(h.first_day, h.last_day) AS d(day)
+JOIN public.campus_locations l ON l.name = h.location_name;
+
+INSERT INTO public.campus_hours_exceptions (location_id, date, opens_at, closes_at, name)
+SELECT l.id, e.date::date, e.opens_at::time, e.closes_at::time, e.name
+FROM (VALUES
+  ('Main Library', '2025-12-24', '10:00', '14:00', 'Christmas Eve'),
+  ('Main Library', '2025-12-25', NULL, NULL, 'Christmas Day'),
+  ('Campus Cafeteria', '2025-12-25', NULL, NULL, 'Christmas Day'),
+  ('Administration Building', '2025-12-25', NULL, NULL, 'Christmas Day')
+) AS e(location_name, date, opens_at, closes_at, name)
+JOIN public.campus_locations l ON l.name = e.location_name;
@@ -0,0 +1,93 @@
+-- Roles for signed-in users; admins may edit campus data
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT user_roles_user_id_role_key UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can check roles without tripping user_roles' own RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+-- Photos of each location; the files live in the location-photos storage bucket
+CREATE TABLE public.campus_location_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES public.campus_locations(id) ON DELETE CASCADE,
+  -- Object paths inside the bucket for the resized photo and its thumbnail
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT NOT NULL,
+  caption TEXT,
+  width INTEGER,
+  height INTEGER,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_campus_location_photos_location_id ON public.campus_location_photos(location_id);
+
+ALTER TABLE public.campus_location_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campus location photos are publicly viewable"
+ON public.campus_location_photos
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can add campus location photos"
+ON public.campus_location_photos
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update campus location photos"
+ON public.campus_location_photos
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete campus location photos"
+ON public.campus_location_photos
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_campus_location_photos_updated_at
+BEFORE UPDATE ON public.campus_location_photos
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Public bucket: anyone can view photos, only admins can change them
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('location-photos', 'location-photos', true);
+
+CREATE POLICY "Location photos are publicly viewable"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'location-photos');
+
+CREATE POLICY "Admins can upload location photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'location-photos' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete location photos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'location-photos' AND public.has_role(auth.uid(), 'admin'));
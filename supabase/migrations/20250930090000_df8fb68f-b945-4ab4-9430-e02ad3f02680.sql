@@ -0,0 +1,15 @@
+-- Let admins manage campus locations from the admin console
+CREATE POLICY "Admins can create campus locations"
+ON public.campus_locations
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update campus locations"
+ON public.campus_locations
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete campus locations"
+ON public.campus_locations
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,96 @@
+-- Let admins edit building footprints and the footpath network from the map editor
+CREATE POLICY "Admins can create campus buildings"
+ON public.campus_buildings
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update campus buildings"
+ON public.campus_buildings
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete campus buildings"
+ON public.campus_buildings
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create campus path nodes"
+ON public.campus_path_nodes
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update campus path nodes"
+ON public.campus_path_nodes
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete campus path nodes"
+ON public.campus_path_nodes
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create campus path edges"
+ON public.campus_path_edges
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update campus path edges"
+ON public.campus_path_edges
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete campus path edges"
+ON public.campus_path_edges
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Applies a batch of map editor changes in one transaction, so a failed save leaves nothing half-written.
+-- Runs as the caller, so the policies above still decide what may change.
+CREATE OR REPLACE FUNCTION public.apply_map_edits(edits JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit the map' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.campus_locations AS l
+  SET latitude = (e->>'latitude')::DECIMAL, longitude = (e->>'longitude')::DECIMAL
+  FROM jsonb_array_elements(COALESCE(edits->'locations', '[]'::JSONB)) AS e
+  WHERE l.id = (e->>'id')::UUID;
+
+  -- Deletes first, so a removed node's edges are gone before new ones reference its neighbours
+  DELETE FROM public.campus_path_edges
+  WHERE id IN (SELECT jsonb_array_elements_text(COALESCE(edits->'edges_delete', '[]'::JSONB))::UUID);
+
+  DELETE FROM public.campus_path_nodes
+  WHERE id IN (SELECT jsonb_array_elements_text(COALESCE(edits->'nodes_delete', '[]'::JSONB))::UUID);
+
+  DELETE FROM public.campus_buildings
+  WHERE id IN (SELECT jsonb_array_elements_text(COALESCE(edits->'buildings_delete', '[]'::JSONB))::UUID);
+
+  INSERT INTO public.campus_path_nodes (id, latitude, longitude)
+  SELECT (e->>'id')::UUID, (e->>'latitude')::DECIMAL, (e->>'longitude')::DECIMAL
+  FROM jsonb_array_elements(COALESCE(edits->'nodes_upsert', '[]'::JSONB)) AS e
+  ON CONFLICT (id) DO UPDATE SET latitude = EXCLUDED.latitude, longitude = EXCLUDED.longitude;
+
+  -- A surveyed length no longer holds once either end has moved
+  UPDATE public.campus_path_edges
+  SET length_m = NULL
+  WHERE length_m IS NOT NULL
+    AND (from_node_id IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(edits->'nodes_upsert', '[]'::JSONB)) AS e)
+      OR to_node_id IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(edits->'nodes_upsert', '[]'::JSONB)) AS e));
+
+  INSERT INTO public.campus_path_edges (id, from_node_id, to_node_id)
+  SELECT (e->>'id')::UUID, (e->>'from_node_id')::UUID, (e->>'to_node_id')::UUID
+  FROM jsonb_array_elements(COALESCE(edits->'edges_upsert', '[]'::JSONB)) AS e
+  ON CONFLICT (id) DO UPDATE SET from_node_id = EXCLUDED.from_node_id, to_node_id = EXCLUDED.to_node_id;
+
+  INSERT INTO public.campus_buildings (id, location_id, name, footprint)
+  SELECT (e->>'id')::UUID, (e->>'location_id')::UUID, e->>'name', e->'footprint'
+  FROM jsonb_array_elements(COALESCE(edits->'buildings_upsert', '[]'::JSONB)) AS e
+  ON CONFLICT (id) DO UPDATE SET location_id = EXCLUDED.location_id, name = EXCLUDED.name, footprint = EXCLUDED.footprint;
+END;
+$$;
@@ -0,0 +1,237 @@
+-- Draft layer for campus locations: admin edits wait here until they are published
+CREATE TABLE public.campus_location_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The live location this draft changes; for a new location, the id it will be created with
+  location_id UUID NOT NULL,
+  -- Publishing removes the live location instead of updating it
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  description TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_location_drafts_location_id_key UNIQUE (location_id)
+);
+
+-- Published versions of the location data, kept whole so any of them can be restored
+CREATE TABLE public.campus_map_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  version INTEGER NOT NULL,
+  note TEXT,
+  -- Every campus_locations row as it was right after publishing
+  snapshot JSONB NOT NULL,
+  location_count INTEGER NOT NULL,
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT campus_map_versions_version_key UNIQUE (version)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.campus_location_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campus_map_versions ENABLE ROW LEVEL SECURITY;
+
+-- Drafts and history are for admins only; students only ever see published data
+CREATE POLICY "Admins can view campus location drafts"
+ON public.campus_location_drafts
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create campus location drafts"
+ON public.campus_location_drafts
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update campus location drafts"
+ON public.campus_location_drafts
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete campus location drafts"
+ON public.campus_location_drafts
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view campus map versions"
+ON public.campus_map_versions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Versions are never edited; they are only added by the functions below
+CREATE POLICY "Admins can create campus map versions"
+ON public.campus_map_versions
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_campus_location_drafts_updated_at
+BEFORE UPDATE ON public.campus_location_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Snapshots the live locations as the next version and returns its number
+CREATE OR REPLACE FUNCTION public.record_map_version(note TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  next_version INTEGER;
+BEGIN
+  -- Two publishes at once must not both claim the same number
+  LOCK TABLE public.campus_map_versions IN EXCLUSIVE MODE;
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version FROM public.campus_map_versions;
+
+  INSERT INTO public.campus_map_versions (version, note, snapshot, location_count, published_by)
+  SELECT next_version, record_map_version.note, COALESCE(jsonb_agg(to_jsonb(l) ORDER BY l.name), '[]'::JSONB), COUNT(*), auth.uid()
+  FROM public.campus_locations AS l;
+
+  RETURN next_version;
+END;
+$$;
+
+-- Applies every draft to the live table, clears the drafts and records a version, all in one transaction
+CREATE OR REPLACE FUNCTION public.publish_location_drafts(note TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can publish the map' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.campus_locations
+  WHERE id IN (SELECT location_id FROM public.campus_location_drafts WHERE deleted);
+
+  INSERT INTO public.campus_locations (id, name, category, latitude, longitude, description)
+  SELECT location_id, name, category, latitude, longitude, description
+  FROM public.campus_location_drafts
+  WHERE NOT deleted
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    category = EXCLUDED.category,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    description = EXCLUDED.description;
+
+  DELETE FROM public.campus_location_drafts;
+
+  RETURN public.record_map_version(publish_location_drafts.note);
+END;
+$$;
+
+-- Restores the live locations to an earlier version; the rollback is itself recorded as a new version.
+-- Snapshots only hold the location rows, so deleting a location added since would lose its photos,
+-- hours and buildings for good. Such rollbacks are refused; those locations go through drafts first.
+CREATE OR REPLACE FUNCTION public.rollback_map_version(target_version INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target JSONB;
+  blocked TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can roll back the map' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT snapshot INTO target FROM public.campus_map_versions WHERE version = target_version;
+  IF target IS NULL THEN
+    RAISE EXCEPTION 'Version % does not exist', target_version USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT string_agg(l.name, ', ' ORDER BY l.name) INTO blocked
+  FROM public.campus_locations AS l
+  WHERE l.id NOT IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(target) AS e)
+    AND (
+      EXISTS (SELECT 1 FROM public.campus_location_photos AS p WHERE p.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_opening_hours AS h WHERE h.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_hours_exceptions AS x WHERE x.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_buildings AS b WHERE b.location_id = l.id)
+    );
+  IF blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'Rolling back would delete % along with their photos, hours or buildings', blocked
+      USING ERRCODE = '23503',
+            HINT = 'Delete these locations through a draft first if they should go.';
+  END IF;
+
+  DELETE FROM public.campus_locations
+  WHERE id NOT IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(target) AS e);
+
+  INSERT INTO public.campus_locations (id, name, category, latitude, longitude, description, created_at)
+  SELECT id, name, category, latitude, longitude, description, created_at
+  FROM jsonb_populate_recordset(NULL::public.campus_locations, target)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    category = EXCLUDED.category,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    description = EXCLUDED.description;
+
+  RETURN public.record_map_version(format('Rolled back to version %s', target_version));
+END;
+$$;
+
+-- Pins moved in the map editor become drafts too, instead of going live straight away
+CREATE OR REPLACE FUNCTION public.apply_map_edits(edits JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit the map' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.campus_location_drafts AS d
+  SET latitude = (e->>'latitude')::DECIMAL, longitude = (e->>'longitude')::DECIMAL
+  FROM jsonb_array_elements(COALESCE(edits->'locations', '[]'::JSONB)) AS e
+  WHERE d.location_id = (e->>'id')::UUID;
+
+  INSERT INTO public.campus_location_drafts (location_id, name, category, latitude, longitude, description)
+  SELECT l.id, l.name, l.category, (e->>'latitude')::DECIMAL, (e->>'longitude')::DECIMAL, l.description
+  FROM jsonb_array_elements(COALESCE(edits->'locations', '[]'::JSONB)) AS e
+  JOIN public.campus_locations AS l ON l.id = (e->>'id')::UUID
+  ON CONFLICT (location_id) DO NOTHING;
+
+  -- Deletes first, so a removed node's edges are gone before new ones reference its neighbours
+  DELETE FROM public.campus_path_edges
+  WHERE id IN (SELECT jsonb_array_elements_text(COALESCE(edits->'edges_delete', '[]'::JSONB))::UUID);
+
+  DELETE FROM public.campus_path_nodes
+  WHERE id IN (SELECT jsonb_array_elements_text(COALESCE(edits->'nodes_delete', '[]'::JSONB))::UUID);
+
+  DELETE FROM public.campus_buildings
+  WHERE id IN (SELECT jsonb_array_elements_text(COALESCE(edits->'buildings_delete', '[]'::JSONB))::UUID);
+
+  INSERT INTO public.campus_path_nodes (id, latitude, longitude)
+  SELECT (e->>'id')::UUID, (e->>'latitude')::DECIMAL, (e->>'longitude')::DECIMAL
+  FROM jsonb_array_elements(COALESCE(edits->'nodes_upsert', '[]'::JSONB)) AS e
+  ON CONFLICT (id) DO UPDATE SET latitude = EXCLUDED.latitude, longitude = EXCLUDED.longitude;
+
+  -- A surveyed length no longer holds once either end has moved
+  UPDATE public.campus_path_edges
+  SET length_m = NULL
+  WHERE length_m IS NOT NULL
+    AND (from_node_id IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(edits->'nodes_upsert', '[]'::JSONB)) AS e)
+      OR to_node_id IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(edits->'nodes_upsert', '[]'::JSONB)) AS e));
+
+  INSERT INTO public.campus_path_edges (id, from_node_id, to_node_id)
+  SELECT (e->>'id')::UUID, (e->>'from_node_id')::UUID, (e->>'to_node_id')::UUID
+  FROM jsonb_array_elements(COALESCE(edits->'edges_upsert', '[]'::JSONB)) AS e
+  ON CONFLICT (id) DO UPDATE SET from_node_id = EXCLUDED.from_node_id, to_node_id = EXCLUDED.to_node_id;
+
+  INSERT INTO public.campus_buildings (id, location_id, name, footprint)
+  SELECT (e->>'id')::UUID, (e->>'location_id')::UUID, e->>'name', e->'footprint'
+  FROM jsonb_array_elements(COALESCE(edits->'buildings_upsert', '[]'::JSONB)) AS e
+  ON CONFLICT (id) DO UPDATE SET location_id = EXCLUDED.location_id, name = EXCLUDED.name, footprint = EXCLUDED.footprint;
+END;
+$$;
+
+-- The data as it stands today is version 1, so the first publish can be rolled back
+INSERT INTO public.campus_map_versions (version, note, snapshot, location_count)
+SELECT 1, 'Initial version', COALESCE(jsonb_agg(to_jsonb(l) ORDER BY l.name), '[]'::JSONB), COUNT(*)
+FROM public.campus_locations AS l;
@@ -0,0 +1,163 @@
+-- Location categories, so their labels, colours and icons live in the data instead of the code
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- What campus_locations.category stores, e.g. 'student-services'
+  slug TEXT NOT NULL,
+  label TEXT NOT NULL,
+  -- Hex colour for markers, badges and filter chips
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  -- Lucide icon name, e.g. 'graduation-cap'; the client falls back to a pin for names it doesn't know
+  icon TEXT NOT NULL DEFAULT 'map-pin',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Filtering by a parent also shows its sub-categories
+  parent_slug TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT categories_slug_key UNIQUE (slug),
+  CONSTRAINT categories_parent_slug_fkey FOREIGN KEY (parent_slug) REFERENCES public.categories(slug) ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT categories_color_check CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  CONSTRAINT categories_parent_check CHECK (parent_slug IS DISTINCT FROM slug)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Categories are publicly viewable"
+ON public.categories
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create categories"
+ON public.categories
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update categories"
+ON public.categories
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete categories"
+ON public.categories
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The categories the app used to hard-code, with the same colours
+INSERT INTO public.categories (slug, label, color, icon, sort_order) VALUES
+  ('academic', 'Academic', '#063288', 'graduation-cap', 10),
+  ('student-services', 'Student services', '#f97415', 'users', 20),
+  ('dining', 'Dining', '#f97415', 'coffee', 30),
+  ('housing', 'Housing', '#16a249', 'home', 40),
+  ('recreation', 'Recreation', '#793bed', 'dumbbell', 50),
+  ('administrative', 'Administrative', '#063288', 'building', 60),
+  ('services', 'Services', '#16a249', 'file-text', 70);
+
+-- Any other category already in use becomes a known one, so the constraints below can be added
+INSERT INTO public.categories (slug, label, sort_order)
+SELECT DISTINCT category, initcap(replace(category, '-', ' ')), 1000
+FROM (
+  SELECT category FROM public.campus_locations
+  UNION
+  SELECT category FROM public.campus_location_drafts
+) AS used
+ON CONFLICT (slug) DO NOTHING;
+
+-- Renaming a slug follows through to every location; a category still in use cannot be deleted
+ALTER TABLE public.campus_locations
+ADD CONSTRAINT campus_locations_category_fkey
+FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE;
+
+ALTER TABLE public.campus_location_drafts
+ADD CONSTRAINT campus_location_drafts_category_fkey
+FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE;
+
+CREATE INDEX idx_campus_locations_category ON public.campus_locations(category);
+
+-- Renaming a slug follows through to the published versions as well
+CREATE OR REPLACE FUNCTION public.rename_category_in_map_versions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.campus_map_versions AS v
+  SET snapshot = (
+    SELECT jsonb_agg(
+      CASE WHEN e->>'category' = OLD.slug THEN jsonb_set(e, '{category}', to_jsonb(NEW.slug)) ELSE e END
+      ORDER BY position
+    )
+    FROM jsonb_array_elements(v.snapshot) WITH ORDINALITY AS entries(e, position)
+  )
+  WHERE v.snapshot @> jsonb_build_array(jsonb_build_object('category', OLD.slug));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_category_in_map_versions
+AFTER UPDATE OF slug ON public.categories
+FOR EACH ROW
+WHEN (OLD.slug IS DISTINCT FROM NEW.slug)
+EXECUTE FUNCTION public.rename_category_in_map_versions();
+
+-- Rolling back to a version whose categories were deleted since recreates them instead of failing
+CREATE OR REPLACE FUNCTION public.rollback_map_version(target_version INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target JSONB;
+  blocked TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can roll back the map' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT snapshot INTO target FROM public.campus_map_versions WHERE version = target_version;
+  IF target IS NULL THEN
+    RAISE EXCEPTION 'Version % does not exist', target_version USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT string_agg(l.name, ', ' ORDER BY l.name) INTO blocked
+  FROM public.campus_locations AS l
+  WHERE l.id NOT IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(target) AS e)
+    AND (
+      EXISTS (SELECT 1 FROM public.campus_location_photos AS p WHERE p.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_opening_hours AS h WHERE h.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_hours_exceptions AS x WHERE x.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_buildings AS b WHERE b.location_id = l.id)
+    );
+  IF blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'Rolling back would delete % along with their photos, hours or buildings', blocked
+      USING ERRCODE = '23503',
+            HINT = 'Delete these locations through a draft first if they should go.';
+  END IF;
+
+  -- Same defaults as for the unknown categories adopted when the categories table was added
+  INSERT INTO public.categories (slug, label, sort_order)
+  SELECT DISTINCT e->>'category', initcap(replace(e->>'category', '-', ' ')), 1000
+  FROM jsonb_array_elements(target) AS e
+  ON CONFLICT (slug) DO NOTHING;
+
+  DELETE FROM public.campus_locations
+  WHERE id NOT IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(target) AS e);
+
+  INSERT INTO public.campus_locations (id, name, category, latitude, longitude, description, created_at)
+  SELECT id, name, category, latitude, longitude, description, created_at
+  FROM jsonb_populate_recordset(NULL::public.campus_locations, target)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    category = EXCLUDED.category,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    description = EXCLUDED.description;
+
+  RETURN public.record_map_version(format('Rolled back to version %s', target_version));
+END;
+$$;
@@ -0,0 +1,135 @@
+-- Live location sharing: one row per sharing session, holding the sharer's latest position
+CREATE TABLE public.location_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Secret held by the sharer's browser; only it can move or stop the session
+  owner_token UUID NOT NULL DEFAULT gen_random_uuid(),
+  display_name TEXT NOT NULL CHECK (char_length(display_name) BETWEEN 1 AND 60),
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  accuracy_m REAL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  stopped_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security. There are deliberately no policies: nobody can list the
+-- sessions, and each one is only reachable through the functions below with its id.
+ALTER TABLE public.location_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX location_shares_expires_at_idx ON public.location_shares (expires_at);
+
+CREATE TRIGGER update_location_shares_updated_at
+BEFORE UPDATE ON public.location_shares
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starts a session lasting duration_minutes (at most 8 hours) and hands back its owner token
+CREATE OR REPLACE FUNCTION public.start_location_share(
+  display_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  duration_minutes INTEGER
+)
+RETURNS TABLE (id UUID, owner_token UUID, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF duration_minutes NOT BETWEEN 1 AND 480 THEN
+    RAISE EXCEPTION 'Sharing can last between 1 minute and 8 hours' USING ERRCODE = '22023';
+  END IF;
+
+  -- Sessions that ended over a day ago are no longer useful to anyone
+  DELETE FROM public.location_shares AS s WHERE s.expires_at < now() - INTERVAL '1 day';
+
+  RETURN QUERY
+  INSERT INTO public.location_shares AS s (display_name, latitude, longitude, accuracy_m, expires_at)
+  VALUES (
+    trim(start_location_share.display_name),
+    start_location_share.latitude,
+    start_location_share.longitude,
+    start_location_share.accuracy_m,
+    now() + make_interval(mins => duration_minutes)
+  )
+  RETURNING s.id, s.owner_token, s.expires_at;
+END;
+$$;
+
+-- Moves a running session; fails once it has been stopped or has expired
+CREATE OR REPLACE FUNCTION public.update_location_share(
+  share_id UUID,
+  owner_token UUID,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.location_shares AS s
+  SET latitude = update_location_share.latitude,
+      longitude = update_location_share.longitude,
+      accuracy_m = update_location_share.accuracy_m
+  WHERE s.id = share_id
+    AND s.owner_token = update_location_share.owner_token
+    AND s.stopped_at IS NULL
+    AND s.expires_at > now()
+  RETURNING s.updated_at INTO changed_at;
+
+  IF changed_at IS NULL THEN
+    RAISE EXCEPTION 'This sharing session has ended' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN changed_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stop_location_share(share_id UUID, owner_token UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.location_shares AS s
+  SET stopped_at = now()
+  WHERE s.id = share_id
+    AND s.owner_token = stop_location_share.owner_token
+    AND s.stopped_at IS NULL;
+$$;
+
+-- What a recipient sees. The position is withheld once the session is over.
+CREATE OR REPLACE FUNCTION public.get_location_share(share_id UUID)
+RETURNS TABLE (
+  id UUID,
+  display_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.display_name,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.latitude::DOUBLE PRECISION END,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.longitude::DOUBLE PRECISION END,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.accuracy_m END,
+    s.expires_at,
+    s.stopped_at,
+    s.updated_at
+  FROM public.location_shares AS s
+  WHERE s.id = share_id;
+$$;
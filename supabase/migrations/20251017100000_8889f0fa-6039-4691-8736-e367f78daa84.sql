@@ -0,0 +1,118 @@
+-- Approximate live sharing: the sharer's browser snaps or coarsens the position before
+-- sending it, and the session records how, so recipients know it is not exact
+ALTER TABLE public.location_shares
+  ADD COLUMN precision_mode TEXT NOT NULL DEFAULT 'exact' CHECK (precision_mode IN ('exact', 'landmark', 'grid')),
+  -- For landmark sharing, the place the position was snapped to
+  ADD COLUMN place_label TEXT CHECK (char_length(place_label) <= 120);
+
+-- The signatures change, so the old versions have to go rather than linger as overloads
+DROP FUNCTION public.start_location_share(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, REAL, INTEGER);
+DROP FUNCTION public.update_location_share(UUID, UUID, DOUBLE PRECISION, DOUBLE PRECISION, REAL);
+DROP FUNCTION public.get_location_share(UUID);
+
+-- Starts a session lasting duration_minutes (at most 8 hours) and hands back its owner token
+CREATE OR REPLACE FUNCTION public.start_location_share(
+  display_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  duration_minutes INTEGER,
+  precision_mode TEXT DEFAULT 'exact',
+  place_label TEXT DEFAULT NULL
+)
+RETURNS TABLE (id UUID, owner_token UUID, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF duration_minutes NOT BETWEEN 1 AND 480 THEN
+    RAISE EXCEPTION 'Sharing can last between 1 minute and 8 hours' USING ERRCODE = '22023';
+  END IF;
+
+  -- Sessions that ended over a day ago are no longer useful to anyone
+  DELETE FROM public.location_shares AS s WHERE s.expires_at < now() - INTERVAL '1 day';
+
+  RETURN QUERY
+  INSERT INTO public.location_shares AS s (display_name, latitude, longitude, accuracy_m, expires_at, precision_mode, place_label)
+  VALUES (
+    trim(start_location_share.display_name),
+    start_location_share.latitude,
+    start_location_share.longitude,
+    start_location_share.accuracy_m,
+    now() + make_interval(mins => duration_minutes),
+    start_location_share.precision_mode,
+    start_location_share.place_label
+  )
+  RETURNING s.id, s.owner_token, s.expires_at;
+END;
+$$;
+
+-- Moves a running session; fails once it has been stopped or has expired
+CREATE OR REPLACE FUNCTION public.update_location_share(
+  share_id UUID,
+  owner_token UUID,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  place_label TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.location_shares AS s
+  SET latitude = update_location_share.latitude,
+      longitude = update_location_share.longitude,
+      accuracy_m = update_location_share.accuracy_m,
+      place_label = update_location_share.place_label
+  WHERE s.id = share_id
+    AND s.owner_token = update_location_share.owner_token
+    AND s.stopped_at IS NULL
+    AND s.expires_at > now()
+  RETURNING s.updated_at INTO changed_at;
+
+  IF changed_at IS NULL THEN
+    RAISE EXCEPTION 'This sharing session has ended' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN changed_at;
+END;
+$$;
+
+-- What a recipient sees. The position is withheld once the session is over.
+CREATE OR REPLACE FUNCTION public.get_location_share(share_id UUID)
+RETURNS TABLE (
+  id UUID,
+  display_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  precision_mode TEXT,
+  place_label TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.display_name,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.latitude::DOUBLE PRECISION END,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.longitude::DOUBLE PRECISION END,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.accuracy_m END,
+    s.precision_mode,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.place_label END,
+    s.expires_at,
+    s.stopped_at,
+    s.updated_at
+  FROM public.location_shares AS s
+  WHERE s.id = share_id;
+$$;
@@ -0,0 +1,209 @@
+-- Group meetups: a named gathering at one campus location. Each participant joins by
+-- starting a live share tied to the meetup, so positions reuse location_shares.
+CREATE TABLE public.meetups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  destination_id UUID NOT NULL REFERENCES public.campus_locations(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- As with location_shares there are no policies; meetups are only reachable by id
+-- through the functions below
+ALTER TABLE public.meetups ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX meetups_expires_at_idx ON public.meetups (expires_at);
+
+CREATE TRIGGER update_meetups_updated_at
+BEFORE UPDATE ON public.meetups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.location_shares
+  ADD COLUMN meetup_id UUID REFERENCES public.meetups(id) ON DELETE CASCADE;
+
+CREATE INDEX location_shares_meetup_id_idx ON public.location_shares (meetup_id);
+
+-- Creates a meetup lasting duration_minutes (at most 8 hours)
+CREATE OR REPLACE FUNCTION public.create_meetup(name TEXT, destination_id UUID, duration_minutes INTEGER)
+RETURNS TABLE (id UUID, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF duration_minutes NOT BETWEEN 1 AND 480 THEN
+    RAISE EXCEPTION 'A meetup can last between 1 minute and 8 hours' USING ERRCODE = '22023';
+  END IF;
+
+  -- Finished meetups take their participants' sessions with them
+  DELETE FROM public.meetups AS m WHERE m.expires_at < now() - INTERVAL '1 day';
+
+  RETURN QUERY
+  INSERT INTO public.meetups AS m (name, destination_id, expires_at)
+  VALUES (trim(create_meetup.name), create_meetup.destination_id, now() + make_interval(mins => duration_minutes))
+  RETURNING m.id, m.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_meetup(meetup_id UUID)
+RETURNS TABLE (id UUID, name TEXT, destination_id UUID, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.name, m.destination_id, m.expires_at
+  FROM public.meetups AS m
+  WHERE m.id = meetup_id;
+$$;
+
+-- Everyone who has joined, in joining order. Positions are withheld for sessions that are over.
+CREATE OR REPLACE FUNCTION public.get_meetup_participants(meetup_id UUID)
+RETURNS TABLE (
+  id UUID,
+  display_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  precision_mode TEXT,
+  place_label TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.display_name,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.latitude::DOUBLE PRECISION END,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.longitude::DOUBLE PRECISION END,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.accuracy_m END,
+    s.precision_mode,
+    CASE WHEN s.stopped_at IS NULL AND s.expires_at > now() THEN s.place_label END,
+    s.expires_at,
+    s.stopped_at,
+    s.updated_at
+  FROM public.location_shares AS s
+  WHERE s.meetup_id = get_meetup_participants.meetup_id
+  ORDER BY s.created_at, s.id;
+$$;
+
+-- Joining a meetup is starting a share with its id; the share ends when the meetup does
+DROP FUNCTION public.start_location_share(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, REAL, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.start_location_share(
+  display_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m REAL,
+  duration_minutes INTEGER,
+  precision_mode TEXT DEFAULT 'exact',
+  place_label TEXT DEFAULT NULL,
+  meetup_id UUID DEFAULT NULL
+)
+RETURNS TABLE (id UUID, owner_token UUID, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ends_at TIMESTAMP WITH TIME ZONE;
+  meetup_ends_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF duration_minutes NOT BETWEEN 1 AND 480 THEN
+    RAISE EXCEPTION 'Sharing can last between 1 minute and 8 hours' USING ERRCODE = '22023';
+  END IF;
+  ends_at := now() + make_interval(mins => duration_minutes);
+
+  IF start_location_share.meetup_id IS NOT NULL THEN
+    SELECT m.expires_at INTO meetup_ends_at FROM public.meetups AS m WHERE m.id = start_location_share.meetup_id;
+    IF meetup_ends_at IS NULL OR meetup_ends_at <= now() THEN
+      RAISE EXCEPTION 'This meetup has ended' USING ERRCODE = 'P0002';
+    END IF;
+    ends_at := LEAST(ends_at, meetup_ends_at);
+  END IF;
+
+  -- Sessions that ended over a day ago are no longer useful to anyone
+  DELETE FROM public.location_shares AS s WHERE s.expires_at < now() - INTERVAL '1 day';
+
+  RETURN QUERY
+  INSERT INTO public.location_shares AS s (
+    display_name, latitude, longitude, accuracy_m, expires_at, precision_mode, place_label, meetup_id
+  )
+  VALUES (
+    trim(start_location_share.display_name),
+    start_location_share.latitude,
+    start_location_share.longitude,
+    start_location_share.accuracy_m,
+    ends_at,
+    start_location_share.precision_mode,
+    start_location_share.place_label,
+    start_location_share.meetup_id
+  )
+  RETURNING s.id, s.owner_token, s.expires_at;
+END;
+$$;
+
+-- A meetup's destination is one more thing a rollback could not bring back
+CREATE OR REPLACE FUNCTION public.rollback_map_version(target_version INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target JSONB;
+  blocked TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can roll back the map' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT snapshot INTO target FROM public.campus_map_versions WHERE version = target_version;
+  IF target IS NULL THEN
+    RAISE EXCEPTION 'Version % does not exist', target_version USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT string_agg(l.name, ', ' ORDER BY l.name) INTO blocked
+  FROM public.campus_locations AS l
+  WHERE l.id NOT IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(target) AS e)
+    AND (
+      EXISTS (SELECT 1 FROM public.campus_location_photos AS p WHERE p.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_opening_hours AS h WHERE h.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_hours_exceptions AS x WHERE x.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.campus_buildings AS b WHERE b.location_id = l.id)
+      OR EXISTS (SELECT 1 FROM public.meetups AS m WHERE m.destination_id = l.id)
+    );
+  IF blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'Rolling back would delete % along with their photos, hours, buildings or meetups', blocked
+      USING ERRCODE = '23503',
+            HINT = 'Delete these locations through a draft first if they should go.';
+  END IF;
+
+  -- Same defaults as for the unknown categories adopted when the categories table was added
+  INSERT INTO public.categories (slug, label, sort_order)
+  SELECT DISTINCT e->>'category', initcap(replace(e->>'category', '-', ' ')), 1000
+  FROM jsonb_array_elements(target) AS e
+  ON CONFLICT (slug) DO NOTHING;
+
+  DELETE FROM public.campus_locations
+  WHERE id NOT IN (SELECT (e->>'id')::UUID FROM jsonb_array_elements(target) AS e);
+
+  INSERT INTO public.campus_locations (id, name, category, latitude, longitude, description, created_at)
+  SELECT id, name, category, latitude, longitude, description, created_at
+  FROM jsonb_populate_recordset(NULL::public.campus_locations, target)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    category = EXCLUDED.category,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    description = EXCLUDED.description;
+
+  RETURN public.record_map_version(format('Rolled back to version %s', target_version));
+END;
+$$;